@@ -10,8 +10,15 @@ import {promiseGAPI} from "shared/index";
 import firebase from "firebase/app";
 import "firebase/auth";
 import {googleScope} from "shared/constants";
+import {clearCache, getAccountConnection} from "shared/connection/connectionManager";
+import {getActiveAccount} from "shared/util/accountUtils";
+import {clearSecureLS, getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import DataProxyConnect from "../connection/dataProxy";
+import DataProxyWebSocket from "../connection/dataProxyWebSocket";
+import {deletePushToken} from "../private/pushUtils";
 
-type LoginState = "waiting" | "logged-out" | "logged-in";
+//"direct" is used when the user has set up a direct connection to their server, instead of signing in to use AirMessage Connect
+type LoginState = "waiting" | "logged-out" | "logged-in" | "direct";
 
 interface State {
 	state: LoginState
@@ -32,11 +39,42 @@ export default class LoginGate extends React.Component<any, State> {
 			case "logged-in":
 				return <Messaging />;
 			case "logged-out":
-				return <Onboarding />;
+				return <Onboarding onApplyConfig={this.applyDirectConfig} />;
+			case "direct":
+				return <Messaging resetCallback={this.resetDirectConfig} />;
 		}
 	}
 	
 	componentDidMount() {
+		//Connecting directly if the user has entered a server address, otherwise signing in to AirMessage Connect
+		getSecureLS(SecureStorageKey.ServerAddress, getActiveAccount().id).then((address) => {
+			if(address !== undefined) {
+				getAccountConnection(getActiveAccount().id).setDataProxy(new DataProxyWebSocket());
+				this.setState({state: "direct"});
+			} else {
+				this.initializeSignIn();
+			}
+		});
+	}
+	
+	private readonly applyDirectConfig = () => {
+		this.setState({state: "direct"});
+	};
+	
+	private readonly resetDirectConfig = () => {
+		const accountID = getActiveAccount().id;
+		
+		//Removing the server details and messages saved from the old server
+		clearSecureLS(accountID).catch(console.warn);
+		clearCache().catch(console.warn);
+		
+		//Going back to AirMessage Connect
+		getAccountConnection(accountID).setDataProxy(new DataProxyConnect());
+		this.setState({state: "logged-out"});
+		if(!this.unsubscribe) this.initializeSignIn();
+	};
+	
+	private initializeSignIn() {
 		promiseGAPI.then(() => {
 			gapi.load("auth2", () => {
 				gapi.auth2.init({
@@ -51,6 +89,9 @@ export default class LoginGate extends React.Component<any, State> {
 		});
 		
 		this.unsubscribe = firebase.auth().onAuthStateChanged((user) => {
+			//Ignoring if the user is connected directly
+			if(this.state.state === "direct") return;
+			
 			//Updating the state
 			this.setState({
 				state: user ? "logged-in" : "logged-out"
@@ -68,6 +109,12 @@ export default class LoginGate extends React.Component<any, State> {
 				if(this.googleAuthInstance && this.googleAuthInstance.isSignedIn.get()) {
 					this.googleAuthInstance.signOut();
 				}
+				
+				//Removing messages saved from the signed-out account
+				clearCache().catch(console.warn);
+				
+				//Stopping push notifications for the signed-out account
+				deletePushToken(getActiveAccount().id).catch(console.warn);
 			}
 		});
 	}
@@ -1,8 +1,9 @@
-import React from "react";
+import React, {useState} from "react";
 import styles from "./Onboarding.module.css";
 
 import Typography from "@material-ui/core/Typography";
 import Button from "@material-ui/core/Button";
+import SettingsEthernetRoundedIcon from "@material-ui/icons/SettingsEthernetRounded";
 
 import iconAirMessage from "shared/resources/icons/tile-airmessage.svg";
 import iconMac from "shared/resources/icons/tile-mac.svg";
@@ -10,10 +11,23 @@ import iconGoogle from "shared/resources/icons/logo-google.svg";
 
 import AirMessageLogo from "shared/components/logo/AirMessageLogo";
 import {googleScope} from "shared/constants";
+import ConnectionConfigDialog from "shared/components/connection/ConnectionConfigDialog";
+import {getActiveAccount} from "shared/util/accountUtils";
+import {createDataProxyWebSocket} from "../../connection/dataProxyWebSocket";
+
+//Browsers can only connect over WebSocket, while AirMessage Server only accepts direct connections over TCP
+const bridgeDescription = "Your browser connects over WebSocket, which AirMessage Server doesn't accept directly. Enter the address of a WebSocket-to-TCP bridge (such as websockify) that forwards to your server. Addresses without a port use 1359.";
+
+/**
+ * @param props.onApplyConfig Called once the user has set up a direct connection to their server, instead of signing in
+ */
+export default function Onboarding(props: {onApplyConfig: VoidFunction}) {
+	const [showConfigDialog, setShowConfigDialog] = useState(false);
 
-export default function Onboarding() {
 	return (
 		<div className={styles.root}>
+			<ConnectionConfigDialog isOpen={showConfigDialog} accountID={getActiveAccount().id} createDataProxy={createDataProxyWebSocket} description={bridgeDescription} onDismiss={() => setShowConfigDialog(false)} onApplyConfig={props.onApplyConfig} />
+
 			<div style={{padding: 16}}>
 				<AirMessageLogo />
 			</div>
@@ -44,6 +58,7 @@ export default function Onboarding() {
 						<div className={styles.column} style={{marginLeft: 24, flexGrow: 1}}>
 							<Typography variant="subtitle1" gutterBottom>Select a sign-in method:</Typography>
 							<Button className={styles.buttonGoogle} variant="contained" startIcon={<img src={iconGoogle} alt="" />} style={{marginTop: 4}} onClick={signInGoogle} fullWidth>Sign in with Google</Button>
+							<Button className={styles.buttonManual} variant="outlined" startIcon={<SettingsEthernetRoundedIcon />} style={{marginTop: 8}} onClick={() => setShowConfigDialog(true)} fullWidth>Connect to server directly</Button>
 						</div>
 					</div>
 				</div>
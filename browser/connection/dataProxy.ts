@@ -9,7 +9,8 @@ import "firebase/auth";
 import {getInstallationID} from "shared/util/installationUtils";
 import {ConnectionErrorCode} from "shared/data/stateCodes";
 import {connectHostname} from "shared/secrets";
-import {decryptData, isCryptoPasswordAvailable} from "shared/util/encryptionUtils";
+import {decryptData, getCryptoKey} from "shared/util/encryptionUtils";
+import {getPushToken, getRegisteredPushToken, setRegisteredPushToken} from "../private/pushUtils";
 
 const handshakeTimeoutTime = 8 * 1000;
 
@@ -19,12 +20,12 @@ export default class DataProxyConnect extends DataProxy {
 	
 	start(): void {
 		//Getting the user's ID token
-		firebase.auth().currentUser!.getIdToken().then((idToken: string) => {
+		Promise.all([firebase.auth().currentUser!.getIdToken(), getInstallationID(this.accountID)]).then(([idToken, installationID]) => {
 			//Building the URL
 			const url = new URL(connectHostname);
 			url.searchParams.set("communications", String(NHT.commVer));
 			url.searchParams.set("is_server", String(false));
-			url.searchParams.set("installation_id", getInstallationID());
+			url.searchParams.set("installation_id", installationID);
 			url.searchParams.set("id_token", idToken);
 			
 			//Starting the WebSocket connection
@@ -78,6 +79,19 @@ export default class DataProxyConnect extends DataProxy {
 		this.socket!.send(byteBuffer.flip().toArrayBuffer());
 	}
 	
+	//Sends this browser's push token to Connect, so the server can notify it while the app is closed
+	private async registerPushToken() {
+		const token = await getPushToken();
+		if(token === undefined || this.socket?.readyState !== WebSocket.OPEN) return;
+		
+		//Replacing the previous token if it has changed
+		const previousToken = getRegisteredPushToken(this.accountID);
+		if(previousToken !== undefined && previousToken !== token) this.sendTokenRemove(previousToken);
+		
+		this.sendTokenAdd(token);
+		setRegisteredPushToken(token, this.accountID);
+	}
+	
 	private handleMessage(data: ArrayBuffer) {
 		//Wrapping the data
 		const byteBuffer = ByteBuffer.wrap(data);
@@ -93,6 +107,9 @@ export default class DataProxyConnect extends DataProxy {
 				//Calling the listener
 				this.notifyOpen();
 				
+				//Registering for push notifications
+				this.registerPushToken().catch((error) => console.warn("Failed to register for push notifications", error));
+				
 				break;
 			}
 			case NHT.nhtClientProxy: {
@@ -126,8 +143,9 @@ export default class DataProxyConnect extends DataProxy {
 				//Reading the data
 				const data = byteBuffer.compact().toArrayBuffer();
 				
-				if(isEncrypted && isCryptoPasswordAvailable()) {
-					decryptData(data).then((data) => {
+				const cryptoKey = getCryptoKey(this.accountID);
+				if(isEncrypted && cryptoKey) {
+					decryptData(data, cryptoKey).then((data) => {
 						this.notifyMessage(data, isSecure);
 					});
 				} else {
@@ -0,0 +1,192 @@
+import DataProxy from "shared/connection/dataProxy";
+import {ConnectionErrorCode} from "shared/data/stateCodes";
+import ByteBuffer from "bytebuffer";
+import {decryptData, encryptData, getCryptoKey} from "shared/util/encryptionUtils";
+import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+
+interface AddressOverride {
+	primary: string;
+	fallback?: string;
+}
+
+const defaultPort = 1359;
+const headerLength = 4 + 1; //Packet length + encryption flag
+
+//A regex that determines if an address contains a port
+const regexPort = /:[0-9]{1,5}$/;
+
+/**
+ * Builds a WebSocket URL from a hostname and optional port
+ *
+ * Addresses without a port use 1359, AirMessage Server's default port, which the WebSocket bridge is expected to listen on as well.
+ * Pages served over HTTPS can't open insecure WebSockets, so the connection is only made over plain WebSocket from insecure pages
+ */
+export function buildURL(address: string): string {
+	const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+	return `${protocol}//${regexPort.test(address) ? address : `${address}:${defaultPort}`}`;
+}
+
+/**
+ * Connects directly to the server over WebSocket, without going through AirMessage Connect
+ *
+ * Released versions of AirMessage Server only listen for raw TCP connections, so this proxy needs a WebSocket-to-TCP bridge
+ * (such as websockify) in front of the server, which forwards the contents of each WebSocket message to the server's TCP socket.
+ * Packets are framed the same way as over TCP, with a length and an encryption flag before each packet.
+ */
+export default class DataProxyWebSocket extends DataProxy {
+	private socket: WebSocket | undefined;
+	private readonly override: AddressOverride | undefined;
+	private isStopping = false;
+	private connectedAddress: string | undefined;
+	
+	//Received data that doesn't make up a full packet yet
+	private readBuffer = new Uint8Array(0);
+	
+	constructor(override?: AddressOverride) {
+		super();
+		
+		this.override = override;
+	}
+	
+	get isDirect(): boolean {
+		return true;
+	}
+	
+	get activeAddress(): string | undefined {
+		return this.connectedAddress;
+	}
+	
+	//previousEncrypt ensures that all send messages are sent in order
+	private previousEncrypt: Promise<any> = Promise.resolve();
+	send(data: ArrayBuffer, encrypt: boolean) {
+		this.previousEncrypt = this.previousEncrypt.then(async () => {
+			//Encrypting the data if necessary
+			if(encrypt) {
+				this.writeSync(await encryptData(data, getCryptoKey(this.accountID)!), true);
+			} else {
+				this.writeSync(data, false);
+			}
+		}).catch(console.warn);
+	}
+	
+	//Writes data to the socket without any sort of processing
+	private writeSync(data: ArrayBuffer, isEncrypted: boolean) {
+		if(!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+		
+		const byteBuffer = ByteBuffer.allocate(headerLength + data.byteLength)
+			.writeInt(data.byteLength)
+			.writeByte(isEncrypted ? 1 : 0)
+			.append(data);
+		
+		this.socket.send(byteBuffer.buffer);
+	}
+	
+	//previousDecrypt ensures that all read messages are handled in order
+	private previousDecrypt: Promise<any> = Promise.resolve();
+	async start(): Promise<void> {
+		//Resetting the state
+		this.isStopping = false;
+		this.connectedAddress = undefined;
+		this.readBuffer = new Uint8Array(0);
+		
+		//Reading address data
+		let addressPrimary: string;
+		let addressSecondary: string | undefined;
+		
+		if(this.override !== undefined) {
+			addressPrimary = this.override.primary;
+			addressSecondary = this.override.fallback;
+		} else {
+			const addressPrimaryStr = await getSecureLS(SecureStorageKey.ServerAddress, this.accountID);
+			if(addressPrimaryStr === undefined) {
+				this.notifyClose(ConnectionErrorCode.Connection);
+				return;
+			}
+			addressPrimary = addressPrimaryStr;
+			addressSecondary = await getSecureLS(SecureStorageKey.ServerAddressFallback, this.accountID);
+		}
+		
+		this.connect(addressPrimary, addressSecondary);
+	}
+	
+	private connect(address: string, fallbackAddress: string | undefined) {
+		let isOpen = false;
+		
+		let socket: WebSocket;
+		try {
+			socket = new WebSocket(buildURL(address));
+		} catch(error) {
+			//The address couldn't be parsed
+			console.warn(error);
+			this.notifyClose(ConnectionErrorCode.Connection);
+			return;
+		}
+		socket.binaryType = "arraybuffer";
+		this.socket = socket;
+		
+		socket.onopen = () => {
+			isOpen = true;
+			this.connectedAddress = address;
+			this.notifyOpen();
+		};
+		socket.onmessage = (event: MessageEvent) => {
+			this.handleData(new Uint8Array(event.data));
+		};
+		socket.onclose = () => {
+			if(!isOpen && !this.isStopping && fallbackAddress) {
+				//Connect using fallback parameters if we haven't been asked to disconnect
+				this.connect(fallbackAddress, undefined);
+			} else {
+				this.notifyClose(navigator.onLine ? ConnectionErrorCode.Connection : ConnectionErrorCode.Internet);
+			}
+		};
+	}
+	
+	//Splits received data into packets, which may be spread across or share WebSocket messages
+	private handleData(data: Uint8Array) {
+		//Appending the data to the buffer
+		const buffer = new Uint8Array(this.readBuffer.length + data.length);
+		buffer.set(this.readBuffer, 0);
+		buffer.set(data, this.readBuffer.length);
+		
+		let offset = 0;
+		while(buffer.length - offset >= headerLength) {
+			//Reading the packet header
+			const view = new DataView(buffer.buffer, buffer.byteOffset + offset, headerLength);
+			const size = view.getInt32(0);
+			const isEncrypted = view.getInt8(4) !== 0;
+			if(buffer.length - offset - headerLength < size) break;
+			
+			//Reading the packet contents
+			const packet = buffer.slice(offset + headerLength, offset + headerLength + size).buffer;
+			offset += headerLength + size;
+			
+			this.previousDecrypt = this.previousDecrypt.then(async () => {
+				//Decrypting the data if necessary
+				if(isEncrypted) {
+					this.notifyMessage(await decryptData(packet, getCryptoKey(this.accountID)!), true);
+				} else {
+					this.notifyMessage(packet, false);
+				}
+			}).catch(console.warn);
+		}
+		
+		//Keeping the leftover data for the next message
+		this.readBuffer = buffer.slice(offset);
+	}
+	
+	stop(): void {
+		//Setting the isStopping flag, so we don't try to create any more connections
+		this.isStopping = true;
+		
+		//Closing the socket
+		this.socket?.close();
+	}
+}
+
+/**
+ * Creates a data proxy that connects to the specified addresses, rather than the saved ones
+ */
+export function createDataProxyWebSocket(address: string, fallbackAddress: string | undefined): DataProxyWebSocket {
+	return new DataProxyWebSocket({primary: address, fallback: fallbackAddress});
+}
\ No newline at end of file
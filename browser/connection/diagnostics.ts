@@ -0,0 +1,74 @@
+import {DiagnosticTarget} from "shared/connection/diagnostics";
+import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import {connectHostname} from "shared/secrets";
+import DataProxyConnect from "./dataProxy";
+import DataProxyWebSocket, {buildURL} from "./dataProxyWebSocket";
+
+//How long to wait for an address to accept a connection
+const reachabilityTimeoutMillis = 10 * 1000;
+
+/**
+ * Gets the server that an account connects to, either directly or through AirMessage Connect
+ *
+ * Browsers can't look up addresses, so that is covered by the reachability check
+ */
+export async function getDiagnosticTarget(accountID: string): Promise<DiagnosticTarget | undefined> {
+	const primaryAddress = await getSecureLS(SecureStorageKey.ServerAddress, accountID);
+	if(primaryAddress !== undefined) {
+		const fallbackAddress = await getSecureLS(SecureStorageKey.ServerAddressFallback, accountID);
+		
+		return {
+			type: "direct",
+			primaryAddress: primaryAddress,
+			fallbackAddress: fallbackAddress,
+			checkReachability: checkWebSocketReachability,
+			createDataProxy: () => new DataProxyWebSocket({primary: primaryAddress, fallback: fallbackAddress})
+		};
+	} else {
+		return {
+			type: "connect",
+			primaryAddress: new URL(connectHostname).host,
+			checkReachability: checkHTTPSReachability,
+			createDataProxy: () => new DataProxyConnect()
+		};
+	}
+}
+
+function checkWebSocketReachability(address: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		let socket: WebSocket;
+		try {
+			socket = new WebSocket(buildURL(address));
+		} catch(error) {
+			reject(error);
+			return;
+		}
+		
+		const timeoutID = setTimeout(() => {
+			socket.close();
+			reject(new Error("No response"));
+		}, reachabilityTimeoutMillis);
+		socket.onopen = () => {
+			clearTimeout(timeoutID);
+			socket.close();
+			resolve();
+		};
+		socket.onclose = () => {
+			//Browsers don't say why a WebSocket failed to open
+			clearTimeout(timeoutID);
+			reject(new Error("Connection failed"));
+		};
+	});
+}
+
+async function checkHTTPSReachability(host: string): Promise<void> {
+	const abortController = new AbortController();
+	const timeoutID = setTimeout(() => abortController.abort(), reachabilityTimeoutMillis);
+	
+	try {
+		//The response can't be read without CORS, but it is enough to know that the host responded
+		await fetch(`https://${host}`, {mode: "no-cors", cache: "no-store", signal: abortController.signal});
+	} finally {
+		clearTimeout(timeoutID);
+	}
+}
\ No newline at end of file
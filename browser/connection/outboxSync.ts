@@ -0,0 +1,44 @@
+import {deleteOutboxSyncAccount, outboxSyncTag, removeOutboxSyncAccount, saveOutboxSyncAccount} from "shared/connection/outboxSync";
+import {getSecureLS, SecureStorageKey, shareSecureLSWithWorker} from "shared/util/secureStorageUtils";
+import {getInstallationID} from "shared/util/installationUtils";
+
+/**
+ * Asks the service worker to send an account's queued messages once the browser is back online, even if the app has been closed
+ *
+ * The account's connection details are copied to a store that the service worker can read,
+ * since the service worker doesn't have access to local storage. Its password stays in secure storage.
+ */
+export async function requestOutboxSync(accountID: string): Promise<void> {
+	//Background sync is only available in some browsers, and the service worker is only registered in production builds
+	if(!("serviceWorker" in navigator)) return;
+	const registration = await navigator.serviceWorker.getRegistration();
+	if(!registration || !("sync" in registration)) return;
+	
+	const address = await getSecureLS(SecureStorageKey.ServerAddress, accountID);
+	await shareSecureLSWithWorker(accountID);
+	await saveOutboxSyncAccount({
+		accountID: accountID,
+		installationID: await getInstallationID(accountID),
+		connection: address !== undefined ? {
+			type: "direct",
+			address: address,
+			fallbackAddress: await getSecureLS(SecureStorageKey.ServerAddressFallback, accountID)
+		} : {type: "connect"}
+	});
+	
+	await registration.sync.register(outboxSyncTag);
+}
+
+/**
+ * Stops the service worker from sending an account's messages, once the app has sent them itself or they have been discarded
+ */
+export async function cancelOutboxSync(accountID: string): Promise<void> {
+	await removeOutboxSyncAccount(accountID);
+}
+
+/**
+ * Removes everything saved for the service worker to send an account's messages, such as when the account is deleted
+ */
+export async function deleteOutboxSync(accountID: string): Promise<void> {
+	await deleteOutboxSyncAccount(accountID);
+}
\ No newline at end of file
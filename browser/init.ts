@@ -1,5 +1,10 @@
 import {setPeopleUtils} from "shared/util/peopleUtils";
 import GooglePeopleUtils from "platform-components/private/googlePeopleUtils";
+import {setAttachmentCache} from "shared/util/attachmentCache";
+import IndexedDBAttachmentCache from "platform-components/private/indexedDBAttachmentCache";
 
 //Setting people
-setPeopleUtils(new GooglePeopleUtils());
\ No newline at end of file
+setPeopleUtils(new GooglePeopleUtils());
+
+//Setting the attachment cache
+setAttachmentCache(new IndexedDBAttachmentCache());
\ No newline at end of file
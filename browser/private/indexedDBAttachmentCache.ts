@@ -0,0 +1,95 @@
+import {AttachmentCache, attachmentCacheSizeLimit} from "shared/util/attachmentCache";
+import {openDatabase, promisifyRequest, promisifyTransaction} from "shared/util/indexedDBUtils";
+
+const databaseName = "attachmentCache";
+const databaseVersion = 2;
+
+//File data is stored separately from its metadata, so that eviction doesn't have to load any files
+//Both stores are keyed by [accountID, guid]
+const storeData = "data";
+const storeEntries = "entries";
+
+interface CacheEntry {
+	accountID: string;
+	guid: string;
+	size: number;
+	lastAccess: number;
+}
+
+export default class IndexedDBAttachmentCache extends AttachmentCache {
+	private databasePromise: Promise<IDBDatabase> | undefined;
+	
+	private getDatabase(): Promise<IDBDatabase> {
+		if(!this.databasePromise) {
+			this.databasePromise = openDatabase(databaseName, databaseVersion, (database, oldVersion) => {
+				//Files cached before they were kept by account can't be attributed to one, so they are discarded
+				if(oldVersion < 2) {
+					for(const storeName of Array.from(database.objectStoreNames)) database.deleteObjectStore(storeName);
+				}
+				
+				database.createObjectStore(storeData);
+				database.createObjectStore(storeEntries, {keyPath: ["accountID", "guid"]});
+			});
+			
+			//Allowing the database to be opened again if it fails
+			this.databasePromise.catch(() => this.databasePromise = undefined);
+		}
+		
+		return this.databasePromise;
+	}
+	
+	async get(accountID: string, attachmentGUID: string): Promise<ArrayBuffer | undefined> {
+		const database = await this.getDatabase();
+		const data: ArrayBuffer | undefined = await promisifyRequest(database.transaction(storeData, "readonly").objectStore(storeData).get([accountID, attachmentGUID]));
+		if(data === undefined) return undefined;
+		
+		//Updating the access time in a new transaction, since the read transaction commits once its request completes
+		const transaction = database.transaction(storeEntries, "readwrite");
+		transaction.objectStore(storeEntries).put({accountID: accountID, guid: attachmentGUID, size: data.byteLength, lastAccess: Date.now()} as CacheEntry);
+		await promisifyTransaction(transaction);
+		
+		return data;
+	}
+	
+	async put(accountID: string, attachmentGUID: string, data: ArrayBuffer): Promise<void> {
+		const database = await this.getDatabase();
+		
+		//Saving the file
+		{
+			const transaction = database.transaction([storeData, storeEntries], "readwrite");
+			transaction.objectStore(storeData).put(data, [accountID, attachmentGUID]);
+			transaction.objectStore(storeEntries).put({accountID: accountID, guid: attachmentGUID, size: data.byteLength, lastAccess: Date.now()} as CacheEntry);
+			await promisifyTransaction(transaction);
+		}
+		
+		//Evicting the least recently used files
+		{
+			const entries: CacheEntry[] = await promisifyRequest(database.transaction(storeEntries, "readonly").objectStore(storeEntries).getAll());
+			entries.sort((entry1, entry2) => entry1.lastAccess - entry2.lastAccess);
+			
+			const transaction = database.transaction([storeData, storeEntries], "readwrite");
+			let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+			for(const entry of entries) {
+				if(totalSize <= attachmentCacheSizeLimit) break;
+				
+				transaction.objectStore(storeData).delete([entry.accountID, entry.guid]);
+				transaction.objectStore(storeEntries).delete([entry.accountID, entry.guid]);
+				totalSize -= entry.size;
+			}
+			
+			await promisifyTransaction(transaction);
+		}
+	}
+	
+	async clear(accountID: string): Promise<void> {
+		const database = await this.getDatabase();
+		
+		//Arrays sort after strings, so this range covers every key that starts with the account ID
+		const accountRange = IDBKeyRange.bound([accountID], [accountID, []]);
+		
+		const transaction = database.transaction([storeData, storeEntries], "readwrite");
+		transaction.objectStore(storeData).delete(accountRange);
+		transaction.objectStore(storeEntries).delete(accountRange);
+		await promisifyTransaction(transaction);
+	}
+}
\ No newline at end of file
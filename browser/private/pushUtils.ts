@@ -0,0 +1,53 @@
+import firebase from "firebase/app";
+import "firebase/messaging";
+import {firebaseVAPIDKey} from "shared/secrets";
+import {getAccounts} from "shared/util/accountUtils";
+
+const storageKeyPushToken = "pushToken";
+
+//Each account registers the token with Connect separately, so it is stored separately for each account
+function getAccountStorageKey(accountID: string): string {
+	return `${accountID}.${storageKeyPushToken}`;
+}
+
+/**
+ * Gets a token for sending push notifications to this browser through Firebase Cloud Messaging
+ * @return The token, or undefined if push notifications aren't available or allowed
+ */
+export async function getPushToken(): Promise<string | undefined> {
+	if(!firebase.messaging.isSupported() || Notification.permission !== "granted") return undefined;
+	
+	//Push messages are handled by the app's own service worker, which is only registered in production builds
+	const registration = await navigator.serviceWorker.getRegistration();
+	if(!registration) return undefined;
+	
+	return firebase.messaging().getToken({vapidKey: firebaseVAPIDKey, serviceWorkerRegistration: registration});
+}
+
+/**
+ * Gets the push token that was last sent to AirMessage Connect for an account
+ */
+export function getRegisteredPushToken(accountID: string): string | undefined {
+	return localStorage.getItem(getAccountStorageKey(accountID)) ?? undefined;
+}
+
+/**
+ * Records the push token that was sent to AirMessage Connect for an account
+ */
+export function setRegisteredPushToken(token: string, accountID: string) {
+	localStorage.setItem(getAccountStorageKey(accountID), token);
+}
+
+/**
+ * Stops an account from receiving push notifications on this browser, such as when the user signs out
+ *
+ * The browser's token is only deleted once no other account is still using it
+ */
+export async function deletePushToken(accountID: string): Promise<void> {
+	const token = getRegisteredPushToken(accountID);
+	if(token === undefined) return;
+	localStorage.removeItem(getAccountStorageKey(accountID));
+	
+	if(getAccounts().some((account) => account.id !== accountID && getRegisteredPushToken(account.id) === token)) return;
+	if(firebase.messaging.isSupported()) await firebase.messaging().deleteToken();
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+//Runs the push handler against a stand-in for the service worker's global scope
+const listeners = new Map<string, (event: any) => void>();
+const showNotification = jest.fn(() => Promise.resolve());
+const focusClient = jest.fn(() => Promise.resolve());
+const matchAll = jest.fn((): Promise<unknown[]> => Promise.resolve([]));
+const openWindow = jest.fn(() => Promise.resolve(null));
+
+Object.defineProperty(globalThis, "self", {
+	configurable: true,
+	value: {
+		addEventListener: (type: string, listener: (event: any) => void) => listeners.set(type, listener),
+		registration: {showNotification: showNotification},
+		clients: {matchAll: matchAll, openWindow: openWindow},
+		location: {origin: "https://web.airmessage.org"}
+	}
+});
+require("./pushWorker");
+
+//Dispatches an event to the worker, and waits for the work it extends the event with
+async function dispatch(type: string, event: Record<string, unknown>) {
+	let work: Promise<unknown> = Promise.resolve();
+	listeners.get(type)!({...event, waitUntil: (promise: Promise<unknown>) => work = promise});
+	await work;
+}
+
+function createPushData(payload: unknown) {
+	return {json: () => payload, text: () => JSON.stringify(payload)};
+}
+
+describe("push worker", () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		matchAll.mockResolvedValue([]);
+	});
+	
+	test("shows the same notification whatever the push contains", async () => {
+		//Connect's payload format isn't documented, so fields that look meaningful aren't trusted
+		await dispatch("push", {data: createPushData({data: {chat_guid: "iMessage;-;+15551234567", title: "Sender", body: "Message text"}})});
+		await dispatch("push", {data: null});
+		
+		const expectedOptions = {body: "You have new messages", icon: "/logo192.png", tag: "messages"};
+		expect(showNotification.mock.calls).toEqual([
+			["AirMessage", expectedOptions],
+			["AirMessage", expectedOptions]
+		]);
+	});
+	
+	test("shows the notification while the app is open", async () => {
+		matchAll.mockResolvedValue([{focus: focusClient}]);
+		await dispatch("push", {data: null});
+		
+		expect(showNotification).toHaveBeenCalledTimes(1);
+	});
+	
+	test("focuses the app when the notification is clicked", async () => {
+		const close = jest.fn();
+		matchAll.mockResolvedValue([{focus: focusClient}]);
+		await dispatch("notificationclick", {notification: {close: close}});
+		
+		expect(close).toHaveBeenCalled();
+		expect(focusClient).toHaveBeenCalled();
+		expect(openWindow).not.toHaveBeenCalled();
+	});
+	
+	test("opens the app when the notification is clicked while it is closed", async () => {
+		await dispatch("notificationclick", {notification: {close: jest.fn()}});
+		
+		expect(openWindow).toHaveBeenCalledWith("https://web.airmessage.org/");
+	});
+});
\ No newline at end of file
@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+
+//This script is loaded into the service worker generated by Workbox, and shows notifications for messages received while the app is closed
+
+const context = self as unknown as ServiceWorkerGlobalScope;
+
+//The same notification is shown for every push message, replacing the last one
+//Connect relays the server's push payload, but its format isn't documented, so the payload isn't read.
+//The notification therefore can't show the message or open its conversation. Clicking it opens the app, which loads new messages itself.
+const notificationTitle = "AirMessage";
+const notificationBody = "You have new messages";
+const notificationTag = "messages";
+
+context.addEventListener("push", (event: PushEvent) => {
+	event.waitUntil(showPushNotification());
+});
+
+context.addEventListener("notificationclick", (event: NotificationEvent) => {
+	event.notification.close();
+	event.waitUntil(openApp());
+});
+
+function showPushNotification(): Promise<void> {
+	//Notifying even when the app is open, since browsers require every push to show a notification
+	return context.registration.showNotification(notificationTitle, {
+		body: notificationBody,
+		icon: "/logo192.png",
+		tag: notificationTag
+	});
+}
+
+async function openApp() {
+	//Focusing the app if it is open
+	const windowClients = await context.clients.matchAll({type: "window", includeUncontrolled: true});
+	if(windowClients.length > 0) {
+		await windowClients[0].focus();
+		return;
+	}
+	
+	await context.clients.openWindow(new URL("/", context.location.origin).toString());
+}
\ No newline at end of file
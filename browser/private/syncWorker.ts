@@ -0,0 +1,60 @@
+/// <reference lib="webworker" />
+import firebase from "firebase/app";
+import "firebase/auth";
+import {firebaseConfig} from "shared/secrets";
+import {loadOutboxSyncAccounts, OutboxSyncAccount, outboxSyncTag, removeOutboxSyncAccount, sendOutbox} from "shared/connection/outboxSync";
+import DataProxy from "shared/connection/dataProxy";
+import DataProxyConnect from "../connection/dataProxy";
+import DataProxyWebSocket from "../connection/dataProxyWebSocket";
+
+//This script is loaded into the service worker generated by Workbox, and sends messages that were queued while offline once the network is back
+
+const context = self as unknown as ServiceWorkerGlobalScope;
+
+context.addEventListener("sync", (event: SyncEvent) => {
+	if(event.tag !== outboxSyncTag) return;
+	event.waitUntil(syncOutboxes());
+});
+
+async function syncOutboxes() {
+	//Leaving messages to the app if it is open, since it sends them over its own connection
+	//Messages are claimed before they are sent either way, so this only saves opening a second connection.
+	//Only windows this worker controls are running the app, and the sync fails so that the browser tries again in case the app is closed first.
+	const windowClients = await context.clients.matchAll({type: "window"});
+	if(windowClients.length > 0) throw new Error("Queued messages are being sent by the app");
+	
+	let allSent = true;
+	for(const account of await loadOutboxSyncAccounts()) {
+		const dataProxy = await createDataProxy(account);
+		if(dataProxy === undefined || !await sendOutbox(account, dataProxy)) {
+			allSent = false;
+			continue;
+		}
+		
+		await removeOutboxSyncAccount(account.accountID);
+	}
+	
+	//Failing the sync, so that the browser tries again later
+	if(!allSent) throw new Error("Some queued messages couldn't be sent");
+}
+
+async function createDataProxy(account: OutboxSyncAccount): Promise<DataProxy | undefined> {
+	if(account.connection.type === "direct") {
+		return new DataProxyWebSocket({primary: account.connection.address, fallback: account.connection.fallbackAddress});
+	} else {
+		//Connecting through AirMessage Connect with the user who is signed in to the app
+		return await getFirebaseUser() !== null ? new DataProxyConnect() : undefined;
+	}
+}
+
+function getFirebaseUser(): Promise<firebase.User | null> {
+	if(firebase.apps.length === 0) firebase.initializeApp(firebaseConfig);
+	
+	//Waiting for the saved sign-in to load
+	return new Promise((resolve) => {
+		const unsubscribe = firebase.auth().onAuthStateChanged((user) => {
+			unsubscribe();
+			resolve(user);
+		});
+	});
+}
\ No newline at end of file
@@ -1,8 +1,9 @@
-const {app, BrowserWindow} = require("electron");
+const {app, BrowserWindow, ipcMain} = require("electron");
 const path = require("path");
 const contextMenu = require("electron-context-menu");
 
-app.commandLine.appendSwitch("ignore-certificate-errors", "true");
+//Certificate errors are only ignored for the development server's self-signed certificate (webpack serve --env secure)
+//Direct connections check the server's certificate themselves, against the one pinned on first connection
 app.commandLine.appendSwitch("allow-insecure-localhost", "true");
 
 function createWindow() {
@@ -29,6 +30,9 @@ function createWindow() {
 	} */
 }
 
+//Exposing app directories to the renderer
+ipcMain.handle("getPath", (event, name) => app.getPath(name));
+
 app.whenReady().then(createWindow);
 
 app.on("activate", function() {
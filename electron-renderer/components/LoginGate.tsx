@@ -1,27 +1,61 @@
 import React, {useCallback, useState} from "react";
 
 import Onboarding from "./private/Onboarding";
+import ConnectionConfigDialog from "shared/components/connection/ConnectionConfigDialog";
+import {createDataProxyTCP} from "../connection/dataProxy";
+import {discoverServers} from "../connection/discovery";
 import Messaging from "shared/components/messaging/master/Messaging";
 import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
-import {setDisableAutomaticReconnections} from "shared/connection/connectionManager";
+import {clearCache, deleteAccount, setDisableAutomaticReconnections} from "shared/connection/connectionManager";
+import {createAccountID, getAccounts, getActiveAccount, setActiveAccount} from "shared/util/accountUtils";
 
 export default function LoginGate() {
 	const [hasConfig, setHasConfig] = useState(() => {
-		return getSecureLS(SecureStorageKey.ServerAddress) !== undefined &&
-			getSecureLS(SecureStorageKey.ServerPassword) !== undefined;
+		const accountID = getActiveAccount().id;
+		return getSecureLS(SecureStorageKey.ServerAddress, accountID) !== undefined &&
+			getSecureLS(SecureStorageKey.ServerPassword, accountID) !== undefined;
 	});
 	
+	//The ID of the account that is being set up, while the configuration dialog is open
+	const [newAccountID, setNewAccountID] = useState<string | undefined>(undefined);
+	
 	const applyConfig = useCallback(() => {
 		setHasConfig(true);
 	}, [setHasConfig]);
 	
 	const reset = useCallback(() => {
+		//Removing the active account if there are others to switch to
+		if(getAccounts().length > 1) {
+			deleteAccount(getActiveAccount().id).catch(console.warn);
+			return;
+		}
+		
 		setHasConfig(false);
 		setDisableAutomaticReconnections(true);
+		
+		//Removing messages saved from the old server
+		clearCache().catch(console.warn);
 	}, [setHasConfig]);
 	
+	const addAccount = useCallback(() => {
+		setNewAccountID(createAccountID());
+	}, [setNewAccountID]);
+	
+	const dismissNewAccount = useCallback(() => {
+		setNewAccountID(undefined);
+	}, [setNewAccountID]);
+	
+	const applyNewAccount = useCallback(() => {
+		//Switching to the new account
+		if(newAccountID !== undefined) setActiveAccount(newAccountID);
+		setNewAccountID(undefined);
+	}, [newAccountID, setNewAccountID]);
+	
 	if(hasConfig) {
-		return <Messaging resetCallback={reset} />;
+		return (<>
+			<Messaging resetCallback={reset} onAddAccount={addAccount} />
+			{newAccountID !== undefined && <ConnectionConfigDialog isOpen={true} accountID={newAccountID} createDataProxy={createDataProxyTCP} allowTLS discoverServers={discoverServers} onDismiss={dismissNewAccount} onApplyConfig={applyNewAccount} />}
+		</>);
 	} else {
 		return <Onboarding onApplyConfig={applyConfig} />;
 	}
@@ -9,7 +9,10 @@ import iconMac from "shared/resources/icons/tile-mac.svg";
 
 import AirMessageLogo from "shared/components/logo/AirMessageLogo";
 import EthernetIcon from "../../private/icon/EthernetIcon";
-import ConnectionConfigDialog from "./ConnectionConfigDialog";
+import ConnectionConfigDialog from "shared/components/connection/ConnectionConfigDialog";
+import {createDataProxyTCP} from "../../connection/dataProxy";
+import {discoverServers} from "../../connection/discovery";
+import {getActiveAccount} from "shared/util/accountUtils";
 const {shell} = require("electron");
 
 export default function Onboarding(props: {onApplyConfig: VoidFunction}) {
@@ -22,7 +25,7 @@ export default function Onboarding(props: {onApplyConfig: VoidFunction}) {
 	
 	return (
 		<div className={styles.root}>
-			<ConnectionConfigDialog isOpen={showConfigDialog} onDismiss={() => setShowConfigDialog(false)} onApplyConfig={props.onApplyConfig} />
+			<ConnectionConfigDialog isOpen={showConfigDialog} accountID={getActiveAccount().id} createDataProxy={createDataProxyTCP} allowTLS discoverServers={discoverServers} onDismiss={() => setShowConfigDialog(false)} onApplyConfig={props.onApplyConfig} />
 			
 			<div style={{padding: 16}}>
 				<AirMessageLogo />
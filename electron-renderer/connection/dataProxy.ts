@@ -1,9 +1,14 @@
 import DataProxy from "shared/connection/dataProxy";
 import {ConnectionErrorCode} from "shared/data/stateCodes";
 import ByteBuffer from "bytebuffer";
-import {decryptData, encryptData} from "shared/util/encryptionUtils";
+import {decryptData, encryptData, getCryptoKey} from "shared/util/encryptionUtils";
 import {Socket} from "net";
+import {connect as tlsConnect} from "tls";
 import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import {checkCertificateFingerprint} from "shared/util/certificateUtils";
+
+//How long to wait for an address to connect before trying the next address alongside it
+const nextAttemptDelayMillis = 300;
 
 interface AddressData {
 	host: string;
@@ -13,6 +18,7 @@ interface AddressData {
 interface AddressOverride {
 	primary: string;
 	fallback?: string;
+	useTLS: boolean;
 }
 
 //A regex that determines if an address contains a valid port
@@ -21,7 +27,7 @@ const regexPort = /(:([0-9]{1,4}|[1-5][0-9]{4}|6[0-4][0-9]{3}|65[0-4][0-9]{2}|65
 /**
  * Parses a string address to its hostname and port components
  */
-function parseAddress(address: string): AddressData {
+export function parseAddress(address: string): AddressData {
 	if(regexPort.test(address)) {
 		const split = address.split(":");
 		return {host: split[0], port: parseInt(split[1])};
@@ -31,18 +37,29 @@ function parseAddress(address: string): AddressData {
 }
 
 export default class DataProxyTCP extends DataProxy {
-	private socket: Socket;
+	private socket: Socket | undefined;
 	private readonly override: AddressOverride | undefined;
 	private isStopping = false;
+	private connectedAddress: string | undefined;
+	
+	//Sockets that are still connecting, and the timeout for trying the next address
+	private readonly attemptSockets = new Set<Socket>();
+	private nextAttemptTimeoutID: any | undefined;
 	
 	constructor(override?: AddressOverride) {
 		super();
 		
-		this.socket = new Socket();
-		this.socket.setTimeout(10 * 1000);
 		this.override = override;
 	}
 	
+	get isDirect(): boolean {
+		return true;
+	}
+	
+	get activeAddress(): string | undefined {
+		return this.connectedAddress;
+	}
+	
 	//previousEncrypt ensures that all send messages are sent in parallel
 	private previousEncrypt: Promise<any> | undefined;
 	async send(data: ArrayBuffer, encrypt: boolean) {
@@ -50,7 +67,7 @@ export default class DataProxyTCP extends DataProxy {
 			this.previousEncrypt = this.previousEncrypt.then(async () => {
 				//Encrypting the data if necessary
 				if(encrypt) {
-					this.writeSync(await encryptData(data), true);
+					this.writeSync(await encryptData(data, getCryptoKey(this.accountID)!), true);
 				} else {
 					this.writeSync(data, false);
 				}
@@ -58,7 +75,7 @@ export default class DataProxyTCP extends DataProxy {
 		} else {
 			//Encrypting the data if necessary
 			if(encrypt) {
-				this.writeSync(await (this.previousEncrypt = encryptData(data)), true);
+				this.writeSync(await (this.previousEncrypt = encryptData(data, getCryptoKey(this.accountID)!)), true);
 			} else {
 				this.writeSync(data, false);
 			}
@@ -72,55 +89,149 @@ export default class DataProxyTCP extends DataProxy {
 			.writeByte(isEncrypted ? 1 : 0)
 			.append(data);
 		
-		this.socket.write(new Uint8Array(byteBuffer.buffer));
+		this.socket?.write(new Uint8Array(byteBuffer.buffer));
 	}
 	
 	//previousDecrypt ensures that all read messages are decrypted in parallel
 	private previousDecrypt: Promise<any> | undefined;
 	async start(): Promise<void> {
-		//Resetting the isStopping flag
-		this.isStopping = true;
+		//Resetting the state
+		this.isStopping = false;
+		this.socket = undefined;
+		this.connectedAddress = undefined;
 		
 		//Reading address data
-		let addressPrimary: AddressData;
-		let addressSecondary: AddressData | undefined;
+		const addresses: string[] = [];
+		let useTLS: boolean;
 		
 		if(this.override !== undefined) {
-			addressPrimary = parseAddress(this.override.primary);
-			addressSecondary = this.override.fallback ? parseAddress(this.override.fallback) : undefined;
+			addresses.push(this.override.primary);
+			if(this.override.fallback) addresses.push(this.override.fallback);
+			useTLS = this.override.useTLS;
 		} else {
-			const addressPrimaryStr = await getSecureLS(SecureStorageKey.ServerAddress);
-			if(addressPrimaryStr === undefined) {
+			const addressPrimary = await getSecureLS(SecureStorageKey.ServerAddress, this.accountID);
+			if(addressPrimary === undefined) {
 				this.notifyClose(ConnectionErrorCode.Connection);
 				return;
 			}
-			addressPrimary = parseAddress(addressPrimaryStr);
+			addresses.push(addressPrimary);
+			
+			const addressSecondary = await getSecureLS(SecureStorageKey.ServerAddressFallback, this.accountID);
+			if(addressSecondary !== undefined) addresses.push(addressSecondary);
+			
+			useTLS = await getSecureLS(SecureStorageKey.ServerUseTLS, this.accountID) === "true";
+		}
+		
+		this.connect(addresses, useTLS);
+	}
+	
+	/**
+	 * Connects to the first of the addresses to respond
+	 *
+	 * Each address is given a head start before the next one is tried alongside it, so a fallback address
+	 * doesn't have to wait for an unreachable primary address to time out
+	 */
+	private connect(addresses: string[], useTLS: boolean) {
+		let nextIndex = 0;
+		let isCertificateMismatch = false;
+		
+		const startAttempt = () => {
+			clearTimeout(this.nextAttemptTimeoutID);
+			this.nextAttemptTimeoutID = undefined;
 			
-			const addressSecondaryStr = await getSecureLS(SecureStorageKey.ServerAddressFallback);
-			if(addressSecondaryStr !== undefined) {
-				addressSecondary = parseAddress(addressSecondaryStr);
+			const address = addresses[nextIndex++];
+			const socket = this.createSocket(address, useTLS, (isTrusted) => {
+				//Ignoring attempts that were cancelled
+				if(this.isStopping || !this.attemptSockets.has(socket)) return;
+				
+				if(isTrusted) {
+					this.handleOpen(socket, address);
+				} else {
+					isCertificateMismatch = true;
+					socket.destroy();
+				}
+			});
+			this.attemptSockets.add(socket);
+			
+			socket.on("close", () => {
+				//Ignoring attempts that connected or were cancelled in favor of another
+				if(!this.attemptSockets.delete(socket)) return;
+				
+				if(!this.isStopping && nextIndex < addresses.length) {
+					//Trying the next address right away
+					startAttempt();
+				} else if(this.attemptSockets.size === 0) {
+					this.notifyClose(isCertificateMismatch ? ConnectionErrorCode.CertificateMismatch : ConnectionErrorCode.Connection);
+				}
+			});
+			
+			//Trying the next address alongside this one if this one is slow to connect
+			if(nextIndex < addresses.length) {
+				this.nextAttemptTimeoutID = setTimeout(startAttempt, nextAttemptDelayMillis);
 			}
+		};
+		
+		startAttempt();
+	}
+	
+	/**
+	 * Opens a socket to an address
+	 * @param address The address to connect to
+	 * @param useTLS Whether to connect over TLS
+	 * @param onConnect A callback for when the socket connects, with whether the server's certificate is trusted
+	 */
+	private createSocket(address: string, useTLS: boolean, onConnect: (isTrusted: boolean) => void): Socket {
+		const {host, port} = parseAddress(address);
+		
+		let socket: Socket;
+		if(useTLS) {
+			//Servers use self-signed certificates, so the certificate is checked against the one pinned on first connection instead of a certificate authority
+			const tlsSocket = tlsConnect({host: host, port: port, rejectUnauthorized: false});
+			tlsSocket.on("secureConnect", async () => {
+				const fingerprint = tlsSocket.getPeerCertificate().fingerprint256;
+				onConnect(await checkCertificateFingerprint(this.accountID, fingerprint));
+			});
+			socket = tlsSocket;
+		} else {
+			socket = new Socket();
+			socket.on("connect", () => onConnect(true));
+			socket.connect(port, host);
 		}
 		
-		this.socket.connect(addressPrimary.port, addressPrimary.host);
+		//Giving up on addresses that don't respond
+		socket.setTimeout(10 * 1000);
+		socket.on("timeout", () => socket.destroy());
+		
+		//Errors are followed by a close event, which moves on to the next address
+		socket.on("error", console.warn);
+		
+		return socket;
+	}
+	
+	//Uses a socket for this connection, cancelling all other attempts
+	private handleOpen(socket: Socket, address: string) {
+		//Cancelling the other attempts
+		clearTimeout(this.nextAttemptTimeoutID);
+		this.nextAttemptTimeoutID = undefined;
+		this.attemptSockets.delete(socket);
+		for(const attemptSocket of this.attemptSockets) attemptSocket.destroy();
+		this.attemptSockets.clear();
+		
+		//The connection is kept open during periods of inactivity
+		socket.setTimeout(0);
+		
+		this.socket = socket;
+		this.connectedAddress = address;
 		
 		let messageData: {size: number, isEncrypted: boolean} | undefined = undefined;
-		this.socket.on("connect", () => {
-			this.notifyOpen();
+		socket.on("close", () => {
+			this.notifyClose(ConnectionErrorCode.Connection);
 		});
-		this.socket.on("close", () => {
-			//Connect using fallback parameters if we haven't been asked to disconnect
-			if(!this.isStopping && addressSecondary) {
-				this.socket.connect(addressSecondary.port, addressSecondary.host);
-			} else {
-				this.notifyClose(ConnectionErrorCode.Connection);
-			}
-		});
-		this.socket.on("readable", async () => {
+		socket.on("readable", async () => {
 			while(true) {
 				if(messageData === undefined) {
 					//Reading the message data
-					const data: Buffer = this.socket.read(4 + 1);
+					const data: Buffer = socket.read(4 + 1);
 					if(!data) break;
 					
 					//Setting the message data
@@ -129,7 +240,7 @@ export default class DataProxyTCP extends DataProxy {
 					messageData = {size: size, isEncrypted: isEncrypted};
 				} else {
 					//Reading the message contents
-					const data: Buffer = this.socket.read(messageData.size);
+					const data: Buffer = socket.read(messageData.size);
 					if(!data) break;
 					
 					//Submitting the message
@@ -139,7 +250,7 @@ export default class DataProxyTCP extends DataProxy {
 						this.previousDecrypt = this.previousDecrypt.then(async () => {
 							//Decrypting the data if necessary
 							if(isEncrypted) {
-								this.notifyMessage(await decryptData(data), true);
+								this.notifyMessage(await decryptData(data, getCryptoKey(this.accountID)!), true);
 							} else {
 								this.notifyMessage(data, false);
 							}
@@ -147,7 +258,7 @@ export default class DataProxyTCP extends DataProxy {
 					} else {
 						//Decrypting the data if necessary
 						if(messageData.isEncrypted) {
-							this.notifyMessage(await (this.previousDecrypt = decryptData(data)), true);
+							this.notifyMessage(await (this.previousDecrypt = decryptData(data, getCryptoKey(this.accountID)!)), true);
 						} else {
 							this.notifyMessage(data, false);
 						}
@@ -158,13 +269,28 @@ export default class DataProxyTCP extends DataProxy {
 				}
 			}
 		});
+		
+		this.notifyOpen();
 	}
 	
 	stop(): void {
 		//Setting the isStopping flag, so we don't try to create any more connections
 		this.isStopping = true;
 		
+		//Cancelling connection attempts
+		clearTimeout(this.nextAttemptTimeoutID);
+		this.nextAttemptTimeoutID = undefined;
+		for(const attemptSocket of this.attemptSockets) attemptSocket.destroy();
+		
 		//Closing the socket
-		this.socket.end(() => this.socket.destroy());
+		const socket = this.socket;
+		socket?.end(() => socket.destroy());
 	}
+}
+
+/**
+ * Creates a data proxy that connects to the specified addresses, rather than the saved ones
+ */
+export function createDataProxyTCP(address: string, fallbackAddress: string | undefined, useTLS: boolean): DataProxyTCP {
+	return new DataProxyTCP({primary: address, fallback: fallbackAddress, useTLS: useTLS});
 }
\ No newline at end of file
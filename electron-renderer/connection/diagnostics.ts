@@ -0,0 +1,54 @@
+import {DiagnosticTarget} from "shared/connection/diagnostics";
+import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import DataProxyTCP, {parseAddress} from "./dataProxy";
+import {promises as dns} from "dns";
+import {Socket} from "net";
+
+//How long to wait for an address to accept a connection
+const reachabilityTimeoutMillis = 10 * 1000;
+
+/**
+ * Gets the server that an account connects to directly
+ */
+export async function getDiagnosticTarget(accountID: string): Promise<DiagnosticTarget | undefined> {
+	const primaryAddress = await getSecureLS(SecureStorageKey.ServerAddress, accountID);
+	if(primaryAddress === undefined) return undefined;
+	const fallbackAddress = await getSecureLS(SecureStorageKey.ServerAddressFallback, accountID);
+	const useTLS = await getSecureLS(SecureStorageKey.ServerUseTLS, accountID) === "true";
+	
+	return {
+		type: "direct",
+		primaryAddress: primaryAddress,
+		fallbackAddress: fallbackAddress,
+		resolveAddress: resolveAddress,
+		checkReachability: checkReachability,
+		createDataProxy: () => new DataProxyTCP({primary: primaryAddress, fallback: fallbackAddress, useTLS: useTLS})
+	};
+}
+
+async function resolveAddress(address: string): Promise<string[]> {
+	const results = await dns.lookup(parseAddress(address).host, {all: true});
+	return results.map((result) => result.address);
+}
+
+function checkReachability(address: string): Promise<void> {
+	const {host, port} = parseAddress(address);
+	
+	return new Promise((resolve, reject) => {
+		const socket = new Socket();
+		socket.setTimeout(reachabilityTimeoutMillis);
+		socket.once("connect", () => {
+			socket.destroy();
+			resolve();
+		});
+		socket.once("timeout", () => {
+			socket.destroy();
+			reject(new Error(`No response from port ${port}`));
+		});
+		socket.once("error", (error) => {
+			socket.destroy();
+			reject(error);
+		});
+		socket.connect(port, host);
+	});
+}
\ No newline at end of file
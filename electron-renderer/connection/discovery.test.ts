@@ -0,0 +1,146 @@
+import {buildQuery, discoverServers, readServers} from "./discovery";
+import {DiscoveredServer} from "shared/connection/discovery";
+import {createSocket, Socket} from "dgram";
+import {AddressInfo} from "net";
+
+const recordTypeA = 1;
+const recordTypePTR = 12;
+const recordTypeSRV = 33;
+
+const serviceName = encodeName("_airmessage._tcp.local");
+
+function encodeName(name: string): Buffer {
+	return Buffer.concat([...name.split(".").map((label) => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])), Buffer.from([0])]);
+}
+
+function encodeRecord(owner: Buffer, type: number, data: Buffer): Buffer {
+	const header = Buffer.alloc(10);
+	header.writeUInt16BE(type, 0);
+	header.writeUInt16BE(1, 2); //IN
+	header.writeUInt32BE(120, 4); //TTL
+	header.writeUInt16BE(data.length, 8);
+	return Buffer.concat([owner, header, data]);
+}
+
+function encodeService(port: number, target: string): Buffer {
+	const header = Buffer.alloc(6);
+	header.writeUInt16BE(port, 4); //Priority and weight are left at 0
+	return Buffer.concat([header, encodeName(target)]);
+}
+
+/**
+ * Builds a DNS response that echoes the AirMessage service question, so that answers can point back to its name
+ */
+function encodeResponse(answers: Buffer[], additionalRecords: Buffer[]): Buffer {
+	const header = Buffer.alloc(12);
+	header.writeUInt16BE(0x8400, 2); //Authoritative response
+	header.writeUInt16BE(1, 4);
+	header.writeUInt16BE(answers.length, 6);
+	header.writeUInt16BE(additionalRecords.length, 10);
+	return Buffer.concat([header, serviceName, Buffer.from([0, recordTypePTR, 0, 1]), ...answers, ...additionalRecords]);
+}
+
+//A pointer to the service name in the question of a response from encodeResponse
+const serviceNamePointer = Buffer.from([0xC0, 12]);
+
+/**
+ * Builds a response that advertises a server, with its service and address in the additional records like Bonjour sends them
+ */
+function encodeServerResponse(deviceName: string, port: number, address: string | undefined): Buffer {
+	const instanceName = `${deviceName}._airmessage._tcp.local`;
+	const hostName = "office-mac.local";
+	
+	return encodeResponse(
+		[encodeRecord(serviceNamePointer, recordTypePTR, encodeName(instanceName))],
+		[
+			encodeRecord(encodeName(instanceName), recordTypeSRV, encodeService(port, hostName)),
+			...(address !== undefined ? [encodeRecord(encodeName(hostName), recordTypeA, Buffer.from(address.split(".").map(Number)))] : [])
+		]
+	);
+}
+
+/**
+ * Starts a local stand-in for the multicast DNS group, which answers AirMessage service queries with a server
+ */
+function startResponder(response: Buffer): Promise<{socket: Socket, port: number, queries: Buffer[]}> {
+	const socket = createSocket("udp4");
+	const queries: Buffer[] = [];
+	socket.on("message", (message, remoteInfo) => {
+		queries.push(message);
+		socket.send(response, remoteInfo.port, remoteInfo.address);
+	});
+	
+	return new Promise((resolve) => socket.bind(0, "127.0.0.1", () => resolve({socket: socket, port: (socket.address() as AddressInfo).port, queries: queries})));
+}
+
+describe("buildQuery", () => {
+	test("asks for AirMessage services with a unicast response", () => {
+		const query = buildQuery();
+		
+		//Skipping the random ID
+		expect(Array.from(query.subarray(2))).toEqual([
+			0x00, 0x00, //Flags
+			0x00, 0x01, //Questions
+			0x00, 0x00, //Answers
+			0x00, 0x00, //Authority records
+			0x00, 0x00, //Additional records
+			...serviceName,
+			0x00, recordTypePTR,
+			0x80, 0x01 //IN, with the unicast response bit
+		]);
+	});
+});
+
+describe("readServers", () => {
+	test("reads servers on the default port", () => {
+		expect(readServers(encodeServerResponse("Office Mac", 1359, "192.168.1.20"))).toEqual([{name: "Office Mac", address: "192.168.1.20"}]);
+	});
+	
+	test("includes the port if it isn't the default", () => {
+		expect(readServers(encodeServerResponse("Office Mac", 1400, "192.168.1.20"))).toEqual([{name: "Office Mac", address: "192.168.1.20:1400"}]);
+	});
+	
+	test("falls back to the host name without an address record", () => {
+		expect(readServers(encodeServerResponse("Office Mac", 1359, undefined))).toEqual([{name: "Office Mac", address: "office-mac.local"}]);
+	});
+	
+	test("ignores other services", () => {
+		const response = encodeResponse([encodeRecord(encodeName("_http._tcp.local"), recordTypePTR, encodeName("Printer._http._tcp.local"))], []);
+		expect(readServers(response)).toEqual([]);
+	});
+	
+	test("ignores services without a service record", () => {
+		const response = encodeResponse([encodeRecord(serviceNamePointer, recordTypePTR, encodeName("Office Mac._airmessage._tcp.local"))], []);
+		expect(readServers(response)).toEqual([]);
+	});
+	
+	test("rejects truncated responses", () => {
+		const response = encodeServerResponse("Office Mac", 1359, "192.168.1.20");
+		expect(() => readServers(response.subarray(0, response.length - 2))).toThrow(RangeError);
+	});
+	
+	test("rejects names that point to themselves", () => {
+		const response = encodeResponse([encodeRecord(serviceNamePointer, recordTypePTR, Buffer.from([0xC0, 12 + serviceName.length + 4 + 2 + 10]))], []);
+		expect(() => readServers(response)).toThrow(RangeError);
+	});
+});
+
+describe("discoverServers", () => {
+	test("finds servers from a responder", async () => {
+		const responder = await startResponder(encodeServerResponse("Office Mac", 1359, "192.168.1.20"));
+		const abortController = new AbortController();
+		
+		try {
+			const server = await new Promise<DiscoveredServer>((resolve) => {
+				discoverServers(resolve, abortController.signal, {address: "127.0.0.1", port: responder.port});
+			});
+			
+			expect(server).toEqual({name: "Office Mac", address: "192.168.1.20"});
+			expect(responder.queries).toHaveLength(1);
+			expect(Array.from(responder.queries[0].subarray(2))).toEqual(Array.from(buildQuery().subarray(2)));
+		} finally {
+			abortController.abort();
+			responder.socket.close();
+		}
+	});
+});
\ No newline at end of file
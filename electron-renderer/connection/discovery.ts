@@ -0,0 +1,200 @@
+import {DiscoveredServer} from "shared/connection/discovery";
+import {createSocket, RemoteInfo} from "dgram";
+
+//The DNS-SD service type that AirMessage servers advertise themselves with
+//This isn't part of a published AirMessage specification, and released versions of AirMessage Server don't advertise it,
+//so only servers that register it themselves are found, for example with: dns-sd -R "My Mac" _airmessage._tcp local 1359
+const serviceType = "_airmessage._tcp.local";
+
+const defaultPort = 1359;
+
+//The multicast DNS group, which responds to queries from other ports with unicast replies
+const mdnsAddress = "224.0.0.251";
+const mdnsPort = 5353;
+
+//How often to ask the network for servers
+const queryIntervalMillis = 5 * 1000;
+
+//DNS record types
+const recordTypeA = 1;
+const recordTypePTR = 12;
+const recordTypeSRV = 33;
+
+const classIN = 1;
+const classUnicastResponse = 0x8000;
+
+interface ServiceRecord {
+	target: string;
+	port: number;
+}
+
+/**
+ * Where to send discovery queries, which can be pointed at a stand-in responder
+ */
+export interface DiscoveryOptions {
+	address: string;
+	port: number;
+}
+
+/**
+ * Searches the local network for AirMessage servers with multicast DNS service discovery
+ * @param onFound A callback for each server that is found
+ * @param signal A signal to stop searching
+ * @param options The address to send queries to, which defaults to the multicast DNS group
+ */
+export function discoverServers(onFound: (server: DiscoveredServer) => void, signal: AbortSignal, options: DiscoveryOptions = {address: mdnsAddress, port: mdnsPort}) {
+	if(signal.aborted) return;
+	
+	//Keeping track of the servers that have been reported, so they are only reported again if their address changes
+	const reportedAddresses = new Map<string, string>();
+	
+	const socket = createSocket("udp4");
+	socket.on("error", (error) => {
+		console.warn(error);
+		stop();
+	});
+	socket.on("message", (message: Buffer, remoteInfo: RemoteInfo) => {
+		let servers: DiscoveredServer[];
+		try {
+			servers = readServers(message);
+		} catch(error) {
+			console.warn(`Ignoring invalid DNS response from ${remoteInfo.address}`, error);
+			return;
+		}
+		
+		for(const server of servers) {
+			if(reportedAddresses.get(server.name) === server.address) continue;
+			reportedAddresses.set(server.name, server.address);
+			onFound(server);
+		}
+	});
+	
+	const sendQuery = () => socket.send(buildQuery(), options.port, options.address);
+	let intervalID: any | undefined;
+	socket.bind(0, () => {
+		if(signal.aborted) return;
+		
+		sendQuery();
+		intervalID = setInterval(sendQuery, queryIntervalMillis);
+	});
+	
+	const stop = () => {
+		clearInterval(intervalID);
+		signal.removeEventListener("abort", stop);
+		socket.close();
+	};
+	signal.addEventListener("abort", stop);
+}
+
+/**
+ * Builds a DNS query for the AirMessage service
+ */
+export function buildQuery(): Buffer {
+	const name = encodeName(serviceType);
+	const query = Buffer.alloc(12 + name.length + 4);
+	
+	//Header: a random ID for the reply to be matched with, and a single question
+	query.writeUInt16BE(Math.floor(Math.random() * 0xFFFF), 0);
+	query.writeUInt16BE(1, 4);
+	
+	//Question
+	name.copy(query, 12);
+	query.writeUInt16BE(recordTypePTR, 12 + name.length);
+	query.writeUInt16BE(classIN | classUnicastResponse, 12 + name.length + 2);
+	
+	return query;
+}
+
+function encodeName(name: string): Buffer {
+	const labels = name.split(".").map((label) => {
+		const data = Buffer.from(label, "utf8");
+		return Buffer.concat([Buffer.from([data.length]), data]);
+	});
+	return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+/**
+ * Reads a name from a DNS message, following compression pointers
+ * @return The name, and the offset after the name
+ */
+function readName(message: Buffer, offset: number): [string, number] {
+	const labels: string[] = [];
+	let endOffset: number | undefined = undefined;
+	
+	//Limiting the number of pointers that are followed, so a malformed message can't create an infinite loop
+	for(let jumps = 0; jumps < 32;) {
+		const length = message.readUInt8(offset);
+		
+		if(length === 0) {
+			return [labels.join("."), endOffset ?? offset + 1];
+		} else if((length & 0xC0) === 0xC0) {
+			if(endOffset === undefined) endOffset = offset + 2;
+			offset = message.readUInt16BE(offset) & 0x3FFF;
+			jumps++;
+		} else {
+			if(offset + 1 + length > message.length) throw new RangeError("Name extends past the end of the message");
+			labels.push(message.toString("utf8", offset + 1, offset + 1 + length));
+			offset += 1 + length;
+		}
+	}
+	
+	throw new RangeError("Too many name pointers");
+}
+
+/**
+ * Reads the AirMessage servers advertised in a DNS response
+ */
+export function readServers(message: Buffer): DiscoveredServer[] {
+	const questionCount = message.readUInt16BE(4);
+	const recordCount = message.readUInt16BE(6) + message.readUInt16BE(8) + message.readUInt16BE(10);
+	
+	//Skipping over the questions
+	let offset = 12;
+	for(let i = 0; i < questionCount; i++) {
+		offset = readName(message, offset)[1] + 4;
+	}
+	
+	//Collecting the records, which may be spread across the answer and additional sections
+	const instanceNames: string[] = [];
+	const serviceRecords = new Map<string, ServiceRecord>();
+	const hostAddresses = new Map<string, string>();
+	
+	for(let i = 0; i < recordCount; i++) {
+		const [name, dataOffset] = readName(message, offset);
+		const type = message.readUInt16BE(dataOffset);
+		const dataLength = message.readUInt16BE(dataOffset + 8);
+		const dataStart = dataOffset + 10;
+		if(dataStart + dataLength > message.length) throw new RangeError("Record extends past the end of the message");
+		
+		const nameKey = name.toLowerCase();
+		if(type === recordTypePTR && nameKey === serviceType) {
+			instanceNames.push(readName(message, dataStart)[0]);
+		} else if(type === recordTypeSRV) {
+			serviceRecords.set(nameKey, {
+				port: message.readUInt16BE(dataStart + 4),
+				target: readName(message, dataStart + 6)[0]
+			});
+		} else if(type === recordTypeA && dataLength === 4) {
+			hostAddresses.set(nameKey, Array.from(message.subarray(dataStart, dataStart + 4)).join("."));
+		}
+		
+		offset = dataStart + dataLength;
+	}
+	
+	const servers: DiscoveredServer[] = [];
+	for(const instanceName of instanceNames) {
+		const service = serviceRecords.get(instanceName.toLowerCase());
+		if(!service) continue;
+		
+		//Preferring the IP address, since not all systems can resolve .local hostnames
+		const host = hostAddresses.get(service.target.toLowerCase()) ?? service.target;
+		
+		servers.push({
+			//The instance name starts with the server's device name
+			name: instanceName.substring(0, instanceName.length - serviceType.length - 1),
+			address: service.port === defaultPort ? host : `${host}:${service.port}`
+		});
+	}
+	
+	return servers;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Queued messages are only sent while the app is open on desktop, since the app doesn't run in the background
+ */
+export async function requestOutboxSync(accountID: string): Promise<void> {
+	
+}
+
+/**
+ * Queued messages are only sent while the app is open on desktop
+ */
+export async function cancelOutboxSync(accountID: string): Promise<void> {
+	
+}
+
+/**
+ * Nothing is saved for sending messages in the background on desktop
+ */
+export async function deleteOutboxSync(accountID: string): Promise<void> {
+	
+}
\ No newline at end of file
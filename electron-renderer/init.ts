@@ -1,5 +1,10 @@
 import {setPeopleUtils} from "shared/util/peopleUtils";
 import WindowsPeopleUtils from "./private/windowsPeopleUtils";
+import {setAttachmentCache} from "shared/util/attachmentCache";
+import FileAttachmentCache from "./private/fileAttachmentCache";
+
+//Setting the attachment cache
+setAttachmentCache(new FileAttachmentCache());
 
 if(process.platform === "win32") {
 	if(WPEnv.WINRT) {
@@ -0,0 +1,102 @@
+import {AttachmentCache, attachmentCacheSizeLimit} from "shared/util/attachmentCache";
+import {promises as fs} from "fs";
+import path from "path";
+
+const {ipcRenderer} = require("electron");
+
+/**
+ * Stores cached files in the app's data directory, using the file modification time to track when each file was last used
+ *
+ * Each account's files are kept in their own subdirectory
+ */
+export default class FileAttachmentCache extends AttachmentCache {
+	private directoryPromise: Promise<string> | undefined;
+	
+	private getDirectory(): Promise<string> {
+		if(!this.directoryPromise) {
+			this.directoryPromise = ipcRenderer.invoke("getPath", "userData").then(async (userDataPath: string) => {
+				const directory = path.join(userDataPath, "attachments");
+				await fs.mkdir(directory, {recursive: true});
+				return directory;
+			});
+		}
+		
+		return this.directoryPromise!;
+	}
+	
+	private async getAccountDirectory(accountID: string): Promise<string> {
+		return path.join(await this.getDirectory(), encodeURIComponent(accountID));
+	}
+	
+	private async getFilePath(accountID: string, attachmentGUID: string): Promise<string> {
+		return path.join(await this.getAccountDirectory(accountID), encodeURIComponent(attachmentGUID));
+	}
+	
+	async get(accountID: string, attachmentGUID: string): Promise<ArrayBuffer | undefined> {
+		const filePath = await this.getFilePath(accountID, attachmentGUID);
+		
+		let data: Buffer;
+		try {
+			data = await fs.readFile(filePath);
+		} catch(error) {
+			//The file isn't cached
+			return undefined;
+		}
+		
+		//Updating the access time
+		const date = new Date();
+		fs.utimes(filePath, date, date).catch(console.warn);
+		
+		return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+	}
+	
+	async put(accountID: string, attachmentGUID: string, data: ArrayBuffer): Promise<void> {
+		await fs.mkdir(await this.getAccountDirectory(accountID), {recursive: true});
+		await fs.writeFile(await this.getFilePath(accountID, attachmentGUID), new Uint8Array(data));
+		
+		//Evicting the least recently used files across all accounts
+		const directory = await this.getDirectory();
+		const files: {path: string, size: number, lastAccess: number}[] = [];
+		for(const entry of await fs.readdir(directory, {withFileTypes: true})) {
+			const entryPath = path.join(directory, entry.name);
+			
+			//Removing files cached before files were kept by account
+			if(!entry.isDirectory()) {
+				await fs.unlink(entryPath);
+				continue;
+			}
+			
+			for(const fileName of await fs.readdir(entryPath)) {
+				const filePath = path.join(entryPath, fileName);
+				const stats = await fs.stat(filePath);
+				files.push({path: filePath, size: stats.size, lastAccess: stats.mtimeMs});
+			}
+		}
+		files.sort((file1, file2) => file1.lastAccess - file2.lastAccess);
+		
+		let totalSize = files.reduce((total, file) => total + file.size, 0);
+		for(const file of files) {
+			if(totalSize <= attachmentCacheSizeLimit) break;
+			
+			await fs.unlink(file.path);
+			totalSize -= file.size;
+		}
+	}
+	
+	async clear(accountID: string): Promise<void> {
+		const directory = await this.getAccountDirectory(accountID);
+		
+		let fileNames: string[];
+		try {
+			fileNames = await fs.readdir(directory);
+		} catch(error) {
+			//The account has no cached files
+			return;
+		}
+		
+		for(const fileName of fileNames) {
+			await fs.unlink(path.join(directory, fileName));
+		}
+		await fs.rmdir(directory);
+	}
+}
\ No newline at end of file
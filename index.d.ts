@@ -25,4 +25,6 @@ declare const WPEnv: {
 	RELEASE_HASH: string | undefined;
 	BUILD_DATE: number;
 	WINRT: boolean;
+	LOOPBACK: boolean;
+	PROVISIONAL_PROTOCOLS: boolean; //Whether comm5 sub-versions that no released server implements can be used, for builds made with --env provisional
 };
\ No newline at end of file
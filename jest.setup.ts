@@ -0,0 +1,55 @@
+import {webcrypto} from "crypto";
+import {Blob, File} from "buffer";
+
+//Providing the browser APIs that Node only exposes as modules
+if(typeof globalThis.crypto === "undefined") Object.defineProperty(globalThis, "crypto", {value: webcrypto});
+if(typeof globalThis.Blob === "undefined") Object.defineProperty(globalThis, "Blob", {value: Blob});
+if(typeof globalThis.File === "undefined") Object.defineProperty(globalThis, "File", {value: File});
+
+//Browser code reaches some of these through window
+if(typeof globalThis.window === "undefined") Object.defineProperty(globalThis, "window", {value: globalThis});
+
+//Reads blobs the way the browser's FileReader does, for the parts of the app that still use it
+class BlobReader {
+	result: ArrayBuffer | null = null;
+	onload: (() => void) | null = null;
+	onerror: ((error: unknown) => void) | null = null;
+	
+	readAsArrayBuffer(blob: Blob) {
+		blob.arrayBuffer().then((result) => {
+			this.result = result;
+			this.onload?.();
+		}, (error) => this.onerror?.(error));
+	}
+}
+if(typeof globalThis.FileReader === "undefined") Object.defineProperty(globalThis, "FileReader", {value: BlobReader});
+
+//Keeps local storage in memory for the length of a test file
+class MemoryStorage {
+	private readonly items = new Map<string, string>();
+	
+	get length() {
+		return this.items.size;
+	}
+	
+	key(index: number) {
+		return Array.from(this.items.keys())[index] ?? null;
+	}
+	
+	getItem(key: string) {
+		return this.items.get(key) ?? null;
+	}
+	
+	setItem(key: string, value: string) {
+		this.items.set(key, String(value));
+	}
+	
+	removeItem(key: string) {
+		this.items.delete(key);
+	}
+	
+	clear() {
+		this.items.clear();
+	}
+}
+if(typeof globalThis.localStorage === "undefined") Object.defineProperty(globalThis, "localStorage", {value: new MemoryStorage()});
\ No newline at end of file
@@ -0,0 +1,225 @@
+import React, {FormEvent, useCallback, useEffect, useState} from "react";
+import styles from "./ConnectionConfigDialog.module.css";
+import {Button, Card, Checkbox, Dialog, DialogContent, DialogTitle, FormControlLabel, List, ListItem, ListItemIcon, ListItemText, TextField, Typography} from "@material-ui/core";
+import {ConnectionListener, getAccountConnection} from "shared/connection/connectionManager";
+import DataProxy from "shared/connection/dataProxy";
+import {ConnectionErrorCode} from "shared/data/stateCodes";
+import {CheckCircleOutline, CloudOff, Computer} from "@material-ui/icons";
+import {errorCodeToShortDisplay} from "shared/util/languageUtils";
+import {setCryptoPassword} from "shared/util/encryptionUtils";
+import {clearSecureLS, SecureStorageKey, setSecureLS} from "shared/util/secureStorageUtils";
+import {addAccount, getAccount, renameAccount} from "shared/util/accountUtils";
+import {clearCertificateFingerprints} from "shared/util/certificateUtils";
+import DiagnosticsDialog from "./DiagnosticsDialog";
+import {DiscoveredServer, DiscoverServers} from "shared/connection/discovery";
+
+const regexInternetAddress = "^(((www\\.)?[a-zA-Z0-9.\\-_]+(\\.[a-zA-Z]{2,})+)|(\\b(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\b))([a-zA-Z0-9_\\-\\s./?%#&=]*)?(:([0-9]{1,4}|[1-5][0-9]{4}|6[0-4][0-9]{3}|65[0-4][0-9]{2}|655[0-2][0-9]|6553[0-5]?))?$";
+
+function checkAddressError(input: string) {
+	return input.length > 0 && !input.match(regexInternetAddress);
+}
+
+type ConnectionState =
+	{type: "connecting"} |
+	{type: "connected", address?: string} |
+	{type: "disconnected", reason?: ConnectionErrorCode};
+
+/**
+ * Lets the user enter the details of a server, and checks the connection before saving them
+ * @param props.accountID The account to save the details to, which is added to the account list once the details are applied
+ * @param props.createDataProxy Creates a data proxy that connects to the entered addresses
+ * @param props.allowTLS Whether to let the user choose to connect over TLS
+ * @param props.discoverServers Searches the local network for servers, so the user can pick one instead of typing its address
+ * @param props.description Explains what the entered addresses should point to, where this differs from the server itself
+ */
+export default function ConnectionConfigDialog(props: {
+	isOpen: boolean,
+	accountID: string,
+	createDataProxy: (address: string, fallbackAddress: string | undefined, useTLS: boolean) => DataProxy,
+	allowTLS?: boolean,
+	discoverServers?: DiscoverServers,
+	description?: React.ReactNode,
+	onDismiss: VoidFunction,
+	onApplyConfig: VoidFunction
+}) {
+	const accountID = props.accountID;
+	const connection = getAccountConnection(accountID);
+	
+	const [connectionState, setConnectionState] = useState<ConnectionState>({type: "disconnected"});
+	
+	const [address, setAddress] = useState("");
+	const [fallbackAddress, setFallbackAddress] = useState("");
+	const [password, setPassword] = useState("");
+	const [useTLS, setUseTLS] = useState(false);
+	const [showDiagnostics, setShowDiagnostics] = useState(false);
+	const [discoveredServers, setDiscoveredServers] = useState<DiscoveredServer[]>([]);
+	
+	const inputValid = address.match(regexInternetAddress) &&
+		(fallbackAddress.length === 0 || fallbackAddress.match(regexInternetAddress)) &&
+		password.length > 0;
+	
+	const propsCreateDataProxy = props.createDataProxy;
+	const propsAllowTLS = props.allowTLS;
+	const submitForm = useCallback((event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		
+		//Ignoring if the input isn't valid
+		if(!inputValid) return;
+		
+		const addressClean = address;
+		const addressFallbackClean = fallbackAddress.length > 0 ? fallbackAddress : undefined;
+		
+		const useTLSClean = propsAllowTLS === true && useTLS;
+		
+		connection.setDataProxy(propsCreateDataProxy(addressClean, addressFallbackClean, useTLSClean));
+		
+		//Forgetting the previous server, so that the new one isn't reported as a swap
+		connection.clearServerIdentity();
+		
+		connection.setDisableAutomaticReconnections(true);
+		Promise.all([
+			setCryptoPassword(password, accountID),
+			setSecureLS(SecureStorageKey.ServerAddress, addressClean, accountID),
+			setSecureLS(SecureStorageKey.ServerAddressFallback, addressFallbackClean, accountID),
+			setSecureLS(SecureStorageKey.ServerPassword, password, accountID),
+			setSecureLS(SecureStorageKey.ServerUseTLS, useTLSClean ? "true" : undefined, accountID),
+			//Pinning the new server's certificate on the first connection
+			clearCertificateFingerprints(accountID)
+		]).then(() => connection.connect());
+	}, [inputValid, address, fallbackAddress, password, useTLS, propsAllowTLS, connection, accountID, propsCreateDataProxy]);
+	
+	useEffect(() => {
+		//Subscribing to connection updates
+		const listener: ConnectionListener = {
+			onConnecting(): void {
+				setConnectionState({type: "connecting"});
+			},
+			onOpen(): void {
+				setConnectionState({type: "connected", address: connection.getActiveAddress()});
+			},
+			onClose(reason: ConnectionErrorCode): void {
+				setConnectionState({type: "disconnected", reason: reason});
+			}
+		};
+		
+		connection.addConnectionListener(listener);
+		return () => connection.removeConnectionListener(listener);
+	}, [setConnectionState, connection]);
+	
+	const propsIsOpen = props.isOpen;
+	const propsDiscoverServers = props.discoverServers;
+	useEffect(() => {
+		if(!propsIsOpen || !propsDiscoverServers) return;
+		
+		//Searching for servers while the dialog is open
+		setDiscoveredServers([]);
+		const abortController = new AbortController();
+		propsDiscoverServers((server) => {
+			setDiscoveredServers((servers) => [...servers.filter((existingServer) => existingServer.name !== server.name), server]);
+		}, abortController.signal);
+		
+		return () => abortController.abort();
+	}, [propsIsOpen, propsDiscoverServers, setDiscoveredServers]);
+	
+	const propsOnApplyConfig = props.onApplyConfig;
+	const finish = useCallback(() => {
+		connection.setDisableAutomaticReconnections(false);
+		
+		//Naming the account after its server
+		if(getAccount(accountID)) renameAccount(accountID, address);
+		else addAccount(accountID, address);
+		
+		propsOnApplyConfig();
+	}, [propsOnApplyConfig, connection, accountID, address]);
+	
+	const propsOnDismiss = props.onDismiss;
+	const dismiss = useCallback(() => {
+		//Discarding the details of an account that was never added
+		if(!getAccount(accountID)) {
+			connection.close();
+			clearSecureLS(accountID).catch(console.warn);
+		}
+		
+		propsOnDismiss();
+	}, [propsOnDismiss, connection, accountID]);
+	
+	return (
+		<Dialog
+			open={props.isOpen}
+			onClose={dismiss}>
+			<DialogTitle>Manual configuration</DialogTitle>
+			<DialogContent>
+				<form onSubmit={submitForm}>
+					{props.description && <Typography variant="body2" color="textSecondary" gutterBottom>{props.description}</Typography>}
+					{props.discoverServers && (<>
+						<Typography variant="subtitle2" color="textSecondary">Servers on your network</Typography>
+						{discoveredServers.length > 0 ? (
+							<List dense>
+								{discoveredServers.map((server) => (
+									<ListItem key={server.name} button
+											  selected={address === server.address}
+											  disabled={connectionState.type !== "disconnected"}
+											  onClick={() => setAddress(server.address)}>
+										<ListItemIcon><Computer /></ListItemIcon>
+										<ListItemText primary={server.name} secondary={server.address} />
+									</ListItem>
+								))}
+							</List>
+						) : (
+							<Typography variant="body2" color="textSecondary">Searching&hellip;</Typography>
+						)}
+					</>)}
+					<TextField label="Server address" variant="filled" margin="normal" fullWidth
+							   value={address} onChange={event => setAddress(event.target.value)}
+							   disabled={connectionState.type !== "disconnected"}
+							   error={checkAddressError(address)} />
+					<TextField label="Fallback address (optional)" variant="filled" margin="normal" fullWidth
+							   value={fallbackAddress} onChange={event => setFallbackAddress(event.target.value)}
+							   disabled={connectionState.type !== "disconnected"}
+							   error={checkAddressError(fallbackAddress)} />
+					<TextField label="Password" variant="filled" type="password" autoComplete="current-password" margin="normal" fullWidth
+							   value={password} onChange={event => setPassword(event.target.value)}
+							   disabled={connectionState.type !== "disconnected"} />
+					{props.allowTLS && <FormControlLabel
+						label="Use TLS"
+						control={<Checkbox color="primary" checked={useTLS} onChange={event => setUseTLS(event.target.checked)} />}
+						disabled={connectionState.type !== "disconnected"} />}
+					<div className={styles.bottomBar}>
+						{connectionState.type === "connected" ? (<>
+							<ConnectionCard connected={true}>{connectionState.address !== undefined ? `Connected through ${connectionState.address}` : "Connected to server"}</ConnectionCard>
+							
+							<span className={styles.bottomBarSpacer} />
+							
+							<Button style={{marginRight: 16}} className={styles.bottomBarButton} variant="text" color="primary">Back</Button>
+							<Button className={styles.bottomBarButton} variant="contained" color="primary" onClick={finish}>Done</Button>
+						</>) : (<>
+							{connectionState.type === "disconnected" && connectionState.reason !== undefined && (<>
+								<ConnectionCard connected={false}>{errorCodeToShortDisplay(connectionState.reason, true).message}</ConnectionCard>
+								<Button className={styles.bottomBarButton} variant="text" color="primary" onClick={() => setShowDiagnostics(true)}>Diagnose</Button>
+							</>)}
+							
+							<span className={styles.bottomBarSpacer} />
+							
+							<div className={styles.buttonWrapper}>
+								<Button className={styles.bottomBarButton} variant="contained" color="primary" disabled={!inputValid || connectionState.type === "connecting"} type="submit">Check connection</Button>
+							</div>
+						</>)}
+					</div>
+				</form>
+			</DialogContent>
+			
+			<DiagnosticsDialog isOpen={showDiagnostics} accountID={accountID} onDismiss={() => setShowDiagnostics(false)} />
+		</Dialog>
+	);
+}
+
+function ConnectionCard(props: {connected?: boolean, children?: React.ReactNode}) {
+	return (
+		<Card variant="outlined">
+			<div className={`${styles.connectionCard} ${props.connected ? styles.connectionCardOK : ""}`}>
+				{props.connected ? <CheckCircleOutline className={styles.connectionIcon} /> : <CloudOff className={styles.connectionIcon} />}
+				<Typography variant="body1">{props.children}</Typography>
+			</div>
+		</Card>
+	);
+}
\ No newline at end of file
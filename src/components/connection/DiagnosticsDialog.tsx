@@ -0,0 +1,111 @@
+import React, {useCallback, useEffect, useState} from "react";
+import styles from "./DiagnosticsDialog.module.css";
+import {
+	Button,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	List,
+	ListItem,
+	ListItemIcon,
+	ListItemText,
+	Typography
+} from "@material-ui/core";
+import CheckCircleRoundedIcon from "@material-ui/icons/CheckCircleRounded";
+import CancelRoundedIcon from "@material-ui/icons/CancelRounded";
+import RemoveCircleOutlineRoundedIcon from "@material-ui/icons/RemoveCircleOutlineRounded";
+import RadioButtonUncheckedRoundedIcon from "@material-ui/icons/RadioButtonUncheckedRounded";
+import {DiagnosticStatus, DiagnosticStep, formatDiagnosticReport, runDiagnostics} from "shared/connection/diagnostics";
+
+/**
+ * Checks each stage of connecting to a server, and explains what to do about the stages that fail
+ * @param props.accountID The account to check the connection of
+ */
+export default function DiagnosticsDialog(props: {
+	isOpen: boolean,
+	accountID: string,
+	onDismiss: VoidFunction
+}) {
+	const [steps, setSteps] = useState<DiagnosticStep[]>([]);
+	const [isRunning, setIsRunning] = useState(false);
+	const [runCount, setRunCount] = useState(0);
+	const [isCopied, setIsCopied] = useState(false);
+	
+	//Running diagnostics whenever the dialog is opened or the user asks to run them again
+	const accountID = props.accountID;
+	const isOpen = props.isOpen;
+	useEffect(() => {
+		if(!isOpen) return;
+		
+		const abortController = new AbortController();
+		setIsRunning(true);
+		setIsCopied(false);
+		runDiagnostics(accountID, setSteps, abortController.signal)
+			.catch((error) => console.warn("Failed to run diagnostics", error))
+			.finally(() => {
+				if(!abortController.signal.aborted) setIsRunning(false);
+			});
+		
+		return () => abortController.abort();
+	}, [isOpen, accountID, runCount, setSteps, setIsRunning, setIsCopied]);
+	
+	const runAgain = useCallback(() => setRunCount((runCount) => runCount + 1), [setRunCount]);
+	
+	const copyReport = useCallback(() => {
+		navigator.clipboard.writeText(formatDiagnosticReport(steps))
+			.then(() => setIsCopied(true))
+			.catch((error) => console.warn("Failed to copy diagnostics report", error));
+	}, [steps, setIsCopied]);
+	
+	return (
+		<Dialog
+			open={props.isOpen}
+			onClose={props.onDismiss}
+			fullWidth>
+			<DialogTitle>Connection diagnostics</DialogTitle>
+			<DialogContent dividers>
+				<List dense disablePadding>
+					{steps.map((step) => (
+						<ListItem key={step.id} alignItems="flex-start" disableGutters>
+							<ListItemIcon className={styles.icon}><DiagnosticStatusIcon status={step.status} /></ListItemIcon>
+							<ListItemText
+								primary={step.title}
+								secondary={<>
+									{step.result}
+									{step.hint && <Typography component="span" variant="body2" color="textPrimary" display="block">{step.hint}</Typography>}
+								</>} />
+						</ListItem>
+					))}
+				</List>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={copyReport} color="primary" disabled={isRunning}>
+					{isCopied ? "Copied" : "Copy report"}
+				</Button>
+				<Button onClick={runAgain} color="primary" disabled={isRunning}>
+					Run again
+				</Button>
+				<Button onClick={props.onDismiss} color="primary">
+					Close
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function DiagnosticStatusIcon(props: {status: DiagnosticStatus}) {
+	switch(props.status) {
+		case "pending":
+			return <RadioButtonUncheckedRoundedIcon color="disabled" />;
+		case "running":
+			return <CircularProgress size={24} />;
+		case "passed":
+			return <CheckCircleRoundedIcon className={styles.iconPassed} />;
+		case "failed":
+			return <CancelRoundedIcon color="error" />;
+		case "skipped":
+			return <RemoveCircleOutlineRoundedIcon color="disabled" />;
+	}
+}
\ No newline at end of file
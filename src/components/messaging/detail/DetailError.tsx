@@ -1,14 +1,18 @@
-import React, {useCallback, useState} from "react";
+import React, {useCallback, useEffect, useState} from "react";
 import styles from "./DetailError.module.css";
 import {Button, TextField, Typography} from "@material-ui/core";
 import WifiOffRoundedIcon from "@material-ui/icons/WifiOffRounded";
 import LockRoundedIcon from "@material-ui/icons/LockRounded";
+import SecurityRoundedIcon from "@material-ui/icons/SecurityRounded";
 import {ConnectionErrorCode} from "../../../data/stateCodes";
 import {connect} from "../../../connection/connectionManager";
 import firebase from "firebase/app";
 import "firebase/auth";
 import {setCryptoPassword} from "shared/util/encryptionUtils";
 import {SecureStorageKey, setSecureLS} from "shared/util/secureStorageUtils";
+import {getActiveAccount} from "shared/util/accountUtils";
+import {acceptPendingCertificate, getPendingCertificateFingerprint} from "shared/util/certificateUtils";
+import DiagnosticsDialog from "shared/components/connection/DiagnosticsDialog";
 
 interface ErrorDisplay {
 	title: string;
@@ -43,6 +47,8 @@ export default function DetailError(props: {
 			<div className={styles.main}>
 				{props.error === ConnectionErrorCode.Unauthorized ? (
 					<DetailErrorAuth resetCallback={props.resetCallback} />
+				) : props.error === ConnectionErrorCode.CertificateMismatch ? (
+					<DetailErrorCertificate resetCallback={props.resetCallback} />
 				) : (
 					<DetailErrorMessage error={props.error} resetCallback={props.resetCallback} />
 				)}
@@ -56,8 +62,11 @@ function DetailErrorMessage(props: {
 	resetCallback?: VoidFunction | undefined
 }) {
 	const errorDisplay = errorCodeToDisplay(props.error);
+	const [showDiagnostics, setShowDiagnostics] = useState(false);
 	
 	return (<>
+		<DiagnosticsDialog isOpen={showDiagnostics} accountID={getActiveAccount().id} onDismiss={() => setShowDiagnostics(false)} />
+		
 		<WifiOffRoundedIcon className={styles.icon} />
 		<div className={styles.split}>
 			<Typography variant="h4" gutterBottom>{errorDisplay.title}</Typography>
@@ -65,6 +74,7 @@ function DetailErrorMessage(props: {
 			<div className={styles.buttonRow}>
 				{errorDisplay.buttonPrimary && <Button variant="contained" disableElevation onClick={errorDisplay.buttonPrimary.onClick}>{errorDisplay.buttonPrimary.label}</Button>}
 				{errorDisplay.buttonSecondary && <Button onClick={errorDisplay.buttonSecondary.onClick}>{errorDisplay.buttonSecondary.label}</Button>}
+				<Button onClick={() => setShowDiagnostics(true)}>Run diagnostics</Button>
 				
 				{props.resetCallback && (<>
 					<div style={{flexGrow: 1}} />
@@ -84,7 +94,8 @@ function DetailErrorAuth(props: {resetCallback?: VoidFunction | undefined}) {
 		if(password.trim().length === 0) return;
 		
 		setIsLoading(true);
-		Promise.all([setCryptoPassword(password), setSecureLS(SecureStorageKey.ServerPassword, password)]).then(connect);
+		const accountID = getActiveAccount().id;
+		Promise.all([setCryptoPassword(password, accountID), setSecureLS(SecureStorageKey.ServerPassword, password, accountID)]).then(connect);
 	}, [setIsLoading, password]);
 	const onKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
 		//Confirm when enter is pressed
@@ -108,6 +119,32 @@ function DetailErrorAuth(props: {resetCallback?: VoidFunction | undefined}) {
 	</>);
 }
 
+function DetailErrorCertificate(props: {resetCallback?: VoidFunction | undefined}) {
+	const [fingerprint, setFingerprint] = useState<string | undefined>(undefined);
+	useEffect(() => {
+		getPendingCertificateFingerprint(getActiveAccount().id).then(setFingerprint);
+	}, [setFingerprint]);
+	
+	const [isLoading, setIsLoading] = useState(false);
+	const confirm = useCallback(() => {
+		setIsLoading(true);
+		acceptPendingCertificate(getActiveAccount().id).then(connect);
+	}, [setIsLoading]);
+	
+	return (<>
+		<SecurityRoundedIcon className={styles.icon} />
+		<div className={styles.split}>
+			<Typography variant="h4" gutterBottom>Your server certificate has changed</Typography>
+			<Typography color="textSecondary" gutterBottom>The certificate presented by your server does not match the one it used before. If you did not reinstall AirMessage Server or change its certificate, someone may be intercepting your connection.</Typography>
+			{fingerprint && <Typography color="textSecondary" variant="body2" gutterBottom style={{wordBreak: "break-all"}}>New certificate fingerprint (SHA-256): {fingerprint}</Typography>}
+			<div className={`${styles.buttonRow} ${styles.buttonRowReverse}`}>
+				<Button variant="contained" disableElevation onClick={confirm} disabled={fingerprint === undefined || isLoading}>Trust new certificate</Button>
+				{props.resetCallback && <Button onClick={props.resetCallback}>Reconfigure</Button>}
+			</div>
+		</div>
+	</>);
+}
+
 const errorTitleSystems = "An error occurred while connecting";
 
 function errorCodeToDisplay(error: ConnectionErrorCode): ErrorDisplay {
@@ -194,5 +231,11 @@ function errorCodeToDisplay(error: ConnectionErrorCode): ErrorDisplay {
 				subtitle: "Please try connecting again in a few moments",
 				buttonPrimary: buttonActionRetry
 			};
+		case ConnectionErrorCode.CertificateMismatch:
+			return {
+				title: "Your server's certificate has changed",
+				subtitle: "Please check your server's certificate and try again",
+				buttonPrimary: buttonActionRetry
+			};
 	}
 }
\ No newline at end of file
@@ -1,21 +1,73 @@
-import React from "react";
+import React, {useEffect, useState} from "react";
 import styles from "./ConnectionBanner.module.css";
 
 import {Button, Paper, Typography} from "@material-ui/core";
 import WifiOffRoundedIcon from "@material-ui/icons/WifiOffRounded";
+import NetworkCheckRoundedIcon from "@material-ui/icons/NetworkCheckRounded";
 import {ConnectionErrorCode} from "../../../data/stateCodes";
-import {errorCodeToShortDisplay} from "shared/util/languageUtils";
+import {ButtonAction, errorCodeToShortDisplay} from "shared/util/languageUtils";
+import {connect} from "shared/connection/connectionManager";
+import {getLastUpdateStatusTime} from "../../../util/dateUtils";
 
-export default function ConnectionBanner(props: {error: ConnectionErrorCode}) {
+//Round-trip times above this are reported to the user
+export const slowConnectionLatency = 2000;
+
+const buttonActionReconnect: ButtonAction = {
+	label: "Reconnect now",
+	onClick: () => {
+		connect();
+	}
+};
+
+export default function ConnectionBanner(props: {error: ConnectionErrorCode, lastSeen?: Date, reconnectTime?: Date}) {
 	const errorDisplay = errorCodeToShortDisplay(props.error);
+	const reconnectCountdown = useCountdown(props.reconnectTime);
+	const button = errorDisplay.button ?? (props.reconnectTime ? buttonActionReconnect : undefined);
 	
 	return (
-		<Paper variant="outlined" className={errorDisplay.button ? styles.rootButton : styles.rootText}>
+		<Paper variant="outlined" className={button ? styles.rootButton : styles.rootText}>
 			<WifiOffRoundedIcon className={styles.icon} />
 			<div className={styles.stack}>
 				<Typography display="inline">{errorDisplay.message}</Typography>
-				{errorDisplay.button && <Button color="primary" className={styles.button} onClick={errorDisplay.button.onClick}>{errorDisplay.button.label}</Button>}
+				{props.lastSeen && <Typography display="inline" variant="body2" color="textSecondary">Last contact: {getLastUpdateStatusTime(props.lastSeen)}</Typography>}
+				{reconnectCountdown !== undefined && <Typography display="inline" variant="body2" color="textSecondary">{reconnectCountdown > 0 ? `Reconnecting in ${formatCountdown(reconnectCountdown)}` : "Reconnecting…"}</Typography>}
+				{button && <Button color="primary" className={styles.button} onClick={button.onClick}>{button.label}</Button>}
+			</div>
+		</Paper>
+	);
+}
+
+export function SlowConnectionBanner(props: {latency: number}) {
+	return (
+		<Paper variant="outlined" className={styles.rootText}>
+			<NetworkCheckRoundedIcon className={styles.icon} />
+			<div className={styles.stack}>
+				<Typography display="inline">Slow connection</Typography>
+				<Typography display="inline" variant="body2" color="textSecondary">The server took {(props.latency / 1000).toFixed(1)} seconds to respond</Typography>
 			</div>
 		</Paper>
 	);
+}
+
+/**
+ * Gets the number of seconds remaining until the specified time, updating every second
+ */
+function useCountdown(time: Date | undefined): number | undefined {
+	const [now, setNow] = useState(Date.now());
+	
+	useEffect(() => {
+		if(!time) return;
+		
+		setNow(Date.now());
+		const intervalID = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(intervalID);
+	}, [time]);
+	
+	if(!time) return undefined;
+	return Math.max(Math.ceil((time.getTime() - now) / 1000), 0);
+}
+
+function formatCountdown(seconds: number): string {
+	if(seconds < 60) return `${seconds}s`;
+	else return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
 }
\ No newline at end of file
@@ -6,9 +6,21 @@ import styles from "./Messaging.module.css";
 import Sidebar from "../master/Sidebar";
 import DetailThread from "../thread/DetailThread";
 import DetailWelcome from "../detail/DetailWelcome";
+import ServerSwapDialog from "./ServerSwapDialog";
 
 import * as ConnectionManager from "../../../connection/connectionManager";
-import {ConnectionListener, messageUpdateEmitter, modifierUpdateEmitter} from "../../../connection/connectionManager";
+import {
+	BackgroundMessageUpdate,
+	backgroundMessageUpdateEmitter,
+	ConnectionHealth,
+	connectionHealthEmitter,
+	ConnectionListener,
+	getAccountConnection,
+	messageUpdateEmitter,
+	modifierUpdateEmitter,
+	ServerSwap,
+	serverSwapEmitter
+} from "../../../connection/connectionManager";
 import {initializePeople} from "../../../util/peopleUtils";
 import {ConnectionErrorCode, MessageError, ParticipantActionType} from "../../../data/stateCodes";
 import {Conversation, ConversationItem, MessageItem, MessageModifier} from "../../../data/blocks";
@@ -24,12 +36,19 @@ import DetailCreate from "../create/DetailCreate";
 import DetailLoading from "../detail/DetailLoading";
 import DetailError from "../detail/DetailError";
 import SnackbarProvider from "../../control/SnackbarProvider";
-import {initializeNotifications, notificationClickEmitter, sendMessageNotification} from "../../../util/notifyUtils";
+import {
+	initializeNotifications,
+	notificationClickEmitter,
+	NotificationTarget,
+	sendMessageNotification
+} from "../../../util/notifyUtils";
 import {playSoundMessageIn, playSoundNotification, playSoundTapback} from "../../../util/soundUtils";
+import {activeAccountEmitter, getActiveAccount, setActiveAccount} from "../../../util/accountUtils";
 
 interface Props {
 	theme: Theme;
 	resetCallback?: VoidFunction | undefined;
+	onAddAccount?: VoidFunction | undefined;
 }
 
 interface State {
@@ -37,6 +56,9 @@ interface State {
 	conversationsAvailable: boolean;
 	detailPane: DetailPane;
 	sidebarBanner?: ConnectionErrorCode | "connecting";
+	connectionHealth?: ConnectionHealth;
+	reconnectTime?: Date;
+	serverSwap?: ServerSwap; //The last server swap that the user hasn't acknowledged
 }
 
 enum DetailType {
@@ -78,20 +100,45 @@ class Messaging extends React.Component<Props, State> {
 		},
 		onOpen: () => {
 			//Requesting conversation details
-			if(!this.state.conversationsAvailable) {
+			if(!this.conversationsSynced) {
+				const accountID = getActiveAccount().id;
 				ConnectionManager.fetchConversations().then(data => {
-					if(data.length > 0) {
-						this.setState({
-							conversations: data,
-							conversationsAvailable: true,
-							detailPane: {type: DetailType.Thread, conversationGUID: data[0].guid}
+					//Ignoring if the user has switched to another account
+					if(getActiveAccount().id !== accountID) return;
+					
+					this.conversationsSynced = true;
+					
+					//Selecting the conversation from a notification that switched accounts
+					const pendingSelection = this.pendingSelection;
+					this.pendingSelection = undefined;
+					
+					this.setState((prevState) => {
+						//Keeping the current selection if it is still available
+						const detailPane = prevState.detailPane;
+						let nextDetailPane: DetailPane;
+						if(pendingSelection !== undefined && data.some(conversation => conversation.guid === pendingSelection)) {
+							nextDetailPane = {type: DetailType.Thread, conversationGUID: pendingSelection};
+						} else if(detailPane.type === DetailType.Create || (detailPane.type === DetailType.Thread && data.some(conversation => conversation.guid === detailPane.conversationGUID))) {
+							nextDetailPane = detailPane;
+						} else if(data.length > 0) {
+							nextDetailPane = {type: DetailType.Thread, conversationGUID: data[0].guid};
+						} else {
+							nextDetailPane = {type: DetailType.Welcome};
+						}
+						
+						//Preserving the unread status of conversations loaded from the cache
+						const conversations = data.map((conversation): Conversation => {
+							const existingConversation = prevState.conversations.find(item => item.guid === conversation.guid);
+							return existingConversation?.unreadMessages ? {...conversation, unreadMessages: true} : conversation;
 						});
-					} else {
-						this.setState({
+						
+						return {
+							conversations: conversations,
 							conversationsAvailable: true,
-							detailPane: {type: DetailType.Welcome}
-						});
-					}
+							detailPane: nextDetailPane,
+							sidebarBanner: undefined
+						};
+					});
 				}).catch((reason: MessageError) => {
 					console.error("Failed to fetch conversations", reason);
 					ConnectionManager.disconnect();
@@ -113,12 +160,20 @@ class Messaging extends React.Component<Props, State> {
 				});
 			} else {
 				//Displaying an error in the sidebar
-				this.setState({sidebarBanner: error});
+				this.setState({
+					sidebarBanner: error,
+					connectionHealth: ConnectionManager.getConnectionHealth(),
+					reconnectTime: ConnectionManager.getReconnectTime()
+				});
 			}
 		}
 	};
+	//Whether conversations have been loaded from the server, rather than from the local cache
+	private conversationsSynced = false;
 	//Used to hold loose messages received from message updates until their conversation information is received, so it can be applied
 	private readonly pendingConversationDataMap: Map<string, PendingConversationData> = new Map();
+	//The conversation to select once the active account's conversations are loaded
+	private pendingSelection: string | undefined = undefined;
 	
 	state: Readonly<State> = {
 		conversations: [],
@@ -154,6 +209,8 @@ class Messaging extends React.Component<Props, State> {
 		
 		return (
 			<SnackbarProvider>
+				<ServerSwapDialog swap={this.state.serverSwap} onDismiss={this.dismissServerSwap} />
+				
 				<div className={styles.split}>
 					<div className={styles.splitDetail} style={{backgroundColor: sidebarBG}}>
 						<Sidebar
@@ -161,7 +218,10 @@ class Messaging extends React.Component<Props, State> {
 							selectedConversation={detailPane.type === DetailType.Thread ? detailPane.conversationGUID : undefined}
 							onConversationSelected={this.onConversationSelected}
 							onCreateSelected={this.onCreateSelected}
-							errorBanner={(typeof this.state.sidebarBanner === "number") ? this.state.sidebarBanner : undefined} />
+							errorBanner={(typeof this.state.sidebarBanner === "number") ? this.state.sidebarBanner : undefined}
+							connectionHealth={this.state.connectionHealth}
+							reconnectTime={this.state.reconnectTime}
+							onAddAccount={this.props.onAddAccount} />
 					</div>
 					
 					<SoftDivider vertical />
@@ -172,6 +232,18 @@ class Messaging extends React.Component<Props, State> {
 		);
 	}
 	
+	private readonly onConnectionHealthUpdate = (connectionHealth: ConnectionHealth): void => {
+		this.setState({connectionHealth: connectionHealth});
+	};
+	
+	private readonly onServerSwap = (swap: ServerSwap): void => {
+		this.setState({serverSwap: swap});
+	};
+	
+	private readonly dismissServerSwap = (): void => {
+		this.setState({serverSwap: undefined});
+	};
+	
 	private readonly onConversationSelected = (conversationID: string): void => {
 		this.setState((prevState) => {
 			//Finding the existing conversation
@@ -217,16 +289,77 @@ class Messaging extends React.Component<Props, State> {
 		});
 	};
 	
+	private readonly onNotificationClick = (target: NotificationTarget): void => {
+		if(target.accountID === getActiveAccount().id) {
+			this.onConversationSelected(target.chatGUID);
+		} else {
+			//Switching to the notification's account, and selecting the conversation once it loads
+			setActiveAccount(target.accountID);
+			this.pendingSelection = target.chatGUID;
+		}
+	};
+	
+	private readonly onActiveAccountUpdate = (): void => {
+		//Discarding the previous account's conversations
+		this.conversationsSynced = false;
+		this.pendingConversationDataMap.clear();
+		this.pendingSelection = undefined;
+		
+		this.setState({
+			conversations: [],
+			conversationsAvailable: false,
+			detailPane: {type: DetailType.Loading},
+			sidebarBanner: undefined,
+			connectionHealth: undefined,
+			reconnectTime: undefined
+		}, this.loadActiveAccount);
+	};
+	
 	componentDidMount() {
 		//Subscribing to message updates
 		messageUpdateEmitter.registerListener(this.onMessageUpdate);
+		backgroundMessageUpdateEmitter.registerListener(this.onBackgroundMessageUpdate);
 		
 		//Registering the connection listener
 		ConnectionManager.addConnectionListener(this.connectionListener);
 		modifierUpdateEmitter.registerListener(this.onModifierUpdate);
+		connectionHealthEmitter.registerListener(this.onConnectionHealthUpdate);
+		serverSwapEmitter.registerListener(this.onServerSwap);
 		
 		//Registering the notification selection listener
-		notificationClickEmitter.registerListener(this.onConversationSelected);
+		notificationClickEmitter.registerListener(this.onNotificationClick);
+		
+		//Registering the account switch listener
+		activeAccountEmitter.registerListener(this.onActiveAccountUpdate);
+		
+		//Loading the active account, and receiving messages from the others in the background
+		this.loadActiveAccount();
+		ConnectionManager.connectBackgroundAccounts();
+		
+		//Loading people
+		initializePeople();
+		
+		//Initializing notifications
+		initializeNotifications();
+	}
+	
+	private readonly loadActiveAccount = (): void => {
+		//Displaying cached conversations while the server loads
+		const accountID = getActiveAccount().id;
+		ConnectionManager.fetchCachedConversations().then((conversations) => {
+			if(getActiveAccount().id !== accountID || this.state.conversationsAvailable || conversations.length === 0) return;
+			
+			//Selecting the conversation from a notification that switched accounts, if it has been saved
+			const pendingSelection = this.pendingSelection;
+			const selectedGUID = pendingSelection !== undefined && conversations.some(conversation => conversation.guid === pendingSelection) ? pendingSelection : conversations[0].guid;
+			
+			this.setState((prevState) => ({
+				conversations: conversations,
+				conversationsAvailable: true,
+				detailPane: {type: DetailType.Thread, conversationGUID: selectedGUID},
+				sidebarBanner: prevState.detailPane.type === DetailType.Error ? prevState.detailPane.errorCode : "connecting"
+			}));
+		}).catch((error) => console.warn("Failed to load cached conversations", error));
 		
 		//Connecting
 		if(ConnectionManager.isDisconnected()) {
@@ -238,13 +371,7 @@ class Messaging extends React.Component<Props, State> {
 				this.connectionListener.onConnecting();
 			}
 		}
-		
-		//Loading people
-		initializePeople();
-		
-		//Initializing notifications
-		initializeNotifications();
-	}
+	};
 	
 	componentWillUnmount() {
 		//Unregistering the connection listener
@@ -252,13 +379,19 @@ class Messaging extends React.Component<Props, State> {
 		
 		//Unsubscribing from message updates
 		messageUpdateEmitter.unregisterListener(this.onMessageUpdate);
+		backgroundMessageUpdateEmitter.unregisterListener(this.onBackgroundMessageUpdate);
 		modifierUpdateEmitter.unregisterListener(this.onModifierUpdate);
+		connectionHealthEmitter.unregisterListener(this.onConnectionHealthUpdate);
+		serverSwapEmitter.unregisterListener(this.onServerSwap);
 		
 		//Unregistering the notification selection listener
-		notificationClickEmitter.unregisterListener(this.onConversationSelected);
+		notificationClickEmitter.unregisterListener(this.onNotificationClick);
+		
+		//Unregistering the account switch listener
+		activeAccountEmitter.unregisterListener(this.onActiveAccountUpdate);
 		
 		//Disconnecting
-		ConnectionManager.disconnect();
+		ConnectionManager.disconnectAll();
 	}
 	
 	private readonly onMessageUpdate = (itemArray: ConversationItem[]): void => {
@@ -364,7 +497,7 @@ class Messaging extends React.Component<Props, State> {
 							
 							//Sending a notification
 							if(document.hidden && data.notifyMessage) {
-								sendMessageNotification(conversation, data.notifyMessage, data.notificationCount);
+								sendMessageNotification(getActiveAccount().id, conversation, data.notifyMessage, data.notificationCount);
 								notificationSent = true;
 							}
 						}
@@ -477,7 +610,7 @@ class Messaging extends React.Component<Props, State> {
 						if(!conversation) continue;
 						
 						//Sending a notification
-						sendMessageNotification(conversation, message, messageCount);
+						sendMessageNotification(getActiveAccount().id, conversation, message, messageCount);
 					}
 				}
 			} else {
@@ -486,6 +619,54 @@ class Messaging extends React.Component<Props, State> {
 		}
 	};
 	
+	private readonly onBackgroundMessageUpdate = async ({accountID, items}: BackgroundMessageUpdate): Promise<void> => {
+		//Finding the latest incoming message per chat
+		const topItems = new Map<string, [MessageItem, number]>();
+		for(const item of items) {
+			if(!isConversationItemMessage(item) || item.sender === undefined) continue;
+			
+			const entry = topItems.get(item.chatGuid);
+			if(entry) {
+				if(item.date > entry[0].date) entry[0] = item;
+				entry[1]++;
+			} else {
+				topItems.set(item.chatGuid, [item, 1]);
+			}
+		}
+		if(topItems.size === 0) return;
+		
+		//Finding the conversations from the account's saved conversations, or from its server
+		const connection = getAccountConnection(accountID);
+		const conversations = new Map<string, Conversation>();
+		try {
+			for(const conversation of await connection.fetchCachedConversations()) {
+				if(topItems.has(conversation.guid)) conversations.set(conversation.guid, conversation);
+			}
+			
+			const missingChatGUIDs = Array.from(topItems.keys()).filter((chatGUID) => !conversations.has(chatGUID));
+			if(missingChatGUIDs.length > 0) {
+				for(const [chatGUID, conversation] of await connection.fetchConversationInfo(missingChatGUIDs)) {
+					if(conversation) conversations.set(chatGUID, conversation);
+				}
+			}
+		} catch(error) {
+			console.warn("Failed to load conversations for a notification", error);
+		}
+		
+		//Sending notifications
+		let notificationSent = false;
+		for(const [chatGUID, [message, messageCount]] of topItems.entries()) {
+			const conversation = conversations.get(chatGUID);
+			if(!conversation) continue;
+			
+			sendMessageNotification(accountID, conversation, message, messageCount);
+			notificationSent = true;
+		}
+		
+		//Playing a notification sound
+		if(notificationSent) playSoundNotification();
+	};
+	
 	private readonly onModifierUpdate = (itemArray: MessageModifier[]): void => {
 		//Playing a tapback sound
 		if(itemArray.some((modifier) => isModifierTapback(modifier) && modifier.isAddition)) {
@@ -0,0 +1,45 @@
+import React from "react";
+import {Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle} from "@material-ui/core";
+import {getAccountConnection, ServerSwap} from "../../../connection/connectionManager";
+import {getAccount} from "../../../util/accountUtils";
+
+/**
+ * Warns the user that a direct connection has reached a different computer than the one it connected to before
+ *
+ * Queued messages aren't sent until the user chooses to continue with the new computer
+ */
+export default function ServerSwapDialog(props: {swap: ServerSwap | undefined, onDismiss: () => void}) {
+	const swap = props.swap;
+	
+	function onDisconnect() {
+		if(swap) getAccountConnection(swap.accountID).disconnect();
+		props.onDismiss();
+	}
+	
+	function onContinue() {
+		if(swap) getAccountConnection(swap.accountID).acceptServerSwap();
+		props.onDismiss();
+	}
+	
+	//The dialog can only be closed with one of its buttons, so that the user makes a choice
+	return (
+		<Dialog
+			open={swap !== undefined}>
+			<DialogTitle>Connected to a different computer</DialogTitle>
+			<DialogContent>
+				{swap && <DialogContentText>
+					{getAccount(swap.accountID)?.name ?? "This account"} was previously connected to {swap.previous.deviceName}, but is now connected to {swap.current.deviceName}.
+					If you didn&apos;t move AirMessage Server to another computer, someone else may be using your server address.
+				</DialogContentText>}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onDisconnect} color="primary">
+					Disconnect
+				</Button>
+				<Button onClick={onContinue} color="primary" autoFocus>
+					Continue
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
\ No newline at end of file
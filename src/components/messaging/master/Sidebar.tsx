@@ -12,13 +12,18 @@ import {
 	DialogContent,
 	DialogContentText,
 	DialogTitle,
+	Divider,
 	IconButton,
+	ListItemIcon,
 	Menu,
 	MenuItem,
 	Toolbar,
+	Tooltip,
 	Typography
 } from "@material-ui/core";
 import AddRoundedIcon from "@material-ui/icons/AddRounded";
+import AccountCircleRoundedIcon from "@material-ui/icons/AccountCircleRounded";
+import CheckRoundedIcon from "@material-ui/icons/CheckRounded";
 import MoreVertRoundedIcon from "@material-ui/icons/MoreVertRounded";
 
 import ListConversation from "./ListConversation";
@@ -26,16 +31,35 @@ import List from "@material-ui/core/List";
 import {Conversation} from "../../../data/blocks";
 import {Flipped, Flipper} from "react-flip-toolkit";
 import {Skeleton} from "@material-ui/lab";
-import ConnectionBanner from "./ConnectionBanner";
+import ConnectionBanner, {SlowConnectionBanner, slowConnectionLatency} from "./ConnectionBanner";
 import {ConnectionErrorCode} from "../../../data/stateCodes";
 import {communityPage, supportEmail} from "../../../data/linkConstants";
 import {appVersion, getFormattedBuildDate, releaseHash} from "../../../data/releaseInfo";
 import {
+	ConnectionHealth,
+	deleteAccount,
+	getActiveAddress,
 	getActiveCommVer,
+	getServerIdentity,
 	getServerSoftwareVersion,
 	getServerSystemVersion,
+	isPacketCaptureActive,
+	replayPacketCapture,
+	startPacketCapture,
+	stopPacketCapture,
 	targetCommVer
 } from "../../../connection/connectionManager";
+import {parsePacketCapture} from "../../../connection/capture/packetCapture";
+import {runPacketBenchmark} from "../../../connection/worker/packetBenchmark";
+import {downloadBlob} from "../../../util/browserUtils";
+import {
+	Account,
+	accountsEmitter,
+	activeAccountEmitter,
+	getAccounts,
+	getActiveAccount,
+	setActiveAccount
+} from "../../../util/accountUtils";
 import Markdown from "../../Markdown";
 import changelog from "../../../resources/text/changelog.md";
 
@@ -45,24 +69,79 @@ interface Props {
 	onConversationSelected: (guid: string) => void;
 	onCreateSelected: () => void;
 	errorBanner?: ConnectionErrorCode;
+	connectionHealth?: ConnectionHealth;
+	reconnectTime?: Date;
+	onAddAccount?: VoidFunction; //Only provided on platforms where the user can set up more servers
 }
 
 interface State {
+	accounts: Account[];
+	activeAccount: Account;
+	accountMenuElement: HTMLElement | null;
 	overflowMenuElement: HTMLElement | null;
 	showChangelogDialog: boolean;
 	showFeedbackDialog: boolean;
+	showServerInfoDialog: boolean;
 	showLogOutDialog: boolean;
 }
 
 export default class Sidebar extends React.Component<Props, State> {
-	state = {
+	state: State = {
+		accounts: getAccounts(),
+		activeAccount: getActiveAccount(),
+		accountMenuElement: null,
 		overflowMenuElement: null,
 		showChangelogDialog: false,
 		showFeedbackDialog: false,
+		showServerInfoDialog: false,
 		showLogOutDialog: false
 	};
 	
 	intervalID: any;
+	private readonly replayInputRef = React.createRef<HTMLInputElement>();
+	
+	private readonly handleAccountsUpdate = (accounts: Account[]) => {
+		this.setState({accounts: accounts});
+	};
+	
+	private readonly handleActiveAccountUpdate = (account: Account) => {
+		this.setState({activeAccount: account});
+	};
+	
+	private readonly handleAccountMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
+		this.setState({
+			accountMenuElement: event.currentTarget
+		});
+	};
+	
+	private readonly handleAccountMenuClose = () => {
+		this.setState({
+			accountMenuElement: null
+		});
+	};
+	
+	private readonly handleAccountSelected = (accountID: string) => {
+		//Closing the menu
+		this.handleAccountMenuClose();
+		
+		//Switching to the account
+		setActiveAccount(accountID);
+	};
+	
+	private readonly handleAddAccount = () => {
+		//Closing the menu
+		this.handleAccountMenuClose();
+		
+		this.props.onAddAccount?.();
+	};
+	
+	private readonly handleRemoveAccount = () => {
+		//Closing the menu
+		this.handleAccountMenuClose();
+		
+		//Removing the active account, which switches to the next account
+		deleteAccount(this.state.activeAccount.id).catch(console.warn);
+	};
 	
 	private readonly handleOverflowOpen = (event: React.MouseEvent<HTMLElement>) => {
 		this.setState({
@@ -100,6 +179,61 @@ export default class Sidebar extends React.Component<Props, State> {
 		this.setState({showFeedbackDialog: false});
 	};
 	
+	private readonly handleOverflowServerInfo = () => {
+		//Closing the menu
+		this.handleOverflowClose();
+		
+		//Showing the server info dialog
+		this.setState({showServerInfoDialog: true});
+	};
+	
+	private readonly dismissOverflowServerInfo = () => {
+		this.setState({showServerInfoDialog: false});
+	};
+	
+	private readonly handleOverflowPacketCapture = () => {
+		//Closing the menu
+		this.handleOverflowClose();
+		
+		//Saving the capture if one is in progress, otherwise starting a new one
+		const capture = stopPacketCapture();
+		if(capture) {
+			downloadBlob(new Blob([JSON.stringify(capture)], {type: "application/json"}), "application/json", `airmessage-capture-${capture.startDate.replace(/[:.]/g, "-")}.json`);
+		} else {
+			startPacketCapture();
+		}
+	};
+	
+	private readonly handleOverflowReplay = () => {
+		//Closing the menu
+		this.handleOverflowClose();
+		
+		//Asking the user for a capture file
+		this.replayInputRef.current?.click();
+	};
+	
+	private readonly handleReplayFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if(!file) return;
+		
+		try {
+			replayPacketCapture(parsePacketCapture(await file.text()));
+		} catch(error) {
+			console.warn("Failed to load packet capture", error);
+		}
+	};
+	
+	private readonly handleOverflowBenchmark = () => {
+		//Closing the menu
+		this.handleOverflowClose();
+		
+		//Logging the results to the console
+		runPacketBenchmark()
+			.then((results) => console.table(results))
+			.catch((error) => console.warn("Failed to run packet benchmark", error));
+	};
+	
 	private readonly handleOverflowLogOut = () => {
 		//Closing the menu
 		this.handleOverflowClose();
@@ -121,15 +255,29 @@ export default class Sidebar extends React.Component<Props, State> {
 	};
 	
 	render() {
+		//Only showing the account switcher if there is more than one account, or another one can be added
+		const showAccounts = this.state.accounts.length > 1 || this.props.onAddAccount !== undefined;
+		
 		return (
 			<div className={styles.sidebar}>
 				<ChangelogDialog isOpen={this.state.showChangelogDialog} onDismiss={this.dismissOverflowChangelog} />
 				<FeedbackDialog isOpen={this.state.showFeedbackDialog} onDismiss={this.dismissOverflowFeedback} />
+				<ServerInfoDialog isOpen={this.state.showServerInfoDialog} onDismiss={this.dismissOverflowServerInfo} />
 				<SignOutDialog isOpen={this.state.showLogOutDialog} onDismiss={this.dismissLogOut} />
 				
 				<Toolbar className={styles.sidebarToolbar}>
 					<AirMessageLogo />
 					<div style={{flexGrow: 1}} />
+					{showAccounts && (
+						<Tooltip title={this.state.activeAccount.name}>
+							<IconButton
+								aria-haspopup="true"
+								color="inherit"
+								onClick={this.handleAccountMenuOpen}>
+								<AccountCircleRoundedIcon />
+							</IconButton>
+						</Tooltip>
+					)}
 					<IconButton
 						color="inherit"
 						onClick={this.props.onCreateSelected}
@@ -144,6 +292,29 @@ export default class Sidebar extends React.Component<Props, State> {
 						<MoreVertRoundedIcon />
 					</IconButton>
 					
+					<Menu
+						anchorEl={this.state.accountMenuElement}
+						anchorOrigin={{
+							vertical: "top",
+							horizontal: "right",
+						}}
+						transformOrigin={{
+							vertical: "top",
+							horizontal: "right",
+						}}
+						open={Boolean(this.state.accountMenuElement)}
+						onClose={this.handleAccountMenuClose}>
+						{this.state.accounts.map((account) => (
+							<MenuItem key={account.id} onClick={() => this.handleAccountSelected(account.id)}>
+								<ListItemIcon>{account.id === this.state.activeAccount.id && <CheckRoundedIcon />}</ListItemIcon>
+								{account.name}
+							</MenuItem>
+						))}
+						<Divider />
+						{this.props.onAddAccount && <MenuItem onClick={this.handleAddAccount}>Add account</MenuItem>}
+						{this.state.accounts.length > 1 && <MenuItem onClick={this.handleRemoveAccount}>Remove {this.state.activeAccount.name}</MenuItem>}
+					</Menu>
+					
 					<Menu
 						anchorEl={this.state.overflowMenuElement}
 						anchorOrigin={{
@@ -160,11 +331,17 @@ export default class Sidebar extends React.Component<Props, State> {
 						{/*<MenuItem onClick={this.handleOverflowClose}>Settings</MenuItem>*/}
 						<MenuItem onClick={this.handleOverflowChangelog}>What&apos;s new</MenuItem>
 						<MenuItem onClick={this.handleOverflowFeedback}>Help and feedback</MenuItem>
+						<MenuItem onClick={this.handleOverflowServerInfo}>Server info</MenuItem>
+						{WPEnv.ENVIRONMENT === "development" && <MenuItem onClick={this.handleOverflowPacketCapture}>{isPacketCaptureActive() ? "Save packet capture" : "Record packet capture"}</MenuItem>}
+						{WPEnv.ENVIRONMENT === "development" && <MenuItem onClick={this.handleOverflowReplay}>Replay packet capture</MenuItem>}
+						{WPEnv.ENVIRONMENT === "development" && <MenuItem onClick={this.handleOverflowBenchmark}>Run packet benchmark</MenuItem>}
 						<MenuItem onClick={this.handleOverflowLogOut}>Sign out</MenuItem>
 					</Menu>
+					<input ref={this.replayInputRef} type="file" accept="application/json" hidden onChange={this.handleReplayFileSelected} />
 				</Toolbar>
 				
-				{this.props.errorBanner !== undefined && <ConnectionBanner error={this.props.errorBanner} /> }
+				{this.props.errorBanner !== undefined && <ConnectionBanner error={this.props.errorBanner} lastSeen={this.props.connectionHealth?.lastSeen} reconnectTime={this.props.reconnectTime} /> }
+				{this.props.errorBanner === undefined && this.props.connectionHealth?.latency !== undefined && this.props.connectionHealth.latency > slowConnectionLatency && <SlowConnectionBanner latency={this.props.connectionHealth.latency} />}
 				
 				{
 					this.props.conversations ? <Flipper flipKey={this.props.conversations.map(conversation => conversation.guid).join(" ")} className={styles.sidebarList}>
@@ -185,10 +362,18 @@ export default class Sidebar extends React.Component<Props, State> {
 	
 	componentDidMount() {
 		this.intervalID = setInterval(() => this.setState({}), 60 * 1000);
+		
+		//Subscribing to account updates
+		accountsEmitter.registerListener(this.handleAccountsUpdate);
+		activeAccountEmitter.registerListener(this.handleActiveAccountUpdate);
 	}
 	
 	componentWillUnmount() {
 		clearInterval(this.intervalID);
+		
+		//Unsubscribing from account updates
+		accountsEmitter.unregisterListener(this.handleAccountsUpdate);
+		activeAccountEmitter.unregisterListener(this.handleActiveAccountUpdate);
 	}
 }
 
@@ -255,6 +440,46 @@ function FeedbackDialog(props: {isOpen: boolean, onDismiss: () => void}) {
 	);
 }
 
+function ServerInfoDialog(props: {isOpen: boolean, onDismiss: () => void}) {
+	const identity = getServerIdentity();
+	const activeAddress = getActiveAddress();
+	
+	return (
+		<Dialog
+			open={props.isOpen}
+			onClose={props.onDismiss}
+			fullWidth>
+			<DialogTitle>Server info</DialogTitle>
+			<DialogContent>
+				{identity ? (<>
+					<ServerInfoRow label="Device name" value={identity.deviceName} />
+					<ServerInfoRow label="macOS version" value={identity.systemVersion} />
+					<ServerInfoRow label="Server version" value={identity.softwareVersion} />
+					<ServerInfoRow label="Communications version" value={identity.communicationsVersion ?? "Unknown"} />
+					<ServerInfoRow label="Installation ID" value={identity.installationID} />
+					{activeAddress !== undefined && <ServerInfoRow label="Connected through" value={activeAddress} />}
+				</>) : (
+					<DialogContentText>
+						Details will be available once AirMessage has connected to your server
+					</DialogContentText>
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={props.onDismiss} color="primary">
+					Close
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function ServerInfoRow(props: {label: string, value: string}) {
+	return (<>
+		<Typography variant="body2" color="textSecondary">{props.label}</Typography>
+		<Typography gutterBottom style={{wordBreak: "break-all"}}>{props.value}</Typography>
+	</>);
+}
+
 function SignOutDialog(props: {isOpen: boolean, onDismiss: () => void}) {
 	function onConfirm() {
 		//Dismissing the dialog
@@ -2,26 +2,27 @@ import React from "react";
 import styles from "./DetailThread.module.css";
 
 import * as ConnectionManager from "../../../connection/connectionManager";
-import {messageUpdateEmitter, modifierUpdateEmitter} from "../../../connection/connectionManager";
+import {ConnectionListener, messageUpdateEmitter, modifierUpdateEmitter} from "../../../connection/connectionManager";
 
 import {Button, CircularProgress, Typography} from "@material-ui/core";
-import {Conversation, ConversationItem, MessageItem, MessageModifier, QueuedFile} from "../../../data/blocks";
+import {Conversation, ConversationItem, MessageItem, MessageModifier, QueuedFile, TapbackItem} from "../../../data/blocks";
 import MessageList from "./MessageList";
 import MessageInput from "./MessageInput";
 import {
+	applyMessageModifier,
 	getFallbackTitle,
 	getMemberTitle,
-	isConversationItemMessage,
-	isModifierStatusUpdate,
-	isModifierSticker,
-	isModifierTapback
+	isConversationItemMessage
 } from "../../../util/conversationUtils";
-import {ConversationItemType, MessageError, MessageStatusCode} from "../../../data/stateCodes";
+import {ConversationItemType, MessageError, MessageModifierType, MessageStatusCode, TapbackType} from "../../../data/stateCodes";
 import {DetailFrame} from "../master/DetailFrame";
 import EventEmitter from "../../../util/eventEmitter";
+import ProgressPromise from "../../../util/progressPromise";
 import {dismissMessageNotifications} from "../../../util/notifyUtils";
+import {getActiveAccount} from "../../../util/accountUtils";
 import {playSoundMessageOut} from "../../../util/soundUtils";
 import {appleServiceAppleMessage} from "../../../data/appleConstants";
+import {SnackbarContext} from "../../control/SnackbarProvider";
 
 type HistoryLoadState = "idle" | "loading" | "complete";
 
@@ -53,6 +54,9 @@ type Display = {
 } | DisplayMessages;
 
 export default class DetailThread extends React.Component<Props, State> {
+	static contextType = SnackbarContext;
+	declare context: React.ContextType<typeof SnackbarContext>;
+	
 	readonly dragDropRef = React.createRef<HTMLDivElement>();
 	readonly messageSubmitEmitter = new EventEmitter();
 	
@@ -66,6 +70,24 @@ export default class DetailThread extends React.Component<Props, State> {
 	};
 	private _nextMessageID: number = 0;
 	private _nextAttachmentID: number = 0;
+	//Whether messages have been loaded from the server, rather than from the local cache
+	private threadSynced = false;
+	//Queued messages from previous sessions, waiting for the thread to be displayed
+	private restoredItems: MessageItem[] = [];
+	private readonly connectionListener: ConnectionListener = {
+		onConnecting: () => {},
+		onOpen: () => {
+			//Queued messages are sent once the connection opens
+			this.setQueuedState(false);
+			
+			//Loading messages from the server once it becomes available
+			if(!this.threadSynced) this.requestMessages();
+		},
+		onClose: () => {
+			//Messages that are still waiting to be sent will stay in the queue
+			this.setQueuedState(true);
+		}
+	};
 	//private dragCounter: number = 0;
 	
 	private get nextMessageID(): number {
@@ -102,7 +124,8 @@ export default class DetailThread extends React.Component<Props, State> {
 			if(itemIndex !== -1) {
 				pendingItems[itemIndex] = {
 					...pendingItems[itemIndex],
-					error: error
+					error: error,
+					queued: false
 				} as MessageItem;
 			}
 			
@@ -110,6 +133,122 @@ export default class DetailThread extends React.Component<Props, State> {
 		});
 	}
 	
+	private createTextMessage(text: string, date: Date): MessageItem {
+		return {
+			itemType: ConversationItemType.Message,
+			localID: this.nextMessageID,
+			serverID: undefined,
+			guid: undefined,
+			chatGuid: this.props.conversation.guid,
+			date: date,
+			
+			text: text,
+			subject: undefined,
+			sender: undefined,
+			attachments: [],
+			stickers: [],
+			tapbacks: [],
+			sendStyle: undefined,
+			status: MessageStatusCode.Unconfirmed,
+			error: undefined,
+			statusDate: undefined,
+			queued: !ConnectionManager.isConnected()
+		};
+	}
+	
+	private createFileMessage(file: File, attachmentID: number, date: Date): MessageItem {
+		return {
+			itemType: ConversationItemType.Message,
+			localID: this.nextMessageID,
+			serverID: undefined,
+			guid: undefined,
+			chatGuid: this.props.conversation.guid,
+			date: date,
+			
+			text: undefined,
+			subject: undefined,
+			sender: undefined,
+			attachments: [{
+				localID: attachmentID,
+				name: file.name,
+				type: file.type,
+				size: file.size,
+				data: file
+			}],
+			stickers: [],
+			tapbacks: [],
+			sendStyle: undefined,
+			status: MessageStatusCode.Unconfirmed,
+			statusDate: undefined,
+			error: undefined,
+			progress: -1, //Show indeterminate progress by default for attachments
+			queued: !ConnectionManager.isConnected()
+		};
+	}
+	
+	private trackTextMessage(message: MessageItem, promise: Promise<any>) {
+		promise.catch((error: MessageError) => this.applyMessageError(error, message.localID!));
+	}
+	
+	private trackFileMessage(message: MessageItem, promise: ProgressPromise<any, string | number>) {
+		promise
+			.progress((progressData) => {
+				this.setState((prevState) => {
+					//Ignoring if there are no messages
+					if(prevState.display.type !== DisplayType.Messages) return null;
+					
+					//Cloning the item array
+					const pendingItems: ConversationItem[] = [...prevState.display.data];
+					
+					//Finding the item
+					const itemIndex = pendingItems.findIndex((item) => item.localID === message.localID);
+					if(itemIndex !== -1) {
+						if(typeof progressData === "number") {
+							//Updating the upload progress
+							//Uploaded bytes are counted after compression, so they are compared against the file size as an upper bound
+							pendingItems[itemIndex] = {
+								...pendingItems[itemIndex],
+								progress: Math.min(progressData / message.attachments[0].size * 100, 100)
+							} as MessageItem;
+						} else {
+							//Updating the checksum
+							pendingItems[itemIndex] = {
+								...pendingItems[itemIndex],
+								attachments: [{
+									...(pendingItems[itemIndex] as MessageItem).attachments[0],
+									checksum: progressData
+								}]
+							} as MessageItem;
+						}
+					}
+					
+					return {display: {type: DisplayType.Messages, data: pendingItems}};
+				});
+			})
+			.then(() => {
+				this.setState((prevState) => {
+					//Ignoring if there are no messages
+					if(prevState.display.type !== DisplayType.Messages) return null;
+					
+					//Cloning the item array
+					const pendingItems: ConversationItem[] = [...prevState.display.data];
+					
+					//Finding the item
+					const itemIndex = pendingItems.findIndex((item) => item.localID === message.localID);
+					if(itemIndex !== -1) {
+						//Clearing the item's upload progress
+						pendingItems[itemIndex] = {
+							...pendingItems[itemIndex],
+							progress: undefined
+						} as MessageItem;
+					}
+					
+					return {display: {type: DisplayType.Messages, data: pendingItems}};
+				});
+			})
+			.catch((error: MessageError) => this.applyMessageError(error, message.localID!));
+	}
+	
 	private handleMessageSubmit(messageText: string, queuedFiles: QueuedFile[]) {
 		//Ignoring if there are no messages
 		if(this.state.display.type !== DisplayType.Messages) return;
@@ -123,29 +262,10 @@ export default class DetailThread extends React.Component<Props, State> {
 			this.setState({message: ""});
 			
 			//Creating the message and adding it to the chat
-			const message: MessageItem = {
-				itemType: ConversationItemType.Message,
-				localID: this.nextMessageID,
-				serverID: undefined,
-				guid: undefined,
-				chatGuid: this.props.conversation.guid,
-				date: new Date(),
-				
-				text: messageText,
-				subject: undefined,
-				sender: undefined,
-				attachments: [],
-				stickers: [],
-				tapbacks: [],
-				sendStyle: undefined,
-				status: MessageStatusCode.Unconfirmed,
-				error: undefined,
-				statusDate: undefined
-			};
+			const message = this.createTextMessage(messageText, new Date());
 			
 			//Sending the message
-			ConnectionManager.sendMessage(this.props.conversation.guid, messageText)
-				.catch((error: MessageError) => this.applyMessageError(error, message.localID!));
+			this.trackTextMessage(message, ConnectionManager.sendMessage(this.props.conversation.guid, messageText));
 			
 			//Adding the item to the added items list
 			addedItems.push(message);
@@ -155,92 +275,11 @@ export default class DetailThread extends React.Component<Props, State> {
 			//Clearing the attachments input
 			this.setState({attachments: []});
 			
-			const messages = queuedFiles.map((file) => {
-				return {
-					itemType: ConversationItemType.Message,
-					localID: this.nextMessageID,
-					serverID: undefined,
-					guid: undefined,
-					chatGuid: this.props.conversation.guid,
-					date: new Date(),
-					
-					text: undefined,
-					subject: undefined,
-					sender: undefined,
-					attachments: [{
-						localID: file.id,
-						name: file.file.name,
-						type: file.file.type,
-						size: file.file.size,
-						data: file.file
-					}],
-					stickers: [],
-					tapbacks: [],
-					sendStyle: undefined,
-					status: MessageStatusCode.Unconfirmed,
-					statusDate: undefined,
-					error: undefined,
-					progress: -1 //Show indeterminate progress by default for attachments
-				} as MessageItem;
-			});
+			const messages = queuedFiles.map((file) => this.createFileMessage(file.file, file.id, new Date()));
 			
 			//Sending the messages
 			for(const message of messages) {
-				ConnectionManager.sendFile(this.props.conversation.guid, message.attachments[0].data!)
-					.progress((progressData) => {
-						this.setState((prevState) => {
-							//Ignoring if there are no messages
-							if(prevState.display.type !== DisplayType.Messages) return null;
-							
-							//Cloning the item array
-							const pendingItems: ConversationItem[] = [...prevState.display.data];
-							
-							//Finding the item
-							const itemIndex = pendingItems.findIndex((item) => item.localID === message.localID);
-							if(itemIndex !== -1) {
-								if(typeof progressData === "number") {
-									//Updating the upload progress
-									pendingItems[itemIndex] = {
-										...pendingItems[itemIndex],
-										progress: progressData / message.attachments[0].size * 100
-									} as MessageItem;
-								} else {
-									//Updating the checksum
-									pendingItems[itemIndex] = {
-										...pendingItems[itemIndex],
-										attachments: [{
-											...(pendingItems[itemIndex] as MessageItem).attachments[0],
-											checksum: progressData
-										}]
-									} as MessageItem;
-								}
-							}
-							
-							return {display: {type: DisplayType.Messages, data: pendingItems}};
-						});
-					})
-					.then(() => {
-						this.setState((prevState) => {
-							//Ignoring if there are no messages
-							if(prevState.display.type !== DisplayType.Messages) return null;
-							
-							//Cloning the item array
-							const pendingItems: ConversationItem[] = [...prevState.display.data];
-							
-							//Finding the item
-							const itemIndex = pendingItems.findIndex((item) => item.localID === message.localID);
-							if(itemIndex !== -1) {
-								//Clearing the item's upload progress
-								pendingItems[itemIndex] = {
-									...pendingItems[itemIndex],
-									progress: undefined
-								} as MessageItem;
-							}
-							
-							return {display: {type: DisplayType.Messages, data: pendingItems}};
-						});
-					})
-					.catch((error: MessageError) => this.applyMessageError(error, message.localID!));
+				this.trackFileMessage(message, ConnectionManager.sendFile(this.props.conversation.guid, message.attachments[0].data!));
 			}
 			
 			//Adding the items to the added items list
@@ -326,9 +365,10 @@ export default class DetailThread extends React.Component<Props, State> {
 		//Returning if the state is already loading or is complete
 		if(this.state.historyLoadState !== "idle") return;
 		
-		//Fetching history
+		//Fetching history (from the local cache if the server isn't available)
 		const items = (this.state.display as DisplayMessages).data;
-		ConnectionManager.fetchThread(this.props.conversation.guid, items[items.length - 1].serverID).then(data => {
+		const fetchHistory = ConnectionManager.isConnected() ? ConnectionManager.fetchThread : ConnectionManager.fetchCachedThread;
+		fetchHistory(this.props.conversation.guid, items[items.length - 1].serverID).then(data => {
 			if(data.length > 0) {
 				//Add the new items to the end of the array, and reset the load state
 				this.setState((prevState) => {
@@ -355,17 +395,51 @@ export default class DetailThread extends React.Component<Props, State> {
 	private readonly requestMessages = () => {
 		//Fetching thread messages
 		ConnectionManager.fetchThread(this.props.conversation.guid).then(data => {
-			this.setState({display: {type: DisplayType.Messages, data: data}});
+			this.threadSynced = true;
+			this.setState((prevState) => ({display: {type: DisplayType.Messages, data: this.withQueuedItems(prevState, data)}, historyLoadState: "idle"}));
 		}).catch(() => {
-			this.setState({display: {type: DisplayType.Error}});
+			//Keeping cached messages on screen
+			this.setState((prevState) => {
+				if(prevState.display.type === DisplayType.Messages) return null;
+				else return {display: {type: DisplayType.Error}};
+			});
 		});
 	};
 	
+	private withQueuedItems(prevState: Readonly<State>, data: ConversationItem[]): ConversationItem[] {
+		//Keeping messages that haven't been sent yet, or that failed to send, at the start of the thread
+		let queuedItems: ConversationItem[];
+		if(prevState.display.type === DisplayType.Messages) {
+			queuedItems = prevState.display.data.filter((item) => isConversationItemMessage(item) && (item.queued || (item.localID !== undefined && item.error !== undefined)));
+		} else {
+			queuedItems = this.restoredItems;
+		}
+		
+		return queuedItems.concat(data);
+	}
+	
+	private setQueuedState(queued: boolean) {
+		this.setState((prevState) => {
+			if(prevState.display.type !== DisplayType.Messages) return null;
+			
+			//Updating outgoing messages that haven't been sent yet
+			const pendingItems = prevState.display.data.map((item): ConversationItem => {
+				if(isConversationItemMessage(item) && item.localID !== undefined && item.status === MessageStatusCode.Unconfirmed && !item.error && item.queued !== queued) {
+					return {...item, queued: queued} as MessageItem;
+				} else {
+					return item;
+				}
+			});
+			
+			return {display: {type: DisplayType.Messages, data: pendingItems}};
+		});
+	}
+	
 	render() {
 		//Creating the body view (use a loading spinner while conversation details aren't available)
 		let body: React.ReactNode;
 		if(this.state.display.type === DisplayType.Messages) {
-			body = <MessageList conversation={this.props.conversation} items={this.state.display.data} messageSubmitEmitter={this.messageSubmitEmitter} showHistoryLoader={this.state.historyLoadState === "loading"} onRequestHistory={this.handleRequestHistory} />;
+			body = <MessageList conversation={this.props.conversation} items={this.state.display.data} messageSubmitEmitter={this.messageSubmitEmitter} showHistoryLoader={this.state.historyLoadState === "loading"} onRequestHistory={this.handleRequestHistory} onTapback={ConnectionManager.canSendTapbacks() ? this.handleTapback : undefined} />;
 		} else if(this.state.display.type === DisplayType.Loading) {
 			body = (
 				<div className={styles.centerContainer}>
@@ -403,11 +477,69 @@ export default class DetailThread extends React.Component<Props, State> {
 	
 	componentDidMount() {
 		//Clearing notifications
-		dismissMessageNotifications(this.props.conversation.guid);
+		dismissMessageNotifications(getActiveAccount().id, this.props.conversation.guid);
+		
+		//Displaying cached messages while the server loads
+		ConnectionManager.fetchCachedThread(this.props.conversation.guid).then((data) => {
+			if(data.length === 0) return;
+			this.setState((prevState) => {
+				if(prevState.display.type === DisplayType.Messages) return null;
+				else return {display: {type: DisplayType.Messages, data: this.withQueuedItems(prevState, data)}};
+			});
+		}).catch((error) => console.warn("Failed to load cached messages", error));
+		
+		//Restoring messages that are waiting to be sent, and messages that failed to send while the app was closed
+		Promise.all([
+			ConnectionManager.fetchQueuedMessages(this.props.conversation.guid),
+			ConnectionManager.fetchBackgroundSendResults(this.props.conversation.guid).catch((error) => {
+				console.warn("Failed to load background send results", error);
+				return [];
+			})
+		]).then(([queuedMessages, backgroundResults]) => {
+			//Letting the user know about messages that were delivered while the app was closed
+			const sentCount = backgroundResults.filter((result) => !result.error).length;
+			if(sentCount > 0) {
+				this.context({message: sentCount === 1 ? "1 message was sent while you were away" : `${sentCount} messages were sent while you were away`});
+			}
+			
+			const failedItems = backgroundResults.filter((result) => result.error).map((result): MessageItem => ({
+				...(result.file ? this.createFileMessage(result.file, this.nextAttachmentID, result.date) : this.createTextMessage(result.text!, result.date)),
+				error: result.error,
+				queued: false
+			}));
+			
+			const queuedItems = queuedMessages.map((queuedMessage) => {
+				if(queuedMessage.file) {
+					const message = this.createFileMessage(queuedMessage.file, this.nextAttachmentID, queuedMessage.date);
+					this.trackFileMessage(message, queuedMessage.promise);
+					return message;
+				} else {
+					const message = this.createTextMessage(queuedMessage.text!, queuedMessage.date);
+					this.trackTextMessage(message, queuedMessage.promise);
+					return message;
+				}
+			});
+			
+			//Failed messages were queued before the messages that are still waiting
+			const items = [...failedItems, ...queuedItems].reverse();
+			
+			//Adding the messages to the thread, or holding on to them until the thread loads
+			if(this.state.display.type === DisplayType.Messages) {
+				this.setState((prevState) => {
+					if(prevState.display.type !== DisplayType.Messages) return null;
+					else return {display: {type: DisplayType.Messages, data: [...items, ...prevState.display.data]}};
+				});
+			} else {
+				this.restoredItems = items;
+			}
+		}).catch((error) => console.warn("Failed to load queued messages", error));
 		
 		//Fetching messages
 		this.requestMessages();
 		
+		//Registering the connection listener
+		ConnectionManager.addConnectionListener(this.connectionListener);
+		
 		//Building a conversation title from the participants' names if the conversation isn't explicitly named
 		if(!this.props.conversation.name) {
 			getMemberTitle(this.props.conversation.members).then((title) => {
@@ -445,6 +577,9 @@ export default class DetailThread extends React.Component<Props, State> {
 	}
 	
 	componentWillUnmount() {
+		//Unregistering the connection listener
+		ConnectionManager.removeConnectionListener(this.connectionListener);
+		
 		//Unsubscribing from message updates
 		messageUpdateEmitter.unregisterListener(this.onMessageUpdate);
 		modifierUpdateEmitter.unregisterListener(this.onModifierUpdate);
@@ -521,6 +656,33 @@ export default class DetailThread extends React.Component<Props, State> {
 		});
 	};
 	
+	private readonly handleTapback = (message: MessageItem, messageIndex: number, tapbackType: TapbackType) => {
+		const messageGUID = message.guid!;
+		
+		//Picking the tapback that the user already has on this message part removes it
+		const previousTapback = message.tapbacks.find((tapback) => tapback.sender === undefined && tapback.messageIndex === messageIndex);
+		const isAddition = previousTapback?.tapbackType !== tapbackType;
+		
+		//Showing the tapback right away, until the server confirms it with a modifier update
+		const tapback: TapbackItem = {
+			type: MessageModifierType.Tapback,
+			messageGuid: messageGUID,
+			messageIndex: messageIndex,
+			sender: undefined,
+			isAddition: isAddition,
+			tapbackType: tapbackType
+		};
+		this.onModifierUpdate([tapback]);
+		
+		ConnectionManager.sendTapback(message.chatGuid, messageGUID, messageIndex, tapbackType, isAddition).catch((error) => {
+			console.warn("Failed to send tapback", error);
+			
+			//Restoring the message's previous tapback
+			this.onModifierUpdate([previousTapback ?? {...tapback, isAddition: false}]);
+			this.context({message: isAddition ? "Couldn't send reaction" : "Couldn't remove reaction"});
+		});
+	};
+	
 	private readonly onModifierUpdate = (itemArray: MessageModifier[]): void => {
 		//Ignoring if the chat isn't loaded
 		if(this.state.display.type !== DisplayType.Messages) return;
@@ -538,28 +700,7 @@ export default class DetailThread extends React.Component<Props, State> {
 				if(matchingIndex === -1) continue;
 				
 				//Applying the modifier
-				if(isModifierStatusUpdate(modifier)) {
-					pendingItemArray[matchingIndex] = {
-						...pendingItemArray[matchingIndex],
-						status: modifier.status,
-						statusDate: modifier.date
-					} as MessageItem;
-				} else if(isModifierSticker(modifier)) {
-					pendingItemArray[matchingIndex] = {
-						...pendingItemArray[matchingIndex],
-						stickers: (pendingItemArray[matchingIndex] as MessageItem).stickers.concat(modifier),
-					} as MessageItem;
-				} else if(isModifierTapback(modifier)) {
-					const pendingTapbacks = [...(pendingItemArray[matchingIndex] as MessageItem).tapbacks];
-					const matchingTapbackIndex = pendingTapbacks.findIndex((tapback) => tapback.sender === modifier.sender);
-					if(matchingTapbackIndex !== -1) pendingTapbacks[matchingTapbackIndex] = modifier;
-					else pendingTapbacks.push(modifier);
-					
-					pendingItemArray[matchingIndex] = {
-						...pendingItemArray[matchingIndex],
-						tapbacks: pendingTapbacks
-					} as MessageItem;
-				}
+				pendingItemArray[matchingIndex] = applyMessageModifier(pendingItemArray[matchingIndex] as MessageItem, modifier);
 			}
 			
 			return {display: {type: DisplayType.Messages, data: pendingItemArray}};
@@ -3,13 +3,13 @@ import styles from "./MessageList.module.css";
 
 import Message from "./item/Message";
 import * as ConversationUtils from "../../../util/conversationUtils";
-import {Conversation, ConversationItem} from "../../../data/blocks";
+import {Conversation, ConversationItem, MessageItem} from "../../../data/blocks";
 import {getMessageFlow} from "../../../util/conversationUtils";
-import {MessageStatusCode} from "../../../data/stateCodes";
+import {MessageStatusCode, TapbackType} from "../../../data/stateCodes";
 import EventEmitter from "../../../util/eventEmitter";
 import ConversationActionParticipant from "./item/ConversationActionParticipant";
 import ConversationActionRename from "./item/ConversationActionRename";
-import {CircularProgress} from "@material-ui/core";
+import {Button, CircularProgress, Typography} from "@material-ui/core";
 
 interface Props {
 	conversation: Conversation;
@@ -17,16 +17,22 @@ interface Props {
 	messageSubmitEmitter: EventEmitter<any>;
 	onRequestHistory: () => void;
 	showHistoryLoader?: boolean;
+	onTapback?: (message: MessageItem, messageIndex: number, tapbackType: TapbackType) => void; //Reacts to a message, if the server supports it
 }
 
 interface State {
 	isInThreshold: boolean;
+	replyThreadGUID?: string; //The GUID of the message whose reply thread is shown, or undefined to show all messages
+	highlightedGUID?: string; //The GUID of the message that was last jumped to
 }
 
 const historyLoadScrollThreshold = 300;
 
+//How long a message stays highlighted after it is jumped to
+const highlightDurationMillis = 2000;
+
 export default class MessageList extends React.Component<Props, State> {
-	state = {
+	state: State = {
 		isInThreshold: false
 	};
 	
@@ -40,6 +46,8 @@ export default class MessageList extends React.Component<Props, State> {
 	//Used to track whether the message list should be scrolled to the bottom when the component is next updated
 	private shouldScrollNextUpdate = false;
 	
+	private highlightTimeoutID: any | undefined = undefined;
+	
 	private readonly handleScroll = (event: React.UIEvent<HTMLDivElement, UIEvent>) => {
 		if(event.currentTarget.scrollTop < historyLoadScrollThreshold) {
 			if(!this.state.isInThreshold) {
@@ -53,18 +61,73 @@ export default class MessageList extends React.Component<Props, State> {
 		}
 	};
 	
+	//Only messages that have reached the server can be reacted to
+	private getTapbackHandler(message: MessageItem): ((messageIndex: number, tapbackType: TapbackType) => void) | undefined {
+		const onTapback = this.props.onTapback;
+		if(!onTapback || message.guid === undefined) return undefined;
+		return (messageIndex, tapbackType) => onTapback(message, messageIndex, tapbackType);
+	}
+	
+	//Scrolls to a message and briefly highlights it
+	private jumpToMessage(guid: string) {
+		const element = this.scrollRef.current!.querySelector(`[data-message-guid="${CSS.escape(guid)}"]`);
+		if(!element) return;
+		
+		element.scrollIntoView({block: "center"});
+		
+		clearTimeout(this.highlightTimeoutID);
+		this.setState({highlightedGUID: guid});
+		this.highlightTimeoutID = setTimeout(() => this.setState({highlightedGUID: undefined}), highlightDurationMillis);
+	}
+	
+	private readonly showAllMessages = () => {
+		this.setState({replyThreadGUID: undefined});
+	};
+	
 	render() {
+		//Indexing messages and counting their replies, so that replies can reference their originals
+		const messageMap = new Map<string, MessageItem>();
+		const replyCounts = new Map<string, number>();
+		for(const item of this.props.items) {
+			if(!ConversationUtils.isConversationItemMessage(item)) continue;
+			if(item.guid !== undefined) messageMap.set(item.guid, item);
+			if(item.replyTarget) replyCounts.set(item.replyTarget.guid, (replyCounts.get(item.replyTarget.guid) ?? 0) + 1);
+		}
+		
+		//Filtering the list down to a single reply thread
+		const replyThreadGUID = this.state.replyThreadGUID;
+		const items = replyThreadGUID === undefined ? this.props.items : this.props.items.filter((item) => ConversationUtils.isConversationItemMessage(item) && (item.guid === replyThreadGUID || item.replyTarget?.guid === replyThreadGUID));
+		
 		//The latest outgoing item with the "read" status
-		const readTargetIndex = this.props.items.findIndex((item) => ConversationUtils.isConversationItemMessage(item) && !item.sender && item.status === MessageStatusCode.Read);
+		const readTargetIndex = items.findIndex((item) => ConversationUtils.isConversationItemMessage(item) && !item.sender && item.status === MessageStatusCode.Read);
 		//The latest outgoing item with the "delivered" status, no further than the latest item with the "read" status
-		const deliveredTargetIndex = this.props.items.slice(0, readTargetIndex !== -1 ? readTargetIndex : undefined).findIndex((item) => ConversationUtils.isConversationItemMessage(item) && !item.sender && item.status === MessageStatusCode.Delivered);
+		const deliveredTargetIndex = items.slice(0, readTargetIndex !== -1 ? readTargetIndex : undefined).findIndex((item) => ConversationUtils.isConversationItemMessage(item) && !item.sender && item.status === MessageStatusCode.Delivered);
 		
-		return (
+		return (<>
+			{replyThreadGUID !== undefined && <div className={styles.repliesBar}>
+				<Typography variant="subtitle2">Replies</Typography>
+				<Button color="primary" onClick={this.showAllMessages}>Show all messages</Button>
+			</div>}
 			<div className={styles.scroll} ref={this.scrollRef} onScroll={this.handleScroll}>
 				<div className={styles.list}>
-					{this.props.items.map((item, i, array) => {
+					{items.map((item, i, array) => {
 						if(ConversationUtils.isConversationItemMessage(item)) {
-							return <Message key={(item.localID ?? item.guid)} message={item} isGroupChat={this.props.conversation.members.length > 1} service={this.props.conversation.service} flow={getMessageFlow(item, array[i + 1], array[i - 1])} showStatus={i === readTargetIndex || i === deliveredTargetIndex} />;
+							const replyTargetMessage = item.replyTarget && messageMap.get(item.replyTarget.guid);
+							const replyCount = item.guid !== undefined && replyThreadGUID === undefined ? replyCounts.get(item.guid) : undefined;
+							
+							return <Message
+								key={(item.localID ?? item.guid)}
+								message={item}
+								isGroupChat={this.props.conversation.members.length > 1}
+								service={this.props.conversation.service}
+								flow={getMessageFlow(item, array[i + 1], array[i - 1])}
+								showStatus={i === readTargetIndex || i === deliveredTargetIndex}
+								onTapback={this.getTapbackHandler(item)}
+								replyTargetMessage={replyTargetMessage}
+								onReplyTargetClick={replyTargetMessage ? () => this.jumpToMessage(replyTargetMessage.guid!) : undefined}
+								replyCount={replyCount}
+								onRepliesClick={replyCount ? () => this.setState({replyThreadGUID: item.guid}) : undefined}
+								highlight={item.guid !== undefined && item.guid === this.state.highlightedGUID} />;
 						} else if(ConversationUtils.isConversationItemParticipantAction(item)) {
 							return <ConversationActionParticipant key={(item.localID ?? item.guid)} action={item} />;
 						} else if(ConversationUtils.isConversationItemChatRenameAction(item)) {
@@ -76,7 +139,7 @@ export default class MessageList extends React.Component<Props, State> {
 					{this.props.showHistoryLoader && <HistoryLoadingProgress key="static-historyloader" />}
 				</div>
 			</div>
-		);
+		</>);
 	}
 	
 	componentDidMount() {
@@ -97,9 +160,9 @@ export default class MessageList extends React.Component<Props, State> {
 		return null;
 	}
 	
-	componentDidUpdate(prevProps: Readonly<Props>) {
+	componentDidUpdate(prevProps: Readonly<Props>, prevState: Readonly<State>) {
 		//Scrolling the list to the bottom if needed
-		if(this.shouldScrollNextUpdate) {
+		if(this.shouldScrollNextUpdate || this.state.replyThreadGUID !== prevState.replyThreadGUID) {
 			this.scrollToBottom();
 			this.shouldScrollNextUpdate = false;
 		}
@@ -120,6 +183,8 @@ export default class MessageList extends React.Component<Props, State> {
 	componentWillUnmount() {
 		//Unregistering the submit listener
 		this.props.messageSubmitEmitter.unregisterListener(this.onMessageSubmit);
+		
+		clearTimeout(this.highlightTimeoutID);
 	}
 	
 	private readonly onMessageSubmit = () => {
@@ -1,83 +1,145 @@
-import React, {useContext, useState} from "react";
+import React, {useContext, useEffect, useRef, useState} from "react";
 import styles from "../item/Message.module.css";
 import stylesAttachment from "./MessageAttachmentDownloadable.module.css";
 
 import {mimeTypeToPreview} from "../../../../util/conversationUtils";
-import {ButtonBase, CircularProgress} from "@material-ui/core";
+import {ButtonBase, CircularProgress, IconButton} from "@material-ui/core";
 import GetAppRoundedIcon from "@material-ui/icons/GetAppRounded";
+import PauseRoundedIcon from "@material-ui/icons/PauseRounded";
+import PlayArrowRoundedIcon from "@material-ui/icons/PlayArrowRounded";
+import CloseRoundedIcon from "@material-ui/icons/CloseRounded";
 import {formatFileSize} from "../../../../util/fileUtils";
-import * as ConnectionManager from "../../../../connection/connectionManager";
+import * as DownloadManager from "../../../../connection/downloadManager";
+import {AttachmentDownload} from "../../../../connection/downloadManager";
 import {DecorativeMessageBubble, MessagePartProps} from "../item/Message";
 import {StickerItem, TapbackItem} from "../../../../data/blocks";
 import {SnackbarContext} from "../../../control/SnackbarProvider";
 import {AttachmentRequestErrorCode} from "../../../../data/stateCodes";
+import {getCachedAttachment} from "../../../../util/attachmentCache";
+import {getActiveAccount} from "../../../../util/accountUtils";
 
-export default function MessageAttachmentDownloadable(props: {data?: ArrayBuffer | Blob, name: string | undefined, type: string, size: number, guid: string, onDataAvailable: (data: ArrayBuffer) => void, onDataClicked: (data: ArrayBuffer | Blob) => void, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[]}) {
+export default function MessageAttachmentDownloadable(props: {data?: ArrayBuffer | Blob, name: string | undefined, type: string, size: number, guid: string, onDataAvailable: (data: ArrayBuffer) => void, onDataClicked: (data: ArrayBuffer | Blob) => void, isPreviewable: boolean, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[], onTapbackRequest?: (anchor: HTMLElement) => void}) {
 	//State
-	const [isDownloading, setIsDownloading] = useState(false);
-	const [sizeAvailable, setSizeAvailable] = useState(props.size);
-	const [sizeDownloaded, setSizeDownloaded] = useState<number | undefined>(undefined);
+	const [download, setDownload] = useState<AttachmentDownload | undefined>(() => DownloadManager.getAttachmentDownload(props.guid)); //Picking up downloads started before this component was mounted
+	const [downloadState, setDownloadState] = useState(download?.state);
+	const [sizeAvailable, setSizeAvailable] = useState(download?.sizeAvailable ?? props.size);
+	const [sizeDownloaded, setSizeDownloaded] = useState<number | undefined>(download?.sizeDownloaded);
+	const [cachedData, setCachedData] = useState<ArrayBuffer | undefined>(undefined);
 	
 	const displaySnackbar = useContext(SnackbarContext);
+	//Keeping a reference to the latest listener, so that effects don't restart whenever the parent re-renders
+	const onDataAvailableRef = useRef(props.onDataAvailable);
+	onDataAvailableRef.current = props.onDataAvailable;
 	
 	//Display the file name if it is available, otherwise just display the file type
 	const nameDisplay = props.name ?? mimeTypeToPreview(props.type);
 	
+	//Checking for a previously downloaded copy of the file
+	const {guid, data, isPreviewable} = props;
+	useEffect(() => {
+		if(data) return;
+		
+		let cancelled = false;
+		getCachedAttachment(getActiveAccount().id, guid).then((cachedData) => {
+			if(cancelled || !cachedData) return;
+			
+			//Displaying previewable files right away, otherwise holding on to the data until the user asks for it
+			if(isPreviewable) onDataAvailableRef.current(cachedData);
+			else setCachedData(cachedData);
+		}).catch(console.warn);
+		
+		return () => {
+			cancelled = true;
+		};
+	}, [guid, data, isPreviewable]);
+	
+	//Following the download's progress
+	useEffect(() => {
+		if(!download) return;
+		
+		const onUpdate = (download: AttachmentDownload) => {
+			setDownloadState(download.state);
+			if(download.sizeAvailable !== undefined) setSizeAvailable(download.sizeAvailable);
+			setSizeDownloaded(download.sizeDownloaded);
+			
+			if(download.state === "complete") {
+				//Calling the listener
+				onDataAvailableRef.current(download.data!);
+			} else if(download.state === "failed") {
+				//Notifying the user with a snackbar
+				displaySnackbar({message: "Failed to download attachment: " + errorCodeToMessage(download.error!)});
+			}
+			
+			//Resetting the state
+			if(!download.isActive) {
+				setDownload(undefined);
+				setSizeDownloaded(undefined);
+			}
+		};
+		
+		download.updateEmitter.registerListener(onUpdate);
+		return () => download.updateEmitter.unregisterListener(onUpdate);
+	}, [download, displaySnackbar]);
+	
 	function startDownload() {
 		//Checking if data is already available
-		if(props.data) {
-			props.onDataClicked(props.data);
+		const availableData = props.data ?? cachedData;
+		if(availableData) {
+			props.onDataClicked(availableData);
 			return;
 		}
 		
-		//Setting the state as downloading
-		setIsDownloading(true);
-		
-		//Sending the request and setting the state to downloading
-		ConnectionManager.fetchAttachment(props.guid)
-			.progress((progress) => {
-				if(progress.type === "size") {
-					setSizeAvailable(progress.value);
-				} else {
-					setSizeDownloaded(progress.value);
-				}
-			})
-			.then((fileData) => {
-				//Calling the listener
-				props.onDataAvailable(fileData);
-				
-				//Resetting the state
-				setIsDownloading(false);
-				setSizeDownloaded(undefined);
-			})
-			.catch((error: AttachmentRequestErrorCode) => {
-				//Resetting the state
-				setIsDownloading(false);
-				setSizeDownloaded(undefined);
-				
-				//Notifying the user with a snackbar
-				displaySnackbar({message: "Failed to download attachment: " + errorCodeToMessage(error)});
-			});
+		//Starting the download
+		const download = DownloadManager.downloadAttachment(props.guid);
+		setDownload(download);
+		setDownloadState(download.state);
 	}
 	
+	function togglePause() {
+		if(download?.state === "paused") download.resume();
+		else download?.pause();
+	}
+	
+	function cancelDownload() {
+		download?.cancel();
+	}
+	
+	const isDownloading = download !== undefined;
+	
+	let statusDisplay: string;
+	if(!isDownloading) {
+		statusDisplay = formatFileSize(sizeAvailable) + (cachedData ? " • Click to save" : " • Click to download");
+	} else if(downloadState === "paused") {
+		statusDisplay = "Paused";
+	} else if(downloadState === "waiting") {
+		statusDisplay = "Waiting for connection";
+	} else {
+		statusDisplay = formatFileSize(sizeDownloaded ?? 0) + " of " + formatFileSize(sizeAvailable);
+	}
+	
+	//Controls can't be placed inside of a button, so the bubble is only clickable when the download isn't running
 	return (
-		<DecorativeMessageBubble element={ButtonBase} className={`${styles.textBubble} ${stylesAttachment.root}`} style={props.partProps} disabled={isDownloading} onClick={startDownload} tapbacks={props.tapbacks} stickers={props.stickers}>
+		<DecorativeMessageBubble element={isDownloading ? "div" : ButtonBase} className={`${styles.textBubble} ${stylesAttachment.root}`} style={props.partProps} onClick={isDownloading ? undefined : startDownload} tapbacks={props.tapbacks} stickers={props.stickers} onTapbackRequest={props.onTapbackRequest}>
 			<div className={stylesAttachment.icon}>
 				{
 					isDownloading ?
-						<CircularProgress size={24} variant={sizeDownloaded === undefined ? "indeterminate" : "determinate"} value={(sizeDownloaded ?? 0) / sizeAvailable * 100} style={{color: props.partProps.color}} /> :
+						<CircularProgress size={24} variant={sizeDownloaded === undefined || downloadState !== "downloading" ? "indeterminate" : "determinate"} value={(sizeDownloaded ?? 0) / sizeAvailable * 100} style={{color: props.partProps.color}} /> :
 						<GetAppRoundedIcon />
 				}
 			</div>
 			<div className={stylesAttachment.description}>
 				<span>{nameDisplay}</span>
 				<br />
-				<span className={stylesAttachment.descriptionSecondary}>{
-					isDownloading ?
-						formatFileSize(sizeDownloaded ?? 0) + " of " + formatFileSize(sizeAvailable):
-						formatFileSize(sizeAvailable) + " • Click to download"}
-				</span>
+				<span className={stylesAttachment.descriptionSecondary}>{statusDisplay}</span>
 			</div>
+			{isDownloading && <div className={stylesAttachment.controls}>
+				<IconButton size="small" color="inherit" onClick={togglePause} title={downloadState === "paused" ? "Resume" : "Pause"}>
+					{downloadState === "paused" ? <PlayArrowRoundedIcon fontSize="small" /> : <PauseRoundedIcon fontSize="small" />}
+				</IconButton>
+				<IconButton size="small" color="inherit" onClick={cancelDownload} title="Cancel">
+					<CloseRoundedIcon fontSize="small" />
+				</IconButton>
+			</div>}
 		</DecorativeMessageBubble>
 	);
 }
@@ -98,5 +160,7 @@ function errorCodeToMessage(error: AttachmentRequestErrorCode): string {
 			return "No permission to read file";
 		case AttachmentRequestErrorCode.ServerIO:
 			return "Failed to read file";
+		case AttachmentRequestErrorCode.Cancelled:
+			return "Download cancelled";
 	}
 }
\ No newline at end of file
@@ -10,7 +10,7 @@ import {downloadURL} from "../../../../util/browserUtils";
 import {DecorativeMessageBubble, MessagePartProps} from "../item/Message";
 import {StickerItem, TapbackItem} from "../../../../data/blocks";
 
-export default function MessageAttachmentImage(props: {data: ArrayBuffer | Blob, name: string, type: string, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[]}) {
+export default function MessageAttachmentImage(props: {data: ArrayBuffer | Blob, name: string, type: string, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[], onTapbackRequest?: (anchor: HTMLElement) => void}) {
 	const [imageURL, setImageURL] = useState<string | undefined>(undefined);
 	const [previewOpen, setPreviewOpen] = useState(false);
 	
@@ -67,7 +67,7 @@ export default function MessageAttachmentImage(props: {data: ArrayBuffer | Blob,
 				</Backdrop>
 			</ThemeProvider>
 			
-			<DecorativeMessageBubble element={ButtonBase} className={styles.contentBubble} style={props.partProps} onClick={() => setPreviewOpen(true)} tapbacks={props.tapbacks} stickers={props.stickers}>
+			<DecorativeMessageBubble element={ButtonBase} className={styles.contentBubble} style={props.partProps} onClick={() => setPreviewOpen(true)} tapbacks={props.tapbacks} stickers={props.stickers} onTapbackRequest={props.onTapbackRequest}>
 				<img src={imageURL} style={{borderRadius: props.partProps.borderRadius}} alt="" />
 			</DecorativeMessageBubble>
 			
@@ -1,32 +1,37 @@
-import React, {CSSProperties, useEffect, useState} from "react";
+import React, {CSSProperties, useEffect, useRef, useState} from "react";
 import styles from "./Message.module.css";
 
 import * as Blocks from "../../../../data/blocks";
 import {StickerItem, TapbackItem} from "../../../../data/blocks";
 import {useTheme} from "@material-ui/core/styles";
 import {
-	Avatar, Button,
+	Avatar, Button, ButtonBase,
 	CircularProgress,
 	Dialog, DialogActions, DialogContent,
 	DialogContentText,
 	DialogTitle,
 	IconButton,
+	Link,
 	Typography
 } from "@material-ui/core";
 import {getDeliveryStatusTime, getTimeDivider} from "../../../../util/dateUtils";
 import {ContactData, findPerson} from "../../../../util/peopleUtils";
-import {MessageErrorCode, MessageStatusCode} from "../../../../data/stateCodes";
+import {MessageErrorCode, MessageStatusCode, TapbackType} from "../../../../data/stateCodes";
 import MessageAttachmentDownloadable from "../attachment/MessageAttachmentDownloadable";
 import MessageAttachmentImage from "../attachment/MessageAttachmentImage";
 import {downloadArrayBuffer, downloadBlob} from "../../../../util/browserUtils";
 import {AlignSelfProperty, BorderRadiusProperty, ColorProperty, MarginTopProperty, OpacityProperty} from "csstype";
 import ErrorRoundedIcon from "@material-ui/icons/ErrorRounded";
+import ScheduleRoundedIcon from "@material-ui/icons/ScheduleRounded";
+import EmojiEmotionsOutlinedIcon from "@material-ui/icons/EmojiEmotionsOutlined";
 import MessageModifierTapbackRow from "../modifier/MessageModifierTapbackRow";
 import MessageModifierStickerStack from "../modifier/MessageModifierStickerStack";
 import {colorFromContact} from "../../../../util/avatarUtils";
 import {Anchorme} from "react-anchorme";
 import {PaletteColor} from "@material-ui/core/styles/createPalette";
 import {appleServiceAppleMessage} from "../../../../data/appleConstants";
+import TapbackPicker from "./TapbackPicker";
+import {mimeTypeToPreview} from "../../../../util/conversationUtils";
 
 const radiusLinked = "4px";
 const radiusUnlinked = "16px";
@@ -37,6 +42,9 @@ const marginUnlinked = "8px";
 const opacityUnconfirmed = 0.5;
 const opacityConfirmed = 1;
 
+//How long a message part has to be held on a touch screen to react to it
+const longPressMillis = 500;
+
 //A message's position in the thread in accordance with other nearby messages
 export interface MessageFlow {
 	anchorTop: boolean;
@@ -60,12 +68,19 @@ interface Props {
 	service: string;
 	flow: MessageFlow;
 	showStatus?: boolean;
+	onTapback?: (messageIndex: number, tapbackType: TapbackType) => void; //Reacts to a part of this message, if the server supports it
+	replyTargetMessage?: Blocks.MessageItem; //The message this message replies to, if it is loaded
+	onReplyTargetClick?: () => void; //Jumps to the message this message replies to
+	replyCount?: number; //The number of loaded replies to this message
+	onRepliesClick?: () => void; //Shows only this message's reply thread
+	highlight?: boolean; //Whether to draw attention to this message, after it has been jumped to
 }
 
 export default function Message(props: Props) {
 	//State
 	const [attachmentDataArray, setAttachmentDataArray] = useState<ArrayBuffer[]>([]);
 	const [dialogOpen, setDialogOpen] = useState<"error" | "rawError" | undefined>(undefined);
+	const [tapbackTarget, setTapbackTarget] = useState<{index: number, anchor: HTMLElement} | undefined>(undefined);
 	
 	function closeDialog() {
 		setDialogOpen(undefined);
@@ -115,6 +130,20 @@ export default function Message(props: Props) {
 		return accumulator;
 	}, {});
 	
+	//Letting the user react to each message part
+	const propsOnTapback = props.onTapback;
+	function getTapbackRequestHandler(index: number): ((anchor: HTMLElement) => void) | undefined {
+		if(!propsOnTapback) return undefined;
+		return (anchor) => setTapbackTarget({index: index, anchor: anchor});
+	}
+	
+	function selectTapback(tapbackType: TapbackType) {
+		if(tapbackTarget) propsOnTapback?.(tapbackTarget.index, tapbackType);
+		setTapbackTarget(undefined);
+	}
+	
+	const selectedTapback = tapbackTarget && props.message.tapbacks.find((tapback) => tapback.sender === undefined && tapback.messageIndex === tapbackTarget.index)?.tapbackType;
+	
 	//Adding the message text
 	const components: React.ReactNode[] = [];
 	if(props.message.text) {
@@ -124,7 +153,7 @@ export default function Message(props: Props) {
 			marginTop: 0
 		} as MessagePartProps;
 		
-		const component = <MessageBubble key="messagetext" text={props.message.text!} index={0} partProps={partProps} stickers={stickerGroups[0]} tapbacks={tapbackGroups[0]} />;
+		const component = <MessageBubble key="messagetext" text={props.message.text!} index={0} partProps={partProps} stickers={stickerGroups[0]} tapbacks={tapbackGroups[0]} onTapbackRequest={getTapbackRequestHandler(0)} />;
 		
 		components.push(component);
 	}
@@ -172,7 +201,7 @@ export default function Message(props: Props) {
 			};
 			
 			if(attachment.type.startsWith("image/")) {
-				components.push(<MessageAttachmentImage key={attachment.guid ?? attachment.localID} data={attachmentData} name={attachment.name} type={attachment.type} partProps={imagePartProps} stickers={stickerGroups[index]} tapbacks={tapbackGroups[index]} />);
+				components.push(<MessageAttachmentImage key={attachment.guid ?? attachment.localID} data={attachmentData} name={attachment.name} type={attachment.type} partProps={imagePartProps} stickers={stickerGroups[index]} tapbacks={tapbackGroups[index]} onTapbackRequest={getTapbackRequestHandler(index)} />);
 			}
 		} else {
 			//Adding a generic download attachment
@@ -185,9 +214,11 @@ export default function Message(props: Props) {
 				guid={attachment.guid!}
 				onDataAvailable={(data) => onAttachmentData(i, !isAttachmentPreviewable(attachment.type), data)}
 				onDataClicked={(data) => downloadData(i, data)}
+				isPreviewable={isAttachmentPreviewable(attachment.type)}
 				partProps={partProps}
 				stickers={stickerGroups[index]}
-				tapbacks={tapbackGroups[index]} />);
+				tapbacks={tapbackGroups[index]}
+				onTapbackRequest={getTapbackRequestHandler(index)} />);
 		}
 	}
 	
@@ -206,15 +237,18 @@ export default function Message(props: Props) {
 	
 	//Building and returning the component
 	return (
-		<div className={styles.message} style={messageStyle}>
+		<div className={styles.message + (props.highlight ? " " + styles.highlight : "")} style={messageStyle} data-message-guid={props.message.guid}>
 			{props.flow.showDivider && <Typography className={styles.separator} variant="body2" color="textSecondary">{getTimeDivider(props.message.date)}</Typography>}
 			{displaySender && <Typography className={styles.labelSender} variant="caption" color="textSecondary">{contactData?.name ?? props.message.sender}</Typography>}
+			{props.message.replyTarget && <ReplyPreview target={props.replyTargetMessage} messageIndex={props.message.replyTarget.messageIndex} isOutgoing={isOutgoing} onClick={props.onReplyTargetClick} />}
 			<div className={styles.messageSplit}>
 				{<Avatar className={styles.avatar} src={contactData?.avatar} style={displayAvatar ? {visibility: "visible", backgroundColor: colorFromContact(props.message.sender ?? "")} : {visibility: "hidden"}} />}
 				<div className={styles.messageParts}>
 					{components}
 				</div>
-				{props.message.progress && !props.message.error && <CircularProgress className={styles.messageProgress} size={24} variant={props.message.progress === -1 ? "indeterminate" : "determinate"} value={props.message.progress} />}
+				<TapbackPicker anchorElement={tapbackTarget?.anchor ?? null} selected={selectedTapback} onSelect={selectTapback} onClose={() => setTapbackTarget(undefined)} />
+				{props.message.queued && !props.message.error && <ScheduleRoundedIcon className={styles.messageQueued} color="disabled" titleAccess="Waiting for connection" />}
+				{props.message.progress && !props.message.error && !props.message.queued && <CircularProgress className={styles.messageProgress} size={24} variant={props.message.progress === -1 ? "indeterminate" : "determinate"} value={props.message.progress} />}
 				{props.message.error && <IconButton className={styles.messageError} style={{color: theme.palette.error.main}} size="small" onClick={openDialogError}>
 					<ErrorRoundedIcon />
 				</IconButton>}
@@ -251,15 +285,36 @@ export default function Message(props: Props) {
 					</React.Fragment>}
 				</Dialog>
 			</div>
+			{props.replyCount !== undefined && props.replyCount > 0 && <Link className={isOutgoing ? styles.labelRepliesOutgoing : styles.labelRepliesIncoming} component="button" variant="caption" onClick={props.onRepliesClick}>
+				{props.replyCount === 1 ? "1 reply" : `${props.replyCount} replies`}
+			</Link>}
 			{props.showStatus && <Typography className={styles.labelStatus} variant="caption" color="textSecondary">{getStatusString(props.message)}</Typography>}
 		</div>
 	);
 }
 
+/**
+ * A quote of the message part that a message replies to
+ * @param props.target The message that was replied to, or undefined if it isn't loaded
+ * @param props.messageIndex The index of the message part that was replied to
+ * @param props.onClick A callback for when the quote is clicked, to jump to the original message
+ */
+function ReplyPreview(props: {target: Blocks.MessageItem | undefined, messageIndex: number, isOutgoing: boolean, onClick?: () => void}) {
+	const preview = props.target ? getMessagePartPreview(props.target, props.messageIndex) : undefined;
+	
+	return (
+		<ButtonBase className={`${styles.replyPreview} ${props.isOutgoing ? styles.replyPreviewOutgoing : styles.replyPreviewIncoming}`} disabled={!props.onClick} onClick={props.onClick}>
+			<Typography className={styles.replyPreviewText} variant="body2" color="textSecondary">
+				{preview ?? "Original message not loaded"}
+			</Typography>
+		</ButtonBase>
+	);
+}
+
 //A standard message bubble with text
-function MessageBubble(props: {text: string, index: number, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[]}) {
+function MessageBubble(props: {text: string, index: number, partProps: MessagePartProps, tapbacks?: TapbackItem[], stickers?: StickerItem[], onTapbackRequest?: (anchor: HTMLElement) => void}) {
 	return (
-		<DecorativeMessageBubble element="div" className={styles.textBubble} style={props.partProps} tapbacks={props.tapbacks} stickers={props.stickers}>
+		<DecorativeMessageBubble element="div" className={styles.textBubble} style={props.partProps} tapbacks={props.tapbacks} stickers={props.stickers} onTapbackRequest={props.onTapbackRequest}>
 			<Anchorme target="_blank">{props.text}</Anchorme>
 		</DecorativeMessageBubble>
 	);
@@ -271,10 +326,15 @@ function MessageBubble(props: {text: string, index: number, partProps: MessagePa
 	</div> */
 }
 
-export function DecorativeMessageBubble(props: {element: React.ElementType, className?: string, style?: React.CSSProperties, tapbacks?: TapbackItem[], stickers?: StickerItem[], children: React.ReactNode, [x: string]: any}) {
-	const {className, style, tapbacks, stickers, children, ...rest} = props;
+/**
+ * A message bubble that displays stickers and tapbacks
+ * @param props.onTapbackRequest A callback for when the user wants to react to this bubble, with the element to show the tapback picker on
+ */
+export function DecorativeMessageBubble(props: {element: React.ElementType, className?: string, style?: React.CSSProperties, tapbacks?: TapbackItem[], stickers?: StickerItem[], onTapbackRequest?: (anchor: HTMLElement) => void, children: React.ReactNode, [x: string]: any}) {
+	const {className, style, tapbacks, stickers, onTapbackRequest, children, ...rest} = props;
 	
 	const [isPeeking, setPeeking] = useState(false);
+	const elementRef = useRef<HTMLElement>(null);
 	
 	function enablePeeking() {
 		setPeeking(true);
@@ -284,11 +344,50 @@ export function DecorativeMessageBubble(props: {element: React.ElementType, clas
 		setPeeking(false);
 	}
 	
+	function requestTapback(event: React.MouseEvent) {
+		//Keeping the click from reaching the bubble, which may be a button itself
+		event.stopPropagation();
+		onTapbackRequest?.(elementRef.current!);
+	}
+	
+	//Opening the tapback picker when the bubble is held down on touch screens
+	const longPressTimeoutRef = useRef<any | undefined>(undefined);
+	const longPressedRef = useRef(false);
+	function startLongPress() {
+		if(!onTapbackRequest) return;
+		
+		longPressedRef.current = false;
+		longPressTimeoutRef.current = setTimeout(() => {
+			longPressedRef.current = true;
+			onTapbackRequest(elementRef.current!);
+		}, longPressMillis);
+	}
+	
+	function cancelLongPress() {
+		clearTimeout(longPressTimeoutRef.current);
+		longPressTimeoutRef.current = undefined;
+	}
+	
+	function endLongPress(event: React.TouchEvent) {
+		cancelLongPress();
+		
+		//Keeping the bubble from being clicked when the tapback picker was opened
+		if(longPressedRef.current) event.preventDefault();
+	}
+	
+	useEffect(() => cancelLongPress, []);
+	
+	//The reaction button is shown on the side of the bubble that faces the middle of the thread
+	const isOutgoing = props.style?.alignSelf === "flex-end";
+	
 	return (
-		<props.element className={(props.className ?? "") + (props.tapbacks ? " " + styles.tapbackMargin : "")} style={props.style} onMouseEnter={enablePeeking} onMouseLeave={disablePeeking} {...rest}>
+		<props.element ref={elementRef} className={(props.className ?? "") + (props.tapbacks ? " " + styles.tapbackMargin : "")} style={props.style} onMouseEnter={enablePeeking} onMouseLeave={disablePeeking} onTouchStart={startLongPress} onTouchMove={cancelLongPress} onTouchEnd={endLongPress} {...rest}>
 			{props.stickers && <MessageModifierStickerStack modifiers={props.stickers} reveal={isPeeking} />}
 			{props.tapbacks && <MessageModifierTapbackRow modifiers={props.tapbacks} />}
 			{props.children}
+			{onTapbackRequest && isPeeking && <IconButton component="span" className={`${styles.tapbackButton} ${isOutgoing ? styles.tapbackButtonOutgoing : styles.tapbackButtonIncoming}`} size="small" title="React" onClick={requestTapback}>
+				<EmojiEmotionsOutlinedIcon fontSize="small" />
+			</IconButton>}
 		</props.element>
 	);
 }
@@ -304,6 +403,17 @@ function getBorderRadius(anchorTop: boolean, anchorBottom: boolean, isOutgoing:
 	}
 }
 
+//Gets a short description of a part of a message, where the text comes first, followed by each attachment
+function getMessagePartPreview(message: Blocks.MessageItem, messageIndex: number): string | undefined {
+	if(message.text) {
+		if(messageIndex === 0) return message.text;
+		messageIndex--;
+	}
+	
+	const attachment = message.attachments[messageIndex];
+	return attachment && mimeTypeToPreview(attachment.type);
+}
+
 function getStatusString(message: Blocks.MessageItem): string | undefined {
 	if(message.status === MessageStatusCode.Delivered) {
 		return "Delivered";
@@ -331,6 +441,10 @@ function messageErrorToUserString(error: MessageErrorCode): string {
 			return "Couldn't connect to AirMessage server";
 		case MessageErrorCode.LocalInternalError:
 			return "An internal error occurred";
+		case MessageErrorCode.LocalCancelled:
+			return "This request was cancelled";
+		case MessageErrorCode.LocalUnconfirmed:
+			return "This message may not have been sent";
 		case MessageErrorCode.ServerUnknown:
 			return "An unknown external error occurred";
 		case MessageErrorCode.ServerExternal:
@@ -0,0 +1,41 @@
+import React from "react";
+import styles from "./TapbackPicker.module.css";
+import {IconButton, Popover} from "@material-ui/core";
+import {TapbackType} from "../../../../data/stateCodes";
+import {TapbackIcon} from "../modifier/MessageModifierTapbackRow";
+
+const tapbackTypes: {type: TapbackType, label: string}[] = [
+	{type: TapbackType.Love, label: "Love"},
+	{type: TapbackType.Like, label: "Like"},
+	{type: TapbackType.Dislike, label: "Dislike"},
+	{type: TapbackType.Laugh, label: "Laugh"},
+	{type: TapbackType.Emphasis, label: "Emphasize"},
+	{type: TapbackType.Question, label: "Question"}
+];
+
+/**
+ * A popup that lets the user react to a message part with a tapback
+ * @param props.anchorElement The message part to show the picker above, or null to hide the picker
+ * @param props.selected The tapback that the user has already left on the message part, which is removed if picked again
+ * @param props.onSelect A callback for when the user picks a tapback
+ */
+export default function TapbackPicker(props: {anchorElement: HTMLElement | null, selected?: TapbackType, onSelect: (type: TapbackType) => void, onClose: VoidFunction}) {
+	return (
+		<Popover
+			open={props.anchorElement !== null}
+			anchorEl={props.anchorElement}
+			onClose={props.onClose}
+			anchorOrigin={{vertical: "top", horizontal: "center"}}
+			transformOrigin={{vertical: "bottom", horizontal: "center"}}
+			classes={{paper: styles.picker}}>
+			{tapbackTypes.map(({type, label}) => (
+				<IconButton key={type} size="small" aria-label={label} title={label}
+							color={props.selected === type ? "primary" : "default"}
+							className={props.selected === type ? styles.selected : undefined}
+							onClick={() => props.onSelect(type)}>
+					<TapbackIcon type={type} />
+				</IconButton>
+			))}
+		</Popover>
+	);
+}
\ No newline at end of file
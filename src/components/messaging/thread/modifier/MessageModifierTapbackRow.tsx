@@ -1,4 +1,4 @@
-import React from "react";
+import React, {CSSProperties} from "react";
 import styles from "./MessageModifierTapbackRow.module.css";
 
 import {TapbackItem} from "../../../../data/blocks";
@@ -32,32 +32,30 @@ function MessageModifierTapback(props: {type: TapbackType, count: number}) {
 	const theme = useTheme();
 	const iconColor = theme.palette.text.secondary;
 	
-	let icon: JSX.Element;
+	return (
+		<div className={styles.tapback} style={{backgroundColor: theme.palette.messageIncoming.main, borderColor: theme.palette.background.default}}>
+			<TapbackIcon type={props.type} className={styles.icon} style={{color: iconColor}} />
+			{props.count > 1 && <span className={styles.label} style={{color: iconColor}}>{props.count}</span>}
+		</div>
+	);
+}
+
+/**
+ * The icon for a type of tapback
+ */
+export function TapbackIcon(props: {type: TapbackType, className?: string, style?: CSSProperties}) {
 	switch(props.type) {
 		case TapbackType.Love:
-			icon = <TapbackLoveIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackLoveIcon className={props.className} style={props.style} />;
 		case TapbackType.Like:
-			icon = <TapbackLikeIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackLikeIcon className={props.className} style={props.style} />;
 		case TapbackType.Dislike:
-			icon = <TapbackDislikeIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackDislikeIcon className={props.className} style={props.style} />;
 		case TapbackType.Laugh:
-			icon = <TapbackLaughIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackLaughIcon className={props.className} style={props.style} />;
 		case TapbackType.Emphasis:
-			icon = <TapbackEmphasisIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackEmphasisIcon className={props.className} style={props.style} />;
 		case TapbackType.Question:
-			icon = <TapbackQuestionIcon className={styles.icon} style={{color: iconColor}} />;
-			break;
+			return <TapbackQuestionIcon className={props.className} style={props.style} />;
 	}
-	
-	return (
-		<div className={styles.tapback} style={{backgroundColor: theme.palette.messageIncoming.main, borderColor: theme.palette.background.default}}>
-			{icon}
-			{props.count > 1 && <span className={styles.label} style={{color: iconColor}}>{props.count}</span>}
-		</div>
-	);
 }
\ No newline at end of file
@@ -0,0 +1,1237 @@
+import DataProxyImpl from "platform-components/connection/dataProxy";
+import DataProxyLoopback from "./loopback/dataProxyLoopback";
+import DataProxyRecorder from "./capture/dataProxyRecorder";
+import DataProxyReplay from "./capture/dataProxyReplay";
+import {PacketCapture} from "./capture/packetCapture";
+import CommunicationsManager, {CommunicationsManagerListener} from "./communicationsManager";
+import ClientComm5 from "./comm5/clientComm5";
+import DataProxy from "./dataProxy";
+import * as Blocks from "../data/blocks";
+import {Conversation, ConversationItem, MassRetrievalParams, MessageModifier} from "../data/blocks";
+import {
+	AttachmentRequestErrorCode,
+	ConnectionErrorCode,
+	CreateChatErrorCode,
+	MassRetrievalErrorCode,
+	MessageError,
+	MessageErrorCode,
+	TapbackType
+} from "../data/stateCodes";
+import EventEmitter from "../util/eventEmitter";
+import ProgressPromise from "../util/progressPromise";
+import {TransferAccumulator} from "./transferAccumulator";
+import RequestRegistry, {RequestIDAllocator} from "./requestRegistry";
+import MessageStore, {OutboxClaim} from "./messageStore";
+import {clearAttachmentCache} from "../util/attachmentCache";
+import {isCryptoPasswordSet, setCryptoPassword} from "shared/util/encryptionUtils";
+import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import {clearSavedServerIdentity, getSavedServerIdentity, saveServerIdentity, ServerIdentity} from "../util/serverIdentityUtils";
+import {OutboxSyncResult, takeOutboxSyncResults} from "./outboxSync";
+import {cancelOutboxSync, requestOutboxSync} from "platform-components/connection/outboxSync";
+import {v4 as uuidv4} from "uuid";
+
+//How long to wait before reconnecting when disconnected
+//The delay doubles with every failed passive reconnection, and is reset when the connection opens or the user reconnects manually
+const reconnectDelayInitial = 4 * 1000;
+const reconnectDelayMax = 5 * 60 * 1000;
+const reconnectDelayJitter = 0.5; //Up to this fraction of the delay is randomized, so that clients don't all reconnect at once
+const requestTimeoutMillis = 10 * 1000;
+const massRetrievalTimeoutMillis = 2 * 60 * 1000; //The server may take a while to gather data between packets
+
+//How often to check that the server is still responding
+const pingIntervalMillis = 20 * 1000;
+const pingMissLimit = 2; //The number of consecutive unanswered pings before the connection is considered dead
+
+type ConnectionState = "disconnected" | "connecting" | "connected";
+
+//Communications manager constructor shape
+interface CreatesCommunicationsManager {
+	new(dataProxy: DataProxy): CommunicationsManager
+}
+
+const communicationsPriorityList: ReadonlyArray<CreatesCommunicationsManager> = [ClientComm5];
+
+export interface ConnectionListener {
+	onConnecting: () => void;
+	onOpen: () => void;
+	onClose: (reason: ConnectionErrorCode) => void;
+}
+
+export interface FileDownloadProgress {
+	type: "size" | "downloaded";
+	value: number;
+}
+
+interface FileDownloadState {
+	accumulator?: TransferAccumulator;
+}
+
+interface MassRetrievalFileState {
+	name: string;
+	accumulator: TransferAccumulator;
+	nextIndex: number;
+}
+
+class MassRetrievalState {
+	private isStarted = false;
+	private nextResponseIndex = 1; //Response 0 is the conversation list
+	private messagesReceived = 0;
+	private readonly fileStateMap: Map<string, MassRetrievalFileState> = new Map();
+	private filesFinished: Promise<void> = Promise.resolve(); //Settles once all completed files have been decompressed
+	
+	public start() {
+		this.isStarted = true;
+	}
+	
+	/**
+	 * Adds a page of messages to this retrieval
+	 * @return The total number of messages received, or undefined if the page was received out of order
+	 */
+	public appendMessages(responseIndex: number, items: ConversationItem[]): number | undefined {
+		if(!this.isStarted || responseIndex !== this.nextResponseIndex) return undefined;
+		this.nextResponseIndex++;
+		this.messagesReceived += items.length;
+		
+		return this.messagesReceived;
+	}
+	
+	public startFile(fileGUID: string, fileName: string, accumulator: TransferAccumulator) {
+		this.fileStateMap.set(fileGUID, {name: fileName, accumulator: accumulator, nextIndex: 0});
+	}
+	
+	/**
+	 * Adds a chunk of file data to this retrieval
+	 * @return FALSE if the chunk was received out of order
+	 */
+	public appendFileData(responseIndex: number, fileGUID: string, data: ArrayBuffer): boolean {
+		const fileState = this.fileStateMap.get(fileGUID);
+		if(!fileState || responseIndex !== fileState.nextIndex) return false;
+		fileState.accumulator.push(data);
+		fileState.nextIndex++;
+		
+		return true;
+	}
+	
+	/**
+	 * Finishes receiving a file
+	 * @return A promise for the completed file's name and data, or undefined if the file was never started
+	 */
+	public completeFile(fileGUID: string): Promise<[string, ArrayBuffer]> | undefined {
+		const fileState = this.fileStateMap.get(fileGUID);
+		if(!fileState) return undefined;
+		this.fileStateMap.delete(fileGUID);
+		
+		const file = fileState.accumulator.finish().then((data): [string, ArrayBuffer] => [fileState.name, data]);
+		this.filesFinished = this.filesFinished.then(() => file.then(() => undefined, () => undefined));
+		return file;
+	}
+	
+	/**
+	 * Waits for all completed files to finish decompressing, whether or not they succeed
+	 */
+	public waitForFiles(): Promise<void> {
+		return this.filesFinished;
+	}
+	
+	/**
+	 * Discards all files that haven't been completed, such as when the retrieval fails
+	 */
+	public dispose() {
+		for(const fileState of this.fileStateMap.values()) fileState.accumulator.dispose();
+		this.fileStateMap.clear();
+	}
+}
+
+export type MassRetrievalProgress = {
+	type: "start";
+	conversations: Conversation[];
+	messageCount: number;
+} | {
+	type: "messages";
+	items: ConversationItem[];
+	messagesReceived: number;
+} | {
+	type: "file";
+	guid: string;
+	name: string;
+	data: ArrayBuffer;
+};
+
+//Common promise responses
+const messageErrorNetwork: MessageError = {code: MessageErrorCode.LocalNetwork};
+const messageErrorCancelled: MessageError = {code: MessageErrorCode.LocalCancelled};
+const messageErrorUnconfirmed: MessageError = {code: MessageErrorCode.LocalUnconfirmed};
+
+//How long to wait before trying again to send a message that the service worker is sending
+const outboxClaimRetryMillis = 10 * 1000;
+
+const messageRequestOptions = {timeout: requestTimeoutMillis, timeoutReason: messageErrorNetwork, cancelReason: messageErrorCancelled};
+
+interface ThreadKey {
+	chatGUID: string;
+	firstMessageID?: number;
+}
+
+interface ProgressPromiseExecutor<T, P> {
+	resolve: (value: T | PromiseLike<T>) => void;
+	reject: (reason?: any) => void;
+	progress: (progress: P) => void;
+}
+
+/**
+ * An outgoing message that is waiting for a connection to the server
+ */
+export interface QueuedMessage {
+	readonly chatGUID: string;
+	readonly date: Date;
+	readonly text?: string;
+	readonly file?: File;
+	readonly promise: ProgressPromise<any, string | number>; //Resolves once the message has been sent
+}
+interface OutboxItem {
+	readonly message: QueuedMessage;
+	readonly promise: ProgressPromiseExecutor<any, string | number>;
+	readonly storeID: Promise<number | undefined>; //The key of this item in the message store, if it could be saved
+	inFlight: boolean; //Whether this item has been handed to the server, and may have been received even if no response arrives
+}
+
+export interface ConnectionHealth {
+	latency?: number; //The round-trip time of the last answered ping, in milliseconds
+	lastSeen?: Date; //The last time the client received a message from the server
+}
+
+/**
+ * A direct connection that reached a different server than the one the account last connected to
+ */
+export interface ServerSwap {
+	accountID: string;
+	previous: ServerIdentity;
+	current: ServerIdentity;
+}
+
+/**
+ * The connection to a single account's server, along with its requests, outbox and stored messages
+ *
+ * Every account has its own connection, so that accounts can stay connected at the same time
+ */
+export default class AccountConnection {
+	//Server information
+	private serverIdentity: ServerIdentity | undefined;
+	private pendingServerSwap: ServerSwap | undefined; //A server swap the user hasn't accepted yet, during which queued messages are held
+	private activeAddress: string | undefined; //The address the current connection was made through
+	
+	//Connection values
+	private reconnectTimeoutID: any | undefined;
+	private reconnectAttempt = 0; //The number of passive reconnections since the last successful connection or manual reconnection
+	private reconnectTime: Date | undefined = undefined; //The time the next passive reconnection is scheduled for
+	
+	private communicationsManager: CommunicationsManager | null = null;
+	private dataProxy: DataProxy = WPEnv.LOOPBACK ? new DataProxyLoopback() : new DataProxyImpl(); //Builds made with --env loopback connect to a simulated server
+	
+	//Config values
+	private disableAutomaticReconnections = false;
+	
+	//Listener values
+	private readonly connectionListenerArray: ConnectionListener[] = [];
+	
+	//Requests waiting for a response from the server
+	private readonly liteConversationRequests = new RequestRegistry<void, Blocks.Conversation[]>(messageRequestOptions); //Retrieval of all lite conversations
+	private readonly conversationDetailsRequests = new RequestRegistry<string, [string, Conversation | undefined][]>(messageRequestOptions); //Retrieval of a specific conversation's details, keyed by the requested chat GUIDs
+	private readonly threadRequests = new RequestRegistry<string, Blocks.ConversationItem[]>(messageRequestOptions); //Retrieval of messages from a thread, keyed by ThreadKey
+	private readonly messageSendRequests = new RequestRegistry<number, any, string | number>(messageRequestOptions); //Response from sending a message
+	private readonly chatCreateRequests = new RequestRegistry<number, string>({ //Response from creating a chat
+		timeout: requestTimeoutMillis,
+		timeoutReason: [CreateChatErrorCode.Network, undefined],
+		cancelReason: [CreateChatErrorCode.Cancelled, undefined]
+	});
+	private readonly fileDownloadRequests = new RequestRegistry<number, ArrayBuffer, FileDownloadProgress, FileDownloadState>({ //Attachment data retrieval
+		timeout: requestTimeoutMillis,
+		timeoutReason: AttachmentRequestErrorCode.Timeout,
+		cancelReason: AttachmentRequestErrorCode.Cancelled
+	});
+	private readonly massRetrievalRequests = new RequestRegistry<number, void, MassRetrievalProgress, MassRetrievalState>({ //Retrieval of all messages
+		timeout: massRetrievalTimeoutMillis,
+		timeoutReason: MassRetrievalErrorCode.Timeout,
+		cancelReason: MassRetrievalErrorCode.Cancelled
+	});
+	private readonly requestIDAllocator = new RequestIDAllocator([this.messageSendRequests, this.chatCreateRequests, this.fileDownloadRequests, this.massRetrievalRequests]);
+	
+	//Outgoing messages
+	private readonly messageStore: MessageStore;
+	private readonly outboxQueue: OutboxItem[] = []; //Messages waiting to be sent, in order
+	private outboxDraining = false;
+	private readonly outboxLoadPromise: Promise<void>;
+	private readonly outboxOwnerID = uuidv4(); //Identifies this connection when claiming messages in the message store, which the service worker sends from as well
+	private outboxRetryTimeoutID: any | undefined;
+	
+	public readonly messageUpdateEmitter: EventEmitter<ConversationItem[]> = new EventEmitter();
+	public readonly modifierUpdateEmitter: EventEmitter<MessageModifier[]> = new EventEmitter();
+	public readonly connectionHealthEmitter: EventEmitter<ConnectionHealth> = new EventEmitter();
+	public readonly serverSwapEmitter: EventEmitter<ServerSwap> = new EventEmitter();
+	
+	//State values
+	private connState: ConnectionState = "disconnected";
+	private isConnectingPassively = false;
+	private isRestarting = false; //Whether the connection is being closed so that it can be opened again
+	private lastServerMessageID: number | undefined = undefined;
+	private lastConnectionUpdateTime: Date | undefined = undefined; //The last time the client received a message from the server
+	
+	//Heartbeat values
+	private pingIntervalID: any | undefined;
+	private pingSentTime: number | undefined = undefined; //The time the last unanswered ping was sent
+	private pingMissCount = 0;
+	private packetReceivedSincePing = false;
+	private lastLatency: number | undefined = undefined;
+	
+	constructor(public readonly accountID: string) {
+		this.messageStore = new MessageStore(accountID);
+		this.serverIdentity = getSavedServerIdentity(accountID);
+		
+		//Restoring messages queued in previous sessions
+		this.outboxLoadPromise = this.messageStore.loadOutbox().then((entries) => {
+			this.outboxQueue.unshift(...entries.map((entry) => this.createOutboxItem(entry.chatGuid, entry.date, entry.text, entry.file, Promise.resolve(entry.id), entry.inFlight ?? false)));
+			if(this.isConnected()) this.drainOutbox();
+		}).catch(console.warn);
+		
+		//Persisting updates to the local message store
+		this.messageUpdateEmitter.registerListener((items) => this.messageStore.saveItems(items).catch(console.warn));
+		this.modifierUpdateEmitter.registerListener((modifiers) => this.messageStore.saveModifiers(modifiers).catch(console.warn));
+	}
+	
+	/**
+	 * Gets the details of the server this account last connected to
+	 *
+	 * These are saved between sessions, unless the server is a different computer that the user hasn't accepted yet
+	 */
+	getServerIdentity(): ServerIdentity | undefined {
+		return this.serverIdentity;
+	}
+	
+	/**
+	 * Forgets the server this account last connected to, so that connecting to a different server isn't reported as a swap
+	 */
+	clearServerIdentity() {
+		this.serverIdentity = undefined;
+		this.pendingServerSwap = undefined;
+		clearSavedServerIdentity(this.accountID);
+	}
+	
+	/**
+	 * Accepts the different computer that a direct connection has reached, saving its identity and sending queued messages to it
+	 */
+	acceptServerSwap() {
+		const swap = this.pendingServerSwap;
+		if(!swap) return;
+		this.pendingServerSwap = undefined;
+		
+		saveServerIdentity(this.accountID, swap.current);
+		if(this.isConnected()) this.drainOutbox();
+	}
+	
+	/**
+	 * Gets the address the current connection was made through, if the server can be reached at more than one address
+	 */
+	getActiveAddress(): string | undefined {
+		return this.activeAddress;
+	}
+	
+	getServerSystemVersion(): string | undefined {
+		return this.serverIdentity?.systemVersion;
+	}
+	
+	getServerSoftwareVersion(): string | undefined {
+		return this.serverIdentity?.softwareVersion;
+	}
+	
+	setDataProxy(value: DataProxy) {
+		this.dataProxy = value;
+	}
+	
+	setDisableAutomaticReconnections(value: boolean) {
+		this.disableAutomaticReconnections = value;
+	}
+	
+	private readonly onOnline = () => {
+		//Reconnecting
+		this.connect();
+	};
+	
+	private readonly onOffline = () => {
+		//Disconnecting
+		this.disconnect();
+	};
+	
+	private readonly communicationsManagerListener: CommunicationsManagerListener = {
+		onOpen: (identity: ServerIdentity): void => {
+			//Resetting the reconnection delay
+			this.reconnectAttempt = 0;
+			this.isConnectingPassively = false;
+			
+			//Recording the address that was used, before listeners are notified
+			this.activeAddress = this.dataProxy.activeAddress;
+			
+			//Updating the state
+			this.updateStateConnected();
+			
+			//Recording the server information, comparing against the last server the user accepted
+			const previousIdentity = this.pendingServerSwap?.previous ?? this.serverIdentity;
+			this.serverIdentity = identity;
+			
+			//Warning the user if a direct connection has reached a different computer
+			//Connections through AirMessage Connect report this with ConnectionErrorCode.ConnectOtherLocation instead
+			if(this.dataProxy.isDirect && previousIdentity !== undefined && previousIdentity.installationID !== identity.installationID) {
+				//Holding queued messages and keeping the previous identity saved until the user accepts the new computer
+				this.pendingServerSwap = {accountID: this.accountID, previous: previousIdentity, current: identity};
+				this.serverSwapEmitter.notify(this.pendingServerSwap);
+			} else {
+				this.pendingServerSwap = undefined;
+				saveServerIdentity(this.accountID, identity);
+				
+				//Sending queued messages
+				this.drainOutbox();
+			}
+			
+			//Starting the heartbeat
+			this.startHeartbeat();
+			
+			//Listening for network events
+			window.addEventListener("online", this.onOnline);
+			window.addEventListener("offline", this.onOffline);
+		}, onClose: (reason: ConnectionErrorCode): void => {
+			this.activeAddress = undefined;
+			
+			//Failing all pending requests
+			this.liteConversationRequests.rejectAll(messageErrorNetwork);
+			this.conversationDetailsRequests.rejectAll(messageErrorNetwork);
+			this.threadRequests.rejectAll(messageErrorNetwork);
+			this.fileDownloadRequests.rejectAll(AttachmentRequestErrorCode.Timeout);
+			this.messageSendRequests.rejectAll(messageErrorNetwork);
+			this.chatCreateRequests.rejectAll([CreateChatErrorCode.Network, undefined]);
+			this.massRetrievalRequests.rejectAll(MassRetrievalErrorCode.Network);
+			
+			//Stopping the heartbeat
+			this.stopHeartbeat();
+			
+			//A passive connection that failed should not be brought to the foreground by the next call to connect()
+			this.isConnectingPassively = false;
+			
+			if(this.isRestarting) {
+				//Connecting again right away, since the connection was closed on purpose
+				this.isRestarting = false;
+				this.connect();
+			} else {
+				//Checking if the error is automatically recoverable
+				if((reason === ConnectionErrorCode.Connection || reason === ConnectionErrorCode.Internet) && !this.disableAutomaticReconnections) {
+					//Scheduling a passive reconnection (before notifying listeners, so that they can display the reconnection time)
+					const delay = getReconnectDelay(this.reconnectAttempt);
+					this.reconnectTime = new Date(Date.now() + delay);
+					this.reconnectTimeoutID = setTimeout(() => {
+						if(!this.disableAutomaticReconnections) {
+							this.connectPassive();
+						} else {
+							this.reconnectTimeoutID = undefined;
+							this.reconnectTime = undefined;
+						}
+					}, delay);
+				}
+				
+				//Updating the state
+				this.updateStateDisconnected(reason);
+			}
+			
+			//Removing the network event listeners
+			window.removeEventListener("online", this.onOnline);
+			window.removeEventListener("offline", this.onOffline);
+		}, onPacket: (): void => {
+			if(this.connState === "connected") {
+				//Recording the last connection update time
+				this.lastConnectionUpdateTime = new Date();
+				this.packetReceivedSincePing = true;
+			}
+		}, onPong: (): void => {
+			//Ignoring unsolicited pongs
+			if(this.pingSentTime === undefined) return;
+			
+			//Recording the latency
+			this.lastLatency = performance.now() - this.pingSentTime;
+			this.pingSentTime = undefined;
+			this.pingMissCount = 0;
+			
+			this.connectionHealthEmitter.notify(this.getConnectionHealth());
+		}, onMessageUpdate: (data: ConversationItem[]): void => {
+			//Notifying the listeners
+			this.messageUpdateEmitter.notify(data);
+		}, onConversationUpdate: (data: [string, Conversation | undefined][]): void => {
+			//Resolving pending requests
+			this.conversationDetailsRequests.resolve(data.map(data => data[0]).join(" "), data);
+		}, onModifierUpdate: (data: MessageModifier[]): void => {
+			//Notifying the listeners
+			this.modifierUpdateEmitter.notify(data);
+		}, onFileRequestStart: (requestID: number, dataLength: number, accumulator: TransferAccumulator): void => {
+			//Finding the local request
+			const state = this.fileDownloadRequests.getContext(requestID);
+			if(!state) {
+				accumulator.dispose();
+				return;
+			}
+			
+			//Setting the accumulator
+			state.accumulator = accumulator;
+			
+			//Updating the progress
+			this.fileDownloadRequests.progress(requestID, {type: "size", value: dataLength});
+		}, onFileRequestData: (requestID: number, data: ArrayBuffer): void => {
+			//Finding the local request
+			const accumulator = this.fileDownloadRequests.getContext(requestID)?.accumulator;
+			if(!accumulator) return;
+			
+			//Adding the data
+			accumulator.push(data);
+			
+			//Updating the progress
+			this.fileDownloadRequests.progress(requestID, {type: "downloaded", value: accumulator.offset});
+		}, onFileRequestComplete: (requestID: number): void => {
+			//Finding the local request
+			const accumulator = this.fileDownloadRequests.getContext(requestID)?.accumulator;
+			if(!accumulator) return;
+			
+			//Finishing the request once the data has been decompressed
+			accumulator.finish()
+				.then((data) => this.fileDownloadRequests.resolve(requestID, data))
+				.catch((error) => {
+					console.warn("Failed to decompress attachment", error);
+					this.fileDownloadRequests.reject(requestID, AttachmentRequestErrorCode.BadResponse);
+				});
+		}, onFileRequestFail: (requestID: number, error: AttachmentRequestErrorCode): void => {
+			//Failing the request
+			this.fileDownloadRequests.reject(requestID, error);
+		}, onIDUpdate: (messageID: number): void => {
+			//Recording the last message ID
+			this.lastServerMessageID = messageID;
+		}, onMassRetrievalStart: (requestID: number, conversations: Conversation[], messageCount: number): void => {
+			//Finding the local request
+			const state = this.massRetrievalRequests.getContext(requestID);
+			if(!state) return;
+			
+			state.start();
+			this.massRetrievalRequests.progress(requestID, {type: "start", conversations: conversations, messageCount: messageCount});
+		}, onMassRetrievalUpdate: (requestID: number, responseIndex: number, data: ConversationItem[]): void => {
+			//Finding the local request
+			const state = this.massRetrievalRequests.getContext(requestID);
+			if(!state) return;
+			
+			//Adding the messages
+			const messagesReceived = state.appendMessages(responseIndex, data);
+			if(messagesReceived !== undefined) {
+				this.massRetrievalRequests.progress(requestID, {type: "messages", items: data, messagesReceived: messagesReceived});
+			} else {
+				this.massRetrievalRequests.reject(requestID, MassRetrievalErrorCode.BadResponse);
+			}
+		}, onMassRetrievalComplete: (): void => {
+			//Finishing the request (the server doesn't say which request has finished, but only one can run at a time)
+			//Files that are still being decompressed are delivered first
+			for(const requestID of this.massRetrievalRequests.keys()) {
+				const state = this.massRetrievalRequests.getContext(requestID);
+				(state?.waitForFiles() ?? Promise.resolve()).then(() => this.massRetrievalRequests.resolve(requestID));
+			}
+		}, onMassRetrievalFileStart: (requestID: number, fileGUID: string, fileName: string, accumulator: TransferAccumulator): void => {
+			//Finding the local request
+			const state = this.massRetrievalRequests.getContext(requestID);
+			if(!state) {
+				accumulator.dispose();
+				return;
+			}
+			
+			state.startFile(fileGUID, fileName, accumulator);
+			this.massRetrievalRequests.refreshTimeout(requestID);
+		}, onMassRetrievalFileData: (requestID: number, responseIndex: number, fileGUID: string, data: ArrayBuffer): void => {
+			//Finding the local request
+			const state = this.massRetrievalRequests.getContext(requestID);
+			if(!state) return;
+			
+			//Adding the data
+			if(state.appendFileData(responseIndex, fileGUID, data)) {
+				this.massRetrievalRequests.refreshTimeout(requestID);
+			} else {
+				this.massRetrievalRequests.reject(requestID, MassRetrievalErrorCode.BadResponse);
+			}
+		}, onMassRetrievalFileComplete: (requestID: number, fileGUID: string): void => {
+			//Finding the local request
+			const file = this.massRetrievalRequests.getContext(requestID)?.completeFile(fileGUID);
+			if(!file) return;
+			
+			file
+				.then(([name, data]) => this.massRetrievalRequests.progress(requestID, {type: "file", guid: fileGUID, name: name, data: data}))
+				.catch((error) => {
+					console.warn("Failed to decompress file", error);
+					this.massRetrievalRequests.reject(requestID, MassRetrievalErrorCode.BadResponse);
+				});
+		},
+		onMessageConversations: (data: Conversation[]): void => {
+			//Resolving pending requests
+			this.liteConversationRequests.resolve(undefined, data);
+		}, onMessageThread: (chatGUID: string, firstMessageID: number | undefined, data: ConversationItem[]) => {
+			//Resolving pending requests
+			this.threadRequests.resolve(JSON.stringify({chatGUID: chatGUID, firstMessageID: firstMessageID} as ThreadKey), data);
+		}, onSendMessageResponse: (requestID: number, error: MessageError | undefined): void => {
+			//Resolving pending requests
+			if(error) this.messageSendRequests.reject(requestID, error);
+			else this.messageSendRequests.resolve(requestID, undefined);
+		}, onCreateChatResponse: (requestID: number, error: CreateChatErrorCode | undefined, details: string | undefined): void => {
+			//Resolving pending requests
+			if(error === undefined) {
+				if(details) {
+					this.chatCreateRequests.resolve(requestID, details);
+				} else {
+					this.chatCreateRequests.reject(requestID, [CreateChatErrorCode.Network, undefined]);
+				}
+			} else {
+				this.chatCreateRequests.reject(requestID, [error, details]);
+			}
+		}
+	};
+	
+	private updateStateDisconnected(reason: ConnectionErrorCode) {
+		this.connState = "disconnected";
+		for(const listener of this.connectionListenerArray) listener.onClose(reason);
+	}
+	
+	private updateStateConnecting() {
+		this.connState = "connecting";
+		for(const listener of this.connectionListenerArray) listener.onConnecting();
+	}
+	
+	private updateStateConnected() {
+		this.connState = "connected";
+		for(const listener of this.connectionListenerArray) listener.onOpen();
+	}
+	
+	async connect() {
+		//Load the password if it hasn't been loaded yet
+		if(!isCryptoPasswordSet(this.accountID)) {
+			try {
+				await setCryptoPassword(await getSecureLS(SecureStorageKey.ServerPassword, this.accountID), this.accountID);
+			} catch(error) {
+				console.warn(error);
+			}
+		}
+		
+		//Checking if a passive reconnection is in progress
+		if(this.isConnectingPassively) {
+			//Bringing the state from passive to the foreground
+			this.updateStateConnecting();
+			this.isConnectingPassively = false;
+			
+			return;
+		}
+		
+		//Cancelling the reconnect timeout if it's running
+		if(this.reconnectTimeoutID) {
+			clearTimeout(this.reconnectTimeoutID);
+			this.reconnectTimeoutID = undefined;
+			this.reconnectTime = undefined;
+		}
+		
+		//Resetting the reconnection delay
+		this.reconnectAttempt = 0;
+		
+		//Setting the state to connecting
+		this.updateStateConnecting();
+		
+		//Connecting from the top of the priority list
+		this.connectFromList(0);
+	}
+	
+	private connectPassive() {
+		//Recording the state
+		this.isConnectingPassively = true;
+		
+		//Clearing the timeout ID (this function can only be called when the timer expires)
+		this.reconnectTimeoutID = undefined;
+		this.reconnectTime = undefined;
+		
+		//Backing off further if this attempt fails
+		this.reconnectAttempt++;
+		
+		//Connecting from the top of the priority list
+		this.connectFromList(0);
+	}
+	
+	private connectFromList(index: number) {
+		this.dataProxy.accountID = this.accountID;
+		this.communicationsManager = new communicationsPriorityList[index](this.dataProxy);
+		this.communicationsManager.listener = this.communicationsManagerListener;
+		this.communicationsManager.connect();
+	}
+	
+	disconnect() {
+		this.communicationsManager?.disconnect(ConnectionErrorCode.Internet);
+	}
+	
+	/**
+	 * Disconnects and stops any scheduled reconnection, such as when this connection is no longer needed
+	 */
+	close() {
+		if(this.reconnectTimeoutID) {
+			clearTimeout(this.reconnectTimeoutID);
+			this.reconnectTimeoutID = undefined;
+			this.reconnectTime = undefined;
+		}
+		
+		this.disconnect();
+	}
+	
+	//Closes the connection if it is open, and connects again
+	private restartConnection() {
+		if(this.connState !== "disconnected" || this.isConnectingPassively) {
+			this.isRestarting = true;
+			this.communicationsManager?.disconnect(ConnectionErrorCode.Connection);
+		} else {
+			this.connect();
+		}
+	}
+	
+	/**
+	 * Starts recording the packets exchanged with the server
+	 *
+	 * The connection is restarted, so that the capture includes the handshake
+	 */
+	startPacketCapture() {
+		if(this.dataProxy instanceof DataProxyRecorder) return;
+		
+		this.dataProxy = new DataProxyRecorder(this.dataProxy);
+		this.restartConnection();
+	}
+	
+	/**
+	 * Stops recording packets
+	 *
+	 * The current connection stays open, and the next connection is made without the recorder
+	 * @return The packets recorded so far, or undefined if packets weren't being recorded
+	 */
+	stopPacketCapture(): PacketCapture | undefined {
+		if(!(this.dataProxy instanceof DataProxyRecorder)) return undefined;
+		
+		this.dataProxy.stopRecording();
+		const capture = this.dataProxy.capture;
+		this.dataProxy = this.dataProxy.proxy;
+		return capture;
+	}
+	
+	isPacketCaptureActive(): boolean {
+		return this.dataProxy instanceof DataProxyRecorder;
+	}
+	
+	/**
+	 * Replaces the connection to the server with a playback of a packet capture
+	 */
+	replayPacketCapture(capture: PacketCapture) {
+		this.dataProxy = new DataProxyReplay(capture);
+		this.restartConnection();
+	}
+	
+	/**
+	 * Gets the time the next automatic reconnection is scheduled for, or undefined if no reconnection is scheduled
+	 */
+	getReconnectTime(): Date | undefined {
+		return this.reconnectTime;
+	}
+	
+	isConnected(): boolean {
+		return this.connState === "connected";
+	}
+	
+	/**
+	 * Gets the latest latency measurement and the last time the server was heard from
+	 */
+	getConnectionHealth(): ConnectionHealth {
+		return {latency: this.lastLatency, lastSeen: this.lastConnectionUpdateTime};
+	}
+	
+	isDisconnected(): boolean {
+		return this.connState === "disconnected";
+	}
+	
+	/**
+	 * Sends a text message, or queues it to be sent once the server becomes available
+	 */
+	sendMessage(chatGUID: string, message: string): Promise<any> {
+		//Queuing the message if it can't be sent right away, or would be sent ahead of older messages
+		if(!this.canSendNow()) return this.queueMessage(chatGUID, message, undefined);
+		
+		return this.sendMessageNow(chatGUID, message);
+	}
+	
+	private sendMessageNow(chatGUID: string, message: string): Promise<any> {
+		//Recording the request
+		const requestID = this.requestIDAllocator.allocate();
+		const promise = this.messageSendRequests.add(requestID);
+		
+		//Sending the request
+		this.communicationsManager!.sendMessage(requestID, chatGUID, message);
+		
+		return promise;
+	}
+	
+	/**
+	 * Sends a file, or queues it to be sent once the server becomes available
+	 * The returned promise reports the file's checksum, followed by the number of bytes uploaded
+	 */
+	sendFile(chatGUID: string, file: File): ProgressPromise<any, string | number> {
+		//Queuing the file if it can't be sent right away, or would be sent ahead of older messages
+		if(!this.canSendNow()) return this.queueMessage(chatGUID, undefined, file);
+		
+		return this.sendFileNow(chatGUID, file);
+	}
+	
+	private sendFileNow(chatGUID: string, file: File): ProgressPromise<any, string | number> {
+		//Recording the request
+		const requestID = this.requestIDAllocator.allocate();
+		const promise = this.messageSendRequests.add(requestID);
+		
+		//Uploading the file (upload progress keeps the request from timing out, until the server's response is awaited)
+		this.communicationsManager!.sendFile(requestID, chatGUID, file, (bytesUploaded) => this.messageSendRequests.progress(requestID, bytesUploaded))
+			.then((checksum) => this.messageSendRequests.progress(requestID, checksum))
+			.catch((error) => this.messageSendRequests.reject(requestID, error));
+		
+		return promise;
+	}
+	
+	/**
+	 * Adds or removes a tapback on a message
+	 * The server confirms the tapback with a modifier update once it has been applied
+	 * @param chatGUID The GUID of the message's conversation
+	 * @param messageGUID The GUID of the message to react to
+	 * @param messageIndex The index of the message part to react to
+	 * @param tapbackType The type of tapback
+	 * @param isAddition Whether to add the tapback, or remove it
+	 */
+	sendTapback(chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): Promise<void> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return Promise.reject(messageErrorNetwork);
+		
+		//Recording the request
+		const requestID = this.requestIDAllocator.allocate();
+		const promise = this.messageSendRequests.add(requestID);
+		
+		//Sending the request
+		if(!this.communicationsManager!.sendTapback(requestID, chatGUID, messageGUID, messageIndex, tapbackType, isAddition)) {
+			this.messageSendRequests.reject(requestID, {code: MessageErrorCode.LocalInternalError} as MessageError);
+		}
+		
+		return promise;
+	}
+	
+	/**
+	 * Gets whether the connected server supports sending tapbacks
+	 *
+	 * No released server does, so this is only true for the loopback server in builds made with --env provisional
+	 */
+	canSendTapbacks(): boolean {
+		return this.isConnected() && (this.communicationsManager?.canSendTapbacks ?? false);
+	}
+	
+	/**
+	 * Fetches the user's conversations from the server
+	 * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+	 */
+	fetchConversations(signal?: AbortSignal): Promise<Blocks.Conversation[]> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return Promise.reject(messageErrorNetwork);
+		
+		//Recording the request
+		const promise = this.liteConversationRequests.add(undefined, signal);
+		
+		//Sending the request
+		if(!signal?.aborted) this.communicationsManager!.requestLiteConversations();
+		
+		return promise.then((conversations) => {
+			//Replacing the stored conversations
+			this.messageStore.saveConversations(conversations, true).catch(console.warn);
+			return conversations;
+		});
+	}
+	
+	/**
+	 * Fetches the details of specific conversations from the server
+	 * @param chatGUIDs The GUIDs of the conversations to fetch
+	 * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+	 */
+	fetchConversationInfo(chatGUIDs: string[], signal?: AbortSignal): Promise<[string, Conversation | undefined][]> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return Promise.reject(messageErrorNetwork);
+		
+		//Recording the request
+		const promise = this.conversationDetailsRequests.add(chatGUIDs.join(" "), signal);
+		
+		//Sending the request
+		if(!signal?.aborted) this.communicationsManager!.requestConversationInfo(chatGUIDs);
+		
+		return promise.then((result) => {
+			//Saving the available conversations
+			const conversations = result.map(([, conversation]) => conversation).filter((conversation): conversation is Conversation => conversation !== undefined);
+			this.messageStore.saveConversations(conversations, false).catch(console.warn);
+			return result;
+		});
+	}
+	
+	/**
+	 * Fetches a page of messages from a conversation
+	 * @param chatGUID The GUID of the conversation
+	 * @param firstMessageID The ID of the oldest message already loaded, to fetch the messages before it
+	 * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+	 */
+	fetchThread(chatGUID: string, firstMessageID?: number, signal?: AbortSignal): Promise<Blocks.ConversationItem[]> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return Promise.reject(messageErrorNetwork);
+		
+		//Recording the request
+		const promise = this.threadRequests.add(JSON.stringify({chatGUID: chatGUID, firstMessageID: firstMessageID} as ThreadKey), signal);
+		
+		//Sending the request
+		if(!signal?.aborted) this.communicationsManager!.requestLiteThread(chatGUID, firstMessageID);
+		
+		return promise.then((items) => {
+			//Saving the items
+			this.messageStore.saveItems(items).catch(console.warn);
+			return items;
+		});
+	}
+	
+	/**
+	 * Loads conversations saved from previous sessions, which can be displayed before the server is reachable
+	 */
+	fetchCachedConversations(): Promise<Blocks.Conversation[]> {
+		return this.messageStore.loadConversations();
+	}
+	
+	/**
+	 * Loads messages saved from previous sessions, which can be displayed before the server is reachable
+	 */
+	fetchCachedThread(chatGUID: string, firstMessageID?: number): Promise<Blocks.ConversationItem[]> {
+		return this.messageStore.loadThread(chatGUID, firstMessageID);
+	}
+	
+	/**
+	 * Gets the messages from a conversation that are waiting to be sent, in the order they were queued
+	 */
+	async fetchQueuedMessages(chatGUID: string): Promise<QueuedMessage[]> {
+		await this.outboxLoadPromise;
+		return this.outboxQueue.filter((item) => item.message.chatGUID === chatGUID).map((item) => item.message);
+	}
+	
+	/**
+	 * Gets the outcome of messages from a conversation that were sent in the background while the app was closed
+	 *
+	 * Each result is only returned once
+	 */
+	fetchBackgroundSendResults(chatGUID: string): Promise<OutboxSyncResult[]> {
+		return takeOutboxSyncResults(this.accountID, chatGUID);
+	}
+	
+	/**
+	 * Removes all locally saved conversations, messages and attachments, and discards queued messages
+	 */
+	async clearCache(): Promise<void> {
+		this.discardOutbox();
+		await Promise.all([this.messageStore.clear(), clearAttachmentCache(this.accountID)]);
+	}
+	
+	/**
+	 * Deletes this account's saved conversations, messages and attachments, and discards queued messages, such as when the account is removed
+	 */
+	async deleteStore(): Promise<void> {
+		this.discardOutbox();
+		await Promise.all([this.messageStore.delete(), clearAttachmentCache(this.accountID)]);
+	}
+	
+	private discardOutbox() {
+		for(const item of this.outboxQueue) item.promise.reject(messageErrorNetwork);
+		this.outboxQueue.length = 0;
+		clearTimeout(this.outboxRetryTimeoutID);
+		cancelOutboxSync(this.accountID).catch(console.warn);
+	}
+	
+	/**
+	 * Downloads an attachment file from the server
+	 * @param attachmentGUID The GUID of the attachment to download
+	 * @param signal A signal to cancel the download, rejecting the promise with AttachmentRequestErrorCode.Cancelled
+	 */
+	fetchAttachment(attachmentGUID: string, signal?: AbortSignal): ProgressPromise<ArrayBuffer, FileDownloadProgress> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return ProgressPromise.reject(AttachmentRequestErrorCode.Timeout) as ProgressPromise<ArrayBuffer, FileDownloadProgress>;
+		
+		//Recording the request (if it is cancelled, any further data from the server will be ignored)
+		const requestID = this.requestIDAllocator.allocate();
+		const state: FileDownloadState = {};
+		const promise = this.fileDownloadRequests.add(requestID, signal, state);
+		
+		//Discarding partially received data if the request fails, is cancelled or times out
+		promise.catch(() => state.accumulator?.dispose());
+		
+		//Sending the request
+		if(!signal?.aborted) this.communicationsManager!.requestAttachmentDownload(requestID, attachmentGUID);
+		
+		return promise;
+	}
+	
+	/**
+	 * Downloads the user's entire message history from the server
+	 *
+	 * Conversations, message pages and attachment files are delivered through progress updates as they arrive,
+	 * and the promise resolves once the server has finished sending data
+	 * @param params The mass retrieval parameters to use
+	 * @param signal A signal to stop receiving data, rejecting the promise with MassRetrievalErrorCode.Cancelled
+	 * The promise rejects with MassRetrievalErrorCode.Unsupported if the server doesn't support mass retrieval
+	 */
+	fetchMassRetrieval(params: MassRetrievalParams, signal?: AbortSignal): ProgressPromise<void, MassRetrievalProgress> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return ProgressPromise.reject(MassRetrievalErrorCode.Network) as ProgressPromise<void, MassRetrievalProgress>;
+		
+		//Only one mass retrieval can run at a time
+		if(this.massRetrievalRequests.keys().length > 0) return ProgressPromise.reject(MassRetrievalErrorCode.Busy) as ProgressPromise<void, MassRetrievalProgress>;
+		
+		//Recording the request
+		const requestID = this.requestIDAllocator.allocate();
+		const state = new MassRetrievalState();
+		const promise = this.massRetrievalRequests.add(requestID, signal, state);
+		
+		//Discarding partially received files if the retrieval fails, is cancelled or times out
+		promise.catch(() => state.dispose());
+		
+		//Sending the request, failing immediately if the server can't handle it
+		if(!signal?.aborted && !this.communicationsManager!.requestRetrievalAll(requestID, params)) {
+			this.massRetrievalRequests.reject(requestID, MassRetrievalErrorCode.Unsupported);
+		}
+		
+		return promise;
+	}
+	
+	/**
+	 * Creates a new conversation on the server
+	 * @param members The addresses of the conversation's members
+	 * @param service The service to create the conversation with
+	 * @param signal A signal to cancel the request, rejecting the promise with CreateChatErrorCode.Cancelled
+	 * @return A promise that resolves with the GUID of the new conversation
+	 */
+	createChat(members: string[], service: string, signal?: AbortSignal): Promise<string> {
+		//Failing immediately if there is no network connection
+		if(!this.isConnected()) return Promise.reject([CreateChatErrorCode.Network, undefined]);
+		
+		//Recording the request
+		const requestID = this.requestIDAllocator.allocate();
+		const promise = this.chatCreateRequests.add(requestID, signal);
+		
+		//Sending the request
+		if(!signal?.aborted) this.communicationsManager!.requestChatCreation(requestID, members, service);
+		
+		return promise;
+	}
+	
+	requestMissedMessages() {
+		if(this.lastServerMessageID !== undefined && this.lastConnectionUpdateTime !== undefined) {
+			this.communicationsManager!.requestRetrievalID(this.lastServerMessageID, this.lastConnectionUpdateTime, new Date());
+		} else if(this.lastConnectionUpdateTime !== undefined) {
+			this.communicationsManager!.requestRetrievalTime(this.lastConnectionUpdateTime, new Date());
+		} else {
+			console.warn("Trying to fetch missed messages with no last connection update time!");
+		}
+	}
+	
+	addConnectionListener(listener: ConnectionListener) {
+		this.connectionListenerArray.push(listener);
+	}
+	
+	removeConnectionListener(listener: ConnectionListener) {
+		const index = this.connectionListenerArray.indexOf(listener, 0);
+		if(index > -1) this.connectionListenerArray.splice(index, 1);
+	}
+	
+	getActiveCommVer(): string | undefined {
+		return this.communicationsManager?.communicationsVersion;
+	}
+	
+	private createOutboxItem(chatGUID: string, date: Date, text: string | undefined, file: File | undefined, storeID: Promise<number | undefined>, inFlight: boolean = false): OutboxItem {
+		let executor!: ProgressPromiseExecutor<any, string | number>;
+		const promise = new ProgressPromise<any, string | number>((resolve, reject, progress) => {
+			executor = {resolve: resolve, reject: reject, progress: progress};
+		});
+		
+		return {
+			message: {chatGUID: chatGUID, date: date, text: text, file: file, promise: promise},
+			promise: executor,
+			storeID: storeID,
+			inFlight: inFlight
+		};
+	}
+	
+	private queueMessage(chatGUID: string, text: string | undefined, file: File | undefined): ProgressPromise<any, string | number> {
+		//Saving the message, so that it can be sent in a later session
+		const date = new Date();
+		const storeID = this.messageStore.addOutboxEntry({chatGuid: chatGUID, date: date, text: text, file: file}).catch((error): undefined => {
+			console.warn("Failed to save queued message", error);
+			return undefined;
+		});
+		
+		//Adding the message to the queue
+		const item = this.createOutboxItem(chatGUID, date, text, file, storeID);
+		this.outboxQueue.push(item);
+		
+		//Sending the message if the connection is available, or asking for it to be sent once the network is back, even if the app is closed
+		if(this.isConnected()) {
+			this.drainOutbox();
+		} else if(!WPEnv.LOOPBACK) {
+			storeID.then(() => requestOutboxSync(this.accountID)).catch((error) => console.warn("Failed to schedule background send", error));
+		}
+		
+		return item.message.promise;
+	}
+	
+	//Gets whether a message can skip the outbox
+	private canSendNow(): boolean {
+		return this.isConnected() && this.outboxQueue.length === 0 && this.pendingServerSwap === undefined;
+	}
+	
+	private async drainOutbox() {
+		//Ignoring if the queue is already being sent, or the user hasn't accepted the server yet
+		if(this.outboxDraining || this.pendingServerSwap) return;
+		this.outboxDraining = true;
+		
+		//Waiting for messages from previous sessions, so they are sent first
+		await this.outboxLoadPromise;
+		
+		while(this.outboxQueue.length > 0 && this.isConnected() && !this.pendingServerSwap) {
+			const item = this.outboxQueue[0];
+			const message = item.message;
+			
+			//Taking ownership of the message, so that the service worker doesn't send it at the same time
+			const storeID = await item.storeID;
+			if(storeID !== undefined) {
+				let claim: OutboxClaim;
+				try {
+					claim = await this.messageStore.claimOutboxEntry(storeID, this.outboxOwnerID);
+				} catch(error) {
+					console.warn("Failed to claim queued message", error);
+					break;
+				}
+				
+				if(claim.type === "busy") {
+					//Trying again once the service worker is done
+					clearTimeout(this.outboxRetryTimeoutID);
+					this.outboxRetryTimeoutID = setTimeout(() => this.drainOutbox(), outboxClaimRetryMillis);
+					break;
+				} else if(claim.type === "removed") {
+					//The service worker has already sent the message, and reports its result separately
+					item.promise.resolve(undefined);
+					this.removeOutboxItem(item);
+					continue;
+				} else if(claim.entry.inFlight) {
+					item.inFlight = true;
+				}
+			}
+			
+			if(item.inFlight) {
+				//Failing messages that the server may have already received in a previous connection, rather than risking sending them twice
+				item.promise.reject(messageErrorUnconfirmed);
+			} else {
+				try {
+					//Sending the message
+					let result: any;
+					if(message.file) {
+						//Files are only in flight once they have been fully uploaded, since the server discards partial uploads
+						result = await this.sendFileNow(message.chatGUID, message.file).progress((progress) => {
+							if(typeof progress === "string") this.markOutboxItemInFlight(item);
+							item.promise.progress(progress);
+						});
+					} else {
+						const promise = this.sendMessageNow(message.chatGUID, message.text!);
+						this.markOutboxItemInFlight(item);
+						result = await promise;
+					}
+					
+					item.promise.resolve(result);
+				} catch(error) {
+					if(!this.isConnected()) {
+						//Keeping the message in the queue if the connection was lost before the server could receive it, and letting the service worker send it instead
+						if(!item.inFlight) {
+							if(storeID !== undefined) this.messageStore.releaseOutboxEntry(storeID, this.outboxOwnerID).catch(console.warn);
+							break;
+						}
+						
+						//Otherwise, the server may have received it without responding
+						item.promise.reject(messageErrorUnconfirmed);
+					} else {
+						item.promise.reject(error);
+					}
+				}
+			}
+			
+			//Removing the message from the queue
+			this.removeOutboxItem(item);
+			if(storeID !== undefined) this.messageStore.removeOutboxEntry(storeID).catch(console.warn);
+		}
+		
+		//Nothing is left for the service worker to send
+		if(this.outboxQueue.length === 0) cancelOutboxSync(this.accountID).catch(console.warn);
+		
+		this.outboxDraining = false;
+	}
+	
+	private removeOutboxItem(item: OutboxItem) {
+		const index = this.outboxQueue.indexOf(item);
+		if(index !== -1) this.outboxQueue.splice(index, 1);
+	}
+	
+	//Records that an outbox item has been handed to the server, including in the message store in case the app is closed before its result arrives
+	private markOutboxItemInFlight(item: OutboxItem) {
+		item.inFlight = true;
+		item.storeID.then((id) => {
+			if(id !== undefined) return this.messageStore.markOutboxEntryInFlight(id);
+		}).catch(console.warn);
+	}
+	
+	private startHeartbeat() {
+		this.stopHeartbeat();
+		this.pingIntervalID = setInterval(this.sendHeartbeat, pingIntervalMillis);
+	}
+	
+	private stopHeartbeat() {
+		if(this.pingIntervalID !== undefined) {
+			clearInterval(this.pingIntervalID);
+			this.pingIntervalID = undefined;
+		}
+		
+		this.pingSentTime = undefined;
+		this.pingMissCount = 0;
+		this.packetReceivedSincePing = false;
+		this.lastLatency = undefined;
+	}
+	
+	private readonly sendHeartbeat = () => {
+		//Checking if the last ping went unanswered, allowing for pongs delayed behind other incoming data
+		if(this.pingSentTime !== undefined) {
+			if(this.packetReceivedSincePing) {
+				this.pingMissCount = 0;
+			} else if(++this.pingMissCount >= pingMissLimit) {
+				//Closing the connection
+				console.warn(`Closing connection after ${this.pingMissCount} unanswered pings`);
+				this.communicationsManager?.disconnect(ConnectionErrorCode.Connection);
+				return;
+			}
+		}
+		
+		//Sending a new ping
+		this.packetReceivedSincePing = false;
+		this.pingSentTime = performance.now();
+		this.communicationsManager?.sendPing();
+	};
+}
+
+/**
+ * Calculates how long to wait before a passive reconnection
+ * @param attempt The number of passive reconnections that have already failed
+ */
+function getReconnectDelay(attempt: number): number {
+	const delay = Math.min(reconnectDelayInitial * Math.pow(2, attempt), reconnectDelayMax);
+	return delay * (1 - reconnectDelayJitter * Math.random());
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import DataProxy from "../dataProxy";
+import {ConnectionErrorCode} from "../../data/stateCodes";
+import {
+	arrayBufferToBase64,
+	captureFormatVersion,
+	CaptureDirection,
+	getNHTName,
+	PacketCapture,
+	readNHT,
+	readServerSubVersion
+} from "./packetCapture";
+
+/**
+ * Wraps another data proxy, recording all of the packets that pass through it
+ *
+ * Packets are recorded after they have been decrypted, so captures may contain the user's messages and should be handled with care
+ */
+export default class DataProxyRecorder extends DataProxy {
+	public readonly capture: PacketCapture;
+	private readonly startTime: number;
+	private subVersion: number | undefined;
+	private isRecording = true;
+	
+	constructor(public readonly proxy: DataProxy) {
+		super();
+		
+		this.capture = {
+			version: captureFormatVersion,
+			startDate: new Date().toISOString(),
+			events: []
+		};
+		this.startTime = Date.now();
+		
+		proxy.listener = {
+			onOpen: () => {
+				if(this.isRecording) this.capture.events.push({type: "open", time: this.getTime()});
+				this.notifyOpen();
+			},
+			onClose: (reason: ConnectionErrorCode) => {
+				if(this.isRecording) this.capture.events.push({type: "close", time: this.getTime(), reason: reason});
+				this.notifyClose(reason);
+			},
+			onMessage: (data: ArrayBuffer, isEncrypted: boolean) => {
+				//Recording the protocol version, so that packet types can be named correctly
+				const subVersion = readServerSubVersion(data);
+				if(subVersion !== undefined) this.subVersion = subVersion;
+				
+				this.recordPacket("inbound", data, isEncrypted);
+				this.notifyMessage(data, isEncrypted);
+			}
+		};
+	}
+	
+	get isDirect(): boolean {
+		return this.proxy.isDirect;
+	}
+	
+	get activeAddress(): string | undefined {
+		return this.proxy.activeAddress;
+	}
+	
+	get allowsProvisionalProtocols(): boolean {
+		return this.proxy.allowsProvisionalProtocols;
+	}
+	
+	start(): void {
+		this.proxy.accountID = this.accountID;
+		this.proxy.start();
+	}
+	
+	stop(): void {
+		this.proxy.stop();
+	}
+	
+	stopWithReason(reason: ConnectionErrorCode) {
+		this.proxy.stopWithReason(reason);
+	}
+	
+	send(data: ArrayBuffer, encrypt: boolean): void {
+		this.recordPacket("outbound", data, encrypt);
+		this.proxy.send(data, encrypt);
+	}
+	
+	/**
+	 * Stops adding events to the capture, while continuing to pass packets through
+	 *
+	 * A connection that is already open keeps using this proxy until it closes
+	 */
+	stopRecording() {
+		this.isRecording = false;
+	}
+	
+	private getTime(): number {
+		return Date.now() - this.startTime;
+	}
+	
+	private recordPacket(direction: CaptureDirection, data: ArrayBuffer, encrypted: boolean) {
+		if(!this.isRecording) return;
+		
+		const nht = readNHT(data);
+		this.capture.events.push({
+			type: "packet",
+			time: this.getTime(),
+			direction: direction,
+			encrypted: encrypted,
+			nht: nht,
+			nhtName: getNHTName(nht, this.subVersion),
+			data: arrayBufferToBase64(data)
+		});
+	}
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import DataProxy from "../dataProxy";
+import {ConnectionErrorCode} from "../../data/stateCodes";
+import {base64ToArrayBuffer, PacketCapture, readServerSubVersion} from "./packetCapture";
+
+export interface ReplayOptions {
+	speed?: number; //How much faster than real time to play back the capture
+}
+
+/**
+ * A data proxy that plays back the server's side of a packet capture, so that issues can be reproduced without a server
+ *
+ * Each connection replays the next recorded session, from its open event to its close event.
+ * Packets sent by the app are ignored, and don't affect what is played back.
+ */
+export default class DataProxyReplay extends DataProxy {
+	private readonly capture: PacketCapture;
+	private readonly speed: number;
+	private position = 0; //The index of the first event that hasn't been played back yet
+	private isRunning = false;
+	private readonly timeoutIDs = new Set<any>();
+	
+	constructor(capture: PacketCapture, options: ReplayOptions = {}) {
+		super();
+		
+		this.capture = capture;
+		this.speed = options.speed ?? 1;
+	}
+	
+	//Captures are decoded with whichever sub-version was recorded, including captures of the loopback server
+	get allowsProvisionalProtocols(): boolean {
+		return true;
+	}
+	
+	start(): void {
+		if(this.isRunning) return;
+		this.isRunning = true;
+		
+		//Finding the next session
+		const events = this.capture.events;
+		const openIndex = events.findIndex((event, index) => index >= this.position && event.type === "open");
+		if(openIndex === -1) {
+			console.warn("Packet capture has no more sessions to replay");
+			this.finish(ConnectionErrorCode.Connection);
+			return;
+		}
+		
+		const openTime = events[openIndex].time;
+		this.schedule(() => this.notifyOpen(), 0);
+		
+		//Scheduling the session's events
+		let index = openIndex + 1;
+		for(; index < events.length; index++) {
+			const event = events[index];
+			const delay = (event.time - openTime) / this.speed;
+			
+			if(event.type === "open") {
+				//The previous session was never closed
+				break;
+			} else if(event.type === "close") {
+				const reason = event.reason;
+				this.schedule(() => this.finish(reason), delay);
+				index++;
+				break;
+			} else if(event.direction === "inbound") {
+				const data = base64ToArrayBuffer(event.data);
+				this.schedule(() => this.notifyMessage(prepareInboundPacket(data), event.encrypted), delay);
+			}
+		}
+		this.position = index;
+	}
+	
+	stop(): void {
+		if(!this.isRunning) return;
+		this.finish(ConnectionErrorCode.Connection);
+	}
+	
+	send(): void {
+		//Packets sent by the app aren't answered, since the server's side of the session is already recorded
+	}
+	
+	private schedule(callback: () => void, delay: number) {
+		const timeoutID = setTimeout(() => {
+			this.timeoutIDs.delete(timeoutID);
+			callback();
+		}, delay);
+		this.timeoutIDs.add(timeoutID);
+	}
+	
+	private finish(reason: ConnectionErrorCode) {
+		this.isRunning = false;
+		
+		//Cancelling the rest of the session
+		for(const timeoutID of this.timeoutIDs) clearTimeout(timeoutID);
+		this.timeoutIDs.clear();
+		
+		setTimeout(() => this.notifyClose(reason), 0);
+	}
+}
+
+function prepareInboundPacket(data: ArrayBuffer): ArrayBuffer {
+	//Removing the server's authentication requirement, so that captures can be replayed without the server password
+	if(readServerSubVersion(data) !== undefined) {
+		const information = new Uint8Array(12 + 1);
+		information.set(new Uint8Array(data, 0, 12));
+		information[12] = 0;
+		return information.buffer;
+	}
+	
+	return data;
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import {ConnectionErrorCode} from "../../data/stateCodes";
+import {getLatestProtocolVersion, getProtocolVersion} from "../comm5/protocolVersions";
+
+export const captureFormatVersion = 1;
+
+export type CaptureDirection = "inbound" | "outbound";
+
+export interface CaptureEventOpen {
+	type: "open";
+	time: number; //Milliseconds since the capture started
+}
+
+export interface CaptureEventClose {
+	type: "close";
+	time: number;
+	reason: ConnectionErrorCode;
+}
+
+export interface CaptureEventPacket {
+	type: "packet";
+	time: number;
+	direction: CaptureDirection;
+	encrypted: boolean; //Whether the packet was encrypted over the network (packets are always stored decrypted)
+	nht: number;
+	nhtName: string;
+	data: string; //Base64-encoded packet contents, including the NHT
+}
+
+export type CaptureEvent = CaptureEventOpen | CaptureEventClose | CaptureEventPacket;
+
+export interface PacketCapture {
+	version: number;
+	startDate: string;
+	events: CaptureEvent[];
+}
+
+const nhtInformation = 100;
+
+/**
+ * Gets the readable name of a packet type
+ * @param nht The packet's net header type
+ * @param subVersion The comm5 sub-version in use, or undefined if it isn't known yet
+ */
+export function getNHTName(nht: number, subVersion: number | undefined): string {
+	if(nht === nhtInformation) return "information";
+	
+	const version = (subVersion !== undefined ? getProtocolVersion(subVersion, true) : undefined) ?? getLatestProtocolVersion();
+	const name = Object.entries(version.nht).find(([, value]) => value === nht)?.[0];
+	return name ?? `unknown (${nht})`;
+}
+
+/**
+ * Reads the net header type of a packet
+ * @return The NHT, or -1 if the packet is too short to have one
+ */
+export function readNHT(data: ArrayBuffer): number {
+	if(data.byteLength < 4) return -1;
+	return createDataView(data).getInt32(0);
+}
+
+/**
+ * Reads the comm5 sub-version from a server information packet
+ * @return The sub-version, or undefined if the packet isn't a comm5 server information packet
+ */
+export function readServerSubVersion(data: ArrayBuffer): number | undefined {
+	if(data.byteLength < 12) return undefined;
+	
+	const view = createDataView(data);
+	if(view.getInt32(0) !== nhtInformation || view.getInt32(4) !== 5) return undefined;
+	return view.getInt32(8);
+}
+
+//Some proxies pass Node.js buffers, which can't be wrapped in a DataView directly
+function createDataView(data: ArrayBuffer): DataView {
+	const bytes = new Uint8Array(data);
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+export function arrayBufferToBase64(data: ArrayBuffer): string {
+	const bytes = new Uint8Array(data);
+	let binary = "";
+	for(let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+	return btoa(binary);
+}
+
+export function base64ToArrayBuffer(data: string): ArrayBuffer {
+	const binary = atob(data);
+	const bytes = new Uint8Array(binary.length);
+	for(let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes.buffer;
+}
+
+/**
+ * Parses a packet capture saved as JSON
+ * @throws Error if the data isn't a valid packet capture
+ */
+export function parsePacketCapture(json: string): PacketCapture {
+	const capture = JSON.parse(json) as PacketCapture;
+	if(capture.version !== captureFormatVersion || !Array.isArray(capture.events)) {
+		throw new Error("Unsupported packet capture format");
+	}
+	
+	return capture;
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import AirPacker from "./airPacker";
+import AirUnpacker from "./airUnpacker";
+
+//Packs values with a new packer, and returns the packet's bytes
+function pack(write: (packer: AirPacker) => void): number[] {
+	const packer = AirPacker.initialize(1024);
+	write(packer);
+	return Array.from(new Uint8Array(packer.toArrayBuffer()));
+}
+
+function unpack(bytes: number[]): AirUnpacker {
+	return new AirUnpacker(new Uint8Array(bytes).buffer);
+}
+
+describe("AirPacker", () => {
+	test("packs numbers as big-endian", () => {
+		expect(pack((packer) => {
+			packer.packBoolean(true);
+			packer.packBoolean(false);
+			packer.packShort(0x0102);
+			packer.packInt(0x01020304);
+			packer.packArrayHeader(2);
+			packer.packLong(0x0102030405);
+			packer.packDouble(1.5);
+		})).toEqual([
+			0x01,
+			0x00,
+			0x01, 0x02,
+			0x01, 0x02, 0x03, 0x04,
+			0x00, 0x00, 0x00, 0x02,
+			0x00, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05,
+			0x3F, 0xF8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+		]);
+	});
+	
+	test("packs strings as UTF-8 payloads", () => {
+		expect(pack((packer) => packer.packString("hé"))).toEqual([0x00, 0x00, 0x00, 0x03, 0x68, 0xC3, 0xA9]);
+		expect(pack((packer) => packer.packPayload(new Uint8Array([0xAA, 0xBB])))).toEqual([0x00, 0x00, 0x00, 0x02, 0xAA, 0xBB]);
+	});
+	
+	test("packs nullable values with a presence flag", () => {
+		expect(pack((packer) => packer.packNullableString("a"))).toEqual([0x01, 0x00, 0x00, 0x00, 0x01, 0x61]);
+		expect(pack((packer) => packer.packNullableString(null))).toEqual([0x00]);
+		expect(pack((packer) => packer.packNullablePayload(new Uint8Array([0xAA])))).toEqual([0x01, 0x00, 0x00, 0x00, 0x01, 0xAA]);
+		expect(pack((packer) => packer.packNullablePayload(null))).toEqual([0x00]);
+	});
+	
+	test("starts a new packet after being reset", () => {
+		const packer = AirPacker.get();
+		try {
+			packer.packInt(1);
+		} finally {
+			packer.reset();
+		}
+		
+		try {
+			packer.packShort(2);
+			expect(Array.from(new Uint8Array(packer.toArrayBuffer()))).toEqual([0x00, 0x02]);
+		} finally {
+			packer.reset();
+		}
+	});
+});
+
+describe("AirUnpacker", () => {
+	test("unpacks numbers as big-endian", () => {
+		const unpacker = unpack([
+			0x01,
+			0x00,
+			0x01, 0x02,
+			0x01, 0x02, 0x03, 0x04,
+			0x00, 0x00, 0x00, 0x02,
+			0x00, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05,
+			0x3F, 0xF8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+		]);
+		
+		expect(unpacker.unpackBoolean()).toBe(true);
+		expect(unpacker.unpackBoolean()).toBe(false);
+		expect(unpacker.unpackShort()).toBe(0x0102);
+		expect(unpacker.unpackInt()).toBe(0x01020304);
+		expect(unpacker.unpackArrayHeader()).toBe(2);
+		expect(unpacker.unpackLong()).toBe(0x0102030405);
+		expect(unpacker.unpackDouble()).toBe(1.5);
+	});
+	
+	test("unpacks longs above 32 bits without losing precision", () => {
+		expect(unpack([0x00, 0x1F, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]).unpackLong()).toBe(Number.MAX_SAFE_INTEGER);
+	});
+	
+	test("unpacks strings and payloads", () => {
+		const unpacker = unpack([
+			0x00, 0x00, 0x00, 0x03, 0x68, 0xC3, 0xA9,
+			0x00, 0x00, 0x00, 0x02, 0xAA, 0xBB
+		]);
+		
+		expect(unpacker.unpackString()).toBe("hé");
+		expect(Array.from(new Uint8Array(unpacker.unpackPayload()))).toEqual([0xAA, 0xBB]);
+	});
+	
+	test("unpacks nullable values", () => {
+		const unpacker = unpack([
+			0x01, 0x00, 0x00, 0x00, 0x01, 0x61,
+			0x00,
+			0x01, 0x00, 0x00, 0x00, 0x01, 0xAA,
+			0x00
+		]);
+		
+		expect(unpacker.unpackNullableString()).toBe("a");
+		expect(unpacker.unpackNullableString()).toBeUndefined();
+		expect(Array.from(new Uint8Array(unpacker.unpackNullablePayload()!))).toEqual([0xAA]);
+		expect(unpacker.unpackNullablePayload()).toBeUndefined();
+	});
+	
+	test("reads back what the packer writes", () => {
+		const unpacker = new AirUnpacker(new Uint8Array(pack((packer) => {
+			packer.packInt(405);
+			packer.packShort(7);
+			packer.packString("iMessage;-;+15555550100");
+			packer.packLong(1600000000000);
+		})).buffer);
+		
+		expect(unpacker.unpackInt()).toBe(405);
+		expect(unpacker.unpackShort()).toBe(7);
+		expect(unpacker.unpackString()).toBe("iMessage;-;+15555550100");
+		expect(unpacker.unpackLong()).toBe(1600000000000);
+	});
+});
\ No newline at end of file
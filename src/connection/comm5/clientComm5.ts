@@ -1,10 +1,10 @@
 import CommunicationsManager from "../communicationsManager";
 import ProtocolManager from "./protocolManager";
 import AirUnpacker from "./airUnpacker";
-import ClientProtocol1 from "./clientProtocol1";
-import {ConnectionErrorCode, MessageError, MessageErrorCode} from "../../data/stateCodes";
-import ClientProtocol2 from "./clientProtocol2";
-import ClientProtocol3 from "shared/connection/comm5/clientProtocol3";
+import {ConnectionErrorCode, MessageError, MessageErrorCode, TapbackType} from "../../data/stateCodes";
+import ClientProtocol from "./clientProtocol";
+import {getProtocolVersion} from "./protocolVersions";
+import {MassRetrievalParams} from "../../data/blocks";
 
 const targetCommVer = 5;
 
@@ -94,16 +94,11 @@ export default class ClientComm5 extends CommunicationsManager {
 	}
 
 	findProtocolManager(subVersion: number): ProtocolManager | null {
-		switch(subVersion) {
-			case 1:
-				return new ClientProtocol1(this, this.dataProxy);
-			case 2:
-				return new ClientProtocol2(this, this.dataProxy);
-			case 3:
-				return new ClientProtocol3(this, this.dataProxy);
-			default:
-				return null;
-		}
+		//Provisional sub-versions are off unless the app is built with --env provisional, since no released server implements them
+		const version = getProtocolVersion(subVersion, WPEnv.PROVISIONAL_PROTOCOLS && this.dataProxy.allowsProvisionalProtocols);
+		if(!version) return null;
+		
+		return new ClientProtocol(this, this.dataProxy, version);
 	}
 	
 	requestAttachmentDownload(requestID: number, attachmentGUID: string): boolean {
@@ -122,6 +117,10 @@ export default class ClientComm5 extends CommunicationsManager {
 		return this.protocolManager?.requestRetrievalID(idLower, timeLower, timeUpper) ?? false;
 	}
 	
+	requestRetrievalAll(requestID: number, params: MassRetrievalParams): boolean {
+		return this.protocolManager?.requestRetrievalAll(requestID, params) ?? false;
+	}
+	
 	sendMessage(requestID: number, chatGUID: string, message: string): boolean {
 		return this.protocolManager?.sendMessage(requestID, chatGUID, message) ?? false;
 	}
@@ -130,6 +129,10 @@ export default class ClientComm5 extends CommunicationsManager {
 		return this.protocolManager?.sendFile(requestID, chatGUID, file, progressCallback) ?? Promise.reject({code: MessageErrorCode.LocalNetwork} as MessageError);
 	}
 	
+	sendTapback(requestID: number, chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): boolean {
+		return this.protocolManager?.sendTapback(requestID, chatGUID, messageGUID, messageIndex, tapbackType, isAddition) ?? false;
+	}
+	
 	sendPing(): boolean {
 		if(!this.protocolManager) return false;
 		else return this.protocolManager.sendPing();
@@ -158,4 +161,8 @@ export default class ClientComm5 extends CommunicationsManager {
 	get communicationsVersion(): string | undefined {
 		return targetCommVer + "." + (this.protocolManagerVer ?? "X");
 	}
+	
+	get canSendTapbacks(): boolean {
+		return this.protocolManager?.canSendTapbacks ?? false;
+	}
 }
\ No newline at end of file
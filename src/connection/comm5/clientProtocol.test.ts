@@ -0,0 +1,720 @@
+import ProtocolManager from "./protocolManager";
+import ClientProtocol from "./clientProtocol";
+import {getProtocolVersion} from "./protocolVersions";
+import ClientComm5 from "./clientComm5";
+import AirUnpacker from "./airUnpacker";
+import pako from "pako";
+import DataProxy from "../dataProxy";
+import {CommunicationsManagerListener} from "../communicationsManager";
+import {BasicAccumulator, InflatorAccumulator, TransferAccumulator} from "../transferAccumulator";
+import {
+	AttachmentRequestErrorCode,
+	ConnectionErrorCode,
+	ConversationItemType,
+	ConversationPreviewType,
+	CreateChatErrorCode,
+	MessageErrorCode,
+	MessageModifierType,
+	MessageStatusCode,
+	ParticipantActionType,
+	TapbackType
+} from "../../data/stateCodes";
+import {createCryptoKey, decryptData, setCryptoPassword} from "../../util/encryptionUtils";
+import {SecureStorageKey, setSecureLS} from "../../util/secureStorageUtils";
+
+jest.mock("../worker/packetWorkerClient");
+
+//Handwritten packets for each comm5 sub-version, built independently of AirPacker, which follow
+//the original ClientProtocol1, ClientProtocol2 and ClientProtocol3 classes so that the consolidated
+//protocol stays compatible with existing servers
+
+const accountID = "test-account";
+const installationID = "test-installation";
+const password = "test-password";
+
+interface SentPacket {
+	data: number[];
+	encrypt: boolean;
+}
+
+class RecordingDataProxy extends DataProxy {
+	readonly packets: SentPacket[] = [];
+	
+	start() {
+		//Packets are only recorded
+	}
+	
+	stop() {
+		//Packets are only recorded
+	}
+	
+	send(data: ArrayBuffer, encrypt: boolean) {
+		this.packets.push({data: Array.from(new Uint8Array(data)), encrypt: encrypt});
+	}
+}
+
+//Primitive encoders
+function bytes(size: number, write: (view: DataView) => void): number[] {
+	const view = new DataView(new ArrayBuffer(size));
+	write(view);
+	return Array.from(new Uint8Array(view.buffer));
+}
+const bool = (value: boolean) => [value ? 1 : 0];
+const short = (value: number) => bytes(2, (view) => view.setInt16(0, value));
+const int = (value: number) => bytes(4, (view) => view.setInt32(0, value));
+const long = (value: number) => bytes(8, (view) => view.setBigInt64(0, BigInt(value)));
+const payload = (data: number[]) => [...int(data.length), ...data];
+const nullablePayload = (data: number[] | undefined) => data === undefined ? bool(false) : [...bool(true), ...payload(data)];
+const string = (value: string) => payload(Array.from(new TextEncoder().encode(value)));
+const nullableString = (value: string | undefined) => value === undefined ? bool(false) : [...bool(true), ...string(value)];
+const array = (items: number[][]) => [...int(items.length), ...items.flat()];
+const text = (value: string) => Array.from(new TextEncoder().encode(value));
+
+//Replaces binary data with plain arrays of bytes, so that decoded objects can be compared regardless of how their data is held
+function normalize(value: unknown): unknown {
+	if(value instanceof ArrayBuffer) return Array.from(new Uint8Array(value));
+	else if(ArrayBuffer.isView(value)) return Array.from(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+	else if(value instanceof Date) return value;
+	else if(Array.isArray(value)) return value.map(normalize);
+	else if(value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, normalize(entry)]));
+	else return value;
+}
+
+function createListener(): jest.Mocked<CommunicationsManagerListener> {
+	return {
+		onOpen: jest.fn(),
+		onClose: jest.fn(),
+		onPacket: jest.fn(),
+		onPong: jest.fn(),
+		onMessageUpdate: jest.fn(),
+		onConversationUpdate: jest.fn(),
+		onModifierUpdate: jest.fn(),
+		onFileRequestStart: jest.fn(),
+		onFileRequestData: jest.fn(),
+		onFileRequestComplete: jest.fn(),
+		onFileRequestFail: jest.fn(),
+		onIDUpdate: jest.fn(),
+		onMassRetrievalStart: jest.fn(),
+		onMassRetrievalUpdate: jest.fn(),
+		onMassRetrievalComplete: jest.fn(),
+		onMassRetrievalFileStart: jest.fn(),
+		onMassRetrievalFileData: jest.fn(),
+		onMassRetrievalFileComplete: jest.fn(),
+		onMessageConversations: jest.fn(),
+		onMessageThread: jest.fn(),
+		onSendMessageResponse: jest.fn(),
+		onCreateChatResponse: jest.fn()
+	};
+}
+
+function createProtocolManager(subVersion: number, communicationsManager: ClientComm5, dataProxy: DataProxy): ProtocolManager {
+	//Provisional versions are included, so that the requests only this app defines can be checked as well
+	const version = getProtocolVersion(subVersion, true);
+	if(!version) throw new Error(`No protocol version for comm 5.${subVersion}`);
+	return new ClientProtocol(communicationsManager, dataProxy, version);
+}
+
+function createProtocol(subVersion: number) {
+	const dataProxy = new RecordingDataProxy();
+	dataProxy.accountID = accountID;
+	
+	const listener = createListener();
+	const communicationsManager = {
+		listener: listener,
+		disconnect: jest.fn(),
+		stopTimeoutTimer: jest.fn(),
+		onHandshake: jest.fn()
+	};
+	
+	const protocol = createProtocolManager(subVersion, communicationsManager as unknown as ClientComm5, dataProxy);
+	return {protocol, dataProxy, listener, communicationsManager};
+}
+
+function receive(protocol: ProtocolManager, packet: number[], wasEncrypted: boolean = true) {
+	protocol.processData(new Uint8Array(packet).buffer, wasEncrypted);
+}
+
+//Waits for tasks handed to the packet worker to finish
+function flushPacketWorker(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+//Reads the data accumulated from a file transfer
+async function readAccumulator(accumulator: TransferAccumulator, chunks: ArrayBuffer[]): Promise<number[]> {
+	for(const chunk of chunks) accumulator.push(chunk);
+	return normalize(await accumulator.finish()) as number[];
+}
+
+const timeLower = new Date(1600000000000);
+const timeUpper = new Date(1600000060000);
+const messageDate = new Date(1600000001000);
+const readDate = new Date(1600000002000);
+
+//gzip and zlib streams of "hello", as produced by pako and zlib at their default settings
+const gzipHello = [31, 139, 8, 0, 0, 0, 0, 0, 0, 3, 203, 72, 205, 201, 201, 7, 0, 134, 166, 16, 54, 5, 0, 0, 0];
+const gzipHel = [31, 139, 8, 0, 0, 0, 0, 0, 0, 3, 203, 72, 205, 1, 0, 27, 241, 11, 229, 3, 0, 0, 0];
+const gzipLo = [31, 139, 8, 0, 0, 0, 0, 0, 0, 3, 203, 201, 7, 0, 157, 74, 156, 85, 2, 0, 0, 0];
+const deflateHello = [120, 156, 203, 72, 205, 201, 201, 7, 0, 6, 44, 2, 21];
+
+//MD5 hash of "hello"
+const helloHash = "5d41402abc4b2a76b9719d911017c592";
+
+//The header values and differences of each protocol manager
+const versions = [
+	{
+		subVersion: 1,
+		nhtConversationUpdate: 205,
+		nhtModifierUpdate: 206,
+		nhtAttachmentReq: 207,
+		nhtAttachmentReqFail: 209,
+		nhtIDUpdate: undefined,
+		retrievalID: undefined,
+		attachmentSort: false,
+		fileCompression: "gzip",
+		//Each file chunk is compressed on its own
+		compressedSticker: gzipHello,
+		attachmentChunks: [gzipHel, gzipLo],
+		attachmentChunkData: [text("hel"), text("lo")],
+		attachmentAccumulator: BasicAccumulator,
+		sentFileData: gzipHello,
+		authPlainAfterEncrypted: true,
+		authRequiresPassword: false
+	},
+	{
+		subVersion: 2,
+		nhtConversationUpdate: 206,
+		nhtModifierUpdate: 207,
+		nhtAttachmentReq: 208,
+		nhtAttachmentReqFail: 210,
+		nhtIDUpdate: 211,
+		retrievalID: [...int(202), ...long(42)],
+		attachmentSort: true,
+		fileCompression: "deflate",
+		//Files are compressed as a single stream
+		compressedSticker: deflateHello,
+		attachmentChunks: [deflateHello.slice(0, 6), deflateHello.slice(6)],
+		attachmentChunkData: [deflateHello.slice(0, 6), deflateHello.slice(6)],
+		attachmentAccumulator: InflatorAccumulator,
+		sentFileData: deflateHello,
+		authPlainAfterEncrypted: false,
+		authRequiresPassword: false
+	},
+	{
+		subVersion: 3,
+		nhtConversationUpdate: 206,
+		nhtModifierUpdate: 207,
+		nhtAttachmentReq: 208,
+		nhtAttachmentReqFail: 210,
+		nhtIDUpdate: 211,
+		retrievalID: [...int(202), ...long(42), ...long(timeLower.getTime()), ...long(timeUpper.getTime())],
+		attachmentSort: true,
+		fileCompression: "deflate",
+		compressedSticker: deflateHello,
+		attachmentChunks: [deflateHello.slice(0, 6), deflateHello.slice(6)],
+		attachmentChunkData: [deflateHello.slice(0, 6), deflateHello.slice(6)],
+		attachmentAccumulator: InflatorAccumulator,
+		sentFileData: deflateHello,
+		authPlainAfterEncrypted: false,
+		authRequiresPassword: true
+	}
+];
+type Version = typeof versions[number];
+
+//Conversation item and modifier packets, along with the objects they decode to
+function stickerPacket(version: Version) {
+	return [...int(1), ...string("message-guid"), ...int(0), ...string("sticker-file-guid"), ...nullableString("sticker-sender"), ...long(messageDate.getTime()), ...payload(version.compressedSticker), ...string("image/png")];
+}
+const stickerItem = {
+	type: MessageModifierType.Sticker,
+	messageGuid: "message-guid",
+	messageIndex: 0,
+	sender: "sticker-sender",
+	date: messageDate,
+	dataType: "image/png",
+	data: text("hello")
+};
+
+const tapbackPacket = [...int(2), ...string("message-guid"), ...int(1), ...nullableString(undefined), ...bool(true), ...int(3)];
+const tapbackItem = {
+	type: MessageModifierType.Tapback,
+	messageGuid: "message-guid",
+	messageIndex: 1,
+	sender: undefined,
+	isAddition: true,
+	tapbackType: TapbackType.Laugh
+};
+
+const activityPacket = [...int(0), ...string("message-guid"), ...int(3), ...long(readDate.getTime())];
+const activityItem = {
+	type: MessageModifierType.StatusUpdate,
+	messageGuid: "message-guid",
+	status: MessageStatusCode.Read,
+	date: readDate
+};
+
+function messagePacket(version: Version) {
+	const attachment = [...string("attachment-guid"), ...string("photo.png"), ...nullableString(undefined), ...long(5), ...nullablePayload([0xAB, 0xCD]), ...(version.attachmentSort ? long(1) : [])];
+	return [
+		...int(0), ...long(10), ...string("message-guid"), ...string("chat-guid"), ...long(messageDate.getTime()),
+		...nullableString("Hello"), ...nullableString(undefined), ...nullableString("sender"),
+		...array([attachment]),
+		...array([stickerPacket(version)]),
+		...array([tapbackPacket]),
+		...nullableString("impact"),
+		...int(2), ...int(2), ...long(readDate.getTime())
+	];
+}
+const messageItem = {
+	itemType: ConversationItemType.Message,
+	serverID: 10,
+	guid: "message-guid",
+	chatGuid: "chat-guid",
+	date: messageDate,
+	text: "Hello",
+	subject: undefined,
+	sender: "sender",
+	attachments: [{
+		guid: "attachment-guid",
+		name: "photo.png",
+		type: "application/octet-stream",
+		size: 5,
+		checksum: "abcd"
+	}],
+	stickers: [stickerItem],
+	tapbacks: [tapbackItem],
+	sendStyle: "impact",
+	status: MessageStatusCode.Delivered,
+	error: {code: MessageErrorCode.AppleNetwork},
+	statusDate: readDate
+};
+
+const participantActionPacket = [...int(1), ...long(11), ...string("action-guid"), ...string("chat-guid"), ...long(messageDate.getTime()), ...nullableString("user"), ...nullableString("target"), ...int(1)];
+const participantActionItem = {
+	itemType: ConversationItemType.ParticipantAction,
+	serverID: 11,
+	guid: "action-guid",
+	chatGuid: "chat-guid",
+	date: messageDate,
+	type: ParticipantActionType.Join,
+	user: "user",
+	target: "target"
+};
+
+const chatRenamePacket = [...int(2), ...long(12), ...string("rename-guid"), ...string("chat-guid"), ...long(messageDate.getTime()), ...nullableString("user"), ...nullableString("Chat name")];
+const chatRenameItem = {
+	itemType: ConversationItemType.ChatRenameAction,
+	serverID: 12,
+	guid: "rename-guid",
+	chatGuid: "chat-guid",
+	date: messageDate,
+	user: "user",
+	chatName: "Chat name"
+};
+
+const availableConversationPacket = [...string("chat-guid"), ...bool(true), ...string("iMessage"), ...nullableString("Chat name"), ...array([string("member1"), string("member2")])];
+const availableConversation = {
+	guid: "chat-guid",
+	service: "iMessage",
+	name: "Chat name",
+	members: ["member1", "member2"],
+	preview: {
+		type: ConversationPreviewType.ChatCreation,
+		date: expect.any(Date)
+	}
+};
+const unavailableConversationPacket = [...string("missing-guid"), ...bool(false)];
+
+beforeAll(async () => {
+	await setSecureLS(SecureStorageKey.InstallationID, installationID, accountID);
+});
+
+afterEach(async () => {
+	await setCryptoPassword(undefined, accountID);
+});
+
+describe.each(versions)("comm 5.$subVersion", (version) => {
+	const plainAuthentication = [...int(101), ...string(installationID), ...string("Unknown browser"), ...string("browser")];
+	
+	describe("requests", () => {
+		test("sends pings", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.sendPing()).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: int(1), encrypt: false}]);
+		});
+		
+		test("sends text messages", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.sendMessage(7, "chat", "hello")).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: [...int(401), ...short(7), ...string("chat"), ...string("hello")], encrypt: true}]);
+		});
+		
+		test("sends files", async () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			const progressCallback = jest.fn();
+			expect(await protocol.sendFile(7, "chat", new File([new Uint8Array(text("hello"))], "hello.txt"), progressCallback)).toBe(helloHash);
+			expect(dataProxy.packets).toEqual([{data: [...int(403), ...short(7), ...int(0), ...bool(true), ...string("chat"), ...payload(version.sentFileData), ...string("hello.txt")], encrypt: true}]);
+			
+			//Progress is reported in compressed bytes sent
+			expect(progressCallback).toHaveBeenLastCalledWith(version.sentFileData.length);
+		});
+		
+		test("splits large files into chunks", async () => {
+			//Filling the file with data that doesn't compress, so it spans several chunks either way
+			const fileData = new Uint8Array(5 * 1024 * 1024);
+			let seed = 1;
+			for(let i = 0; i < fileData.length; i++) {
+				seed ^= seed << 13;
+				seed ^= seed >>> 17;
+				seed ^= seed << 5;
+				fileData[i] = seed;
+			}
+			
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			await protocol.sendFile(7, "chat", new File([fileData], "large.bin"), jest.fn());
+			
+			const chunks = dataProxy.packets.map((packet, index) => {
+				const unpacker = new AirUnpacker(new Uint8Array(packet.data).buffer);
+				expect(unpacker.unpackInt()).toBe(403);
+				expect(unpacker.unpackShort()).toBe(7);
+				expect(unpacker.unpackInt()).toBe(index);
+				expect(unpacker.unpackBoolean()).toBe(index === dataProxy.packets.length - 1);
+				expect(unpacker.unpackString()).toBe("chat");
+				const chunkData = unpacker.unpackPayload();
+				if(index === 0) expect(unpacker.unpackString()).toBe("large.bin");
+				return chunkData;
+			});
+			expect(chunks.length).toBe(3);
+			
+			//Decompressing the uploaded data
+			const uploadedData = version.fileCompression === "gzip"
+				? Buffer.concat(chunks.map((chunk) => pako.ungzip(new Uint8Array(chunk))))
+				: Buffer.from(pako.inflate(Buffer.concat(chunks.map((chunk) => new Uint8Array(chunk)))));
+			expect(uploadedData.equals(Buffer.from(fileData))).toBe(true);
+		});
+		
+		test("requests attachments", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestAttachmentDownload(7, "file")).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: [...int(version.nhtAttachmentReq), ...short(7), ...int(2 * 1024 * 1024), ...string("file")], encrypt: true}]);
+		});
+		
+		test("requests conversations", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestLiteConversation()).toBe(true);
+			expect(protocol.requestConversationInfo(["chat1", "chat2"])).toBe(true);
+			expect(dataProxy.packets).toEqual([
+				{data: int(300), encrypt: true},
+				{data: [...int(version.nhtConversationUpdate), ...int(2), ...string("chat1"), ...string("chat2")], encrypt: true}
+			]);
+		});
+		
+		test("requests threads", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestLiteThread("chat")).toBe(true);
+			expect(protocol.requestLiteThread("chat", 42)).toBe(true);
+			expect(dataProxy.packets).toEqual([
+				{data: [...int(301), ...string("chat"), ...bool(false)], encrypt: true},
+				{data: [...int(301), ...string("chat"), ...bool(true), ...long(42)], encrypt: true}
+			]);
+		});
+		
+		test("requests chat creation", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestChatCreation(7, ["member1", "member2"], "iMessage")).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: [...int(405), ...short(7), ...int(2), ...string("member1"), ...string("member2"), ...string("iMessage")], encrypt: true}]);
+		});
+		
+		test("requests messages by time", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestRetrievalTime(timeLower, timeUpper)).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: [...int(201), ...long(timeLower.getTime()), ...long(timeUpper.getTime())], encrypt: true}]);
+		});
+		
+		test("requests messages by ID", () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(protocol.requestRetrievalID(42, timeLower, timeUpper)).toBe(version.retrievalID !== undefined);
+			expect(dataProxy.packets).toEqual(version.retrievalID !== undefined ? [{data: version.retrievalID, encrypt: true}] : []);
+		});
+	});
+	
+	describe("authentication", () => {
+		test("authenticates with servers that don't require a password", async () => {
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(await protocol.sendAuthenticationRequest(new AirUnpacker(new Uint8Array(bool(false)).buffer))).toBe(true);
+			expect(dataProxy.packets).toEqual([{data: plainAuthentication, encrypt: true}]);
+		});
+		
+		test("authenticates with servers that require a password", async () => {
+			await setCryptoPassword(password, accountID);
+			
+			const {protocol, dataProxy} = createProtocol(version.subVersion);
+			expect(await protocol.sendAuthenticationRequest(new AirUnpacker(new Uint8Array([...bool(true), ...payload([0xAA, 0xBB])]).buffer))).toBe(true);
+			
+			//The original version 1 manager also sent its details in the clear
+			expect(dataProxy.packets.length).toBe(version.authPlainAfterEncrypted ? 2 : 1);
+			if(version.authPlainAfterEncrypted) expect(dataProxy.packets[1]).toEqual({data: plainAuthentication, encrypt: true});
+			
+			//Checking the encrypted details
+			const [encryptedAuthentication] = dataProxy.packets;
+			expect(encryptedAuthentication.encrypt).toBe(false);
+			expect(encryptedAuthentication.data.slice(0, 8)).toEqual([...int(101), ...int(encryptedAuthentication.data.length - 8)]);
+			const secureData = await decryptData(new Uint8Array(encryptedAuthentication.data.slice(8)).buffer, await createCryptoKey(password));
+			expect(normalize(secureData)).toEqual([...payload([0xAA, 0xBB]), ...string(installationID), ...string("Unknown browser"), ...string("browser")]);
+		});
+		
+		test("handles servers that require a password when none is set", async () => {
+			const {protocol, dataProxy, communicationsManager} = createProtocol(version.subVersion);
+			const request = protocol.sendAuthenticationRequest(new AirUnpacker(new Uint8Array([...bool(true), ...payload([0xAA, 0xBB])]).buffer));
+			
+			if(version.authRequiresPassword) {
+				await expect(request).resolves.toBe(false);
+				expect(communicationsManager.disconnect).toHaveBeenCalledWith(ConnectionErrorCode.Unauthorized);
+			} else {
+				//Older versions try to encrypt the request anyway, which fails without a key
+				await expect(request).rejects.toBeDefined();
+				expect(communicationsManager.disconnect).not.toHaveBeenCalled();
+			}
+			expect(dataProxy.packets).toEqual([]);
+		});
+		
+		test("reads authentication results", () => {
+			const {protocol, communicationsManager} = createProtocol(version.subVersion);
+			receive(protocol, [...int(101), ...int(0), ...string("server-installation"), ...string("Server Mac"), ...string("11.2.3"), ...string("3.2.0")], false);
+			expect(communicationsManager.stopTimeoutTimer).toHaveBeenCalled();
+			expect(communicationsManager.onHandshake).toHaveBeenCalledWith("server-installation", "Server Mac", "11.2.3", "3.2.0");
+			expect(communicationsManager.disconnect).not.toHaveBeenCalled();
+		});
+		
+		test("disconnects when authentication fails", () => {
+			const {protocol, communicationsManager} = createProtocol(version.subVersion);
+			receive(protocol, [...int(101), ...int(1)], false);
+			receive(protocol, [...int(101), ...int(2)], false);
+			expect(communicationsManager.disconnect.mock.calls).toEqual([[ConnectionErrorCode.Unauthorized], [ConnectionErrorCode.BadRequest]]);
+			expect(communicationsManager.onHandshake).not.toHaveBeenCalled();
+		});
+	});
+	
+	describe("responses", () => {
+		test("answers pings and pongs", () => {
+			const {protocol, dataProxy, listener} = createProtocol(version.subVersion);
+			receive(protocol, int(1), false);
+			receive(protocol, int(2), false);
+			expect(dataProxy.packets).toEqual([{data: int(2), encrypt: false}]);
+			expect(listener.onPong).toHaveBeenCalledTimes(1);
+			expect(listener.onPacket).toHaveBeenCalledTimes(2);
+		});
+		
+		test("disconnects when the server closes the connection", () => {
+			const {protocol, communicationsManager} = createProtocol(version.subVersion);
+			receive(protocol, int(0), false);
+			expect(communicationsManager.disconnect).toHaveBeenCalledWith(ConnectionErrorCode.Connection);
+		});
+		
+		test("reads message updates", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			const items = array([messagePacket(version), participantActionPacket, chatRenamePacket]);
+			receive(protocol, [...int(200), ...items]);
+			receive(protocol, [...int(201), ...items]);
+			
+			//Items are ordered with the most recent first
+			expect(listener.onMessageUpdate).toHaveBeenCalledTimes(2);
+			for(const [data] of listener.onMessageUpdate.mock.calls) {
+				expect(normalize(data)).toEqual([chatRenameItem, participantActionItem, messageItem]);
+			}
+		});
+		
+		test("ignores data that wasn't encrypted", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(200), ...array([chatRenamePacket])], false);
+			expect(listener.onMessageUpdate).not.toHaveBeenCalled();
+		});
+		
+		test("reads lite conversations", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(300), ...array([[
+				...string("chat-guid"), ...string("iMessage"), ...nullableString(undefined), ...array([string("member1")]),
+				...long(messageDate.getTime()), ...nullableString("sender"), ...nullableString("Hello"), ...nullableString("impact"), ...array([string("photo.png")])
+			]])]);
+			expect(listener.onMessageConversations).toHaveBeenCalledWith([{
+				guid: "chat-guid",
+				service: "iMessage",
+				name: undefined,
+				members: ["member1"],
+				preview: {
+					type: ConversationPreviewType.Message,
+					date: messageDate,
+					text: "Hello",
+					sendStyle: "impact",
+					attachments: ["photo.png"]
+				}
+			}]);
+		});
+		
+		test("reads lite threads", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(301), ...string("chat-guid"), ...bool(false), ...array([messagePacket(version), chatRenamePacket])]);
+			receive(protocol, [...int(301), ...string("chat-guid"), ...bool(true), ...long(42), ...array([])]);
+			
+			const [[chatGUID, firstMessageID, data]] = listener.onMessageThread.mock.calls;
+			expect([chatGUID, firstMessageID, normalize(data)]).toEqual(["chat-guid", undefined, [chatRenameItem, messageItem]]);
+			expect(listener.onMessageThread).toHaveBeenLastCalledWith("chat-guid", 42, []);
+		});
+		
+		test("reads conversation updates", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(version.nhtConversationUpdate), ...array([availableConversationPacket, unavailableConversationPacket])]);
+			expect(listener.onConversationUpdate).toHaveBeenCalledWith([["chat-guid", availableConversation], ["missing-guid", undefined]]);
+		});
+		
+		test("reads modifier updates", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			const unknownTapbackPacket = [...int(2), ...string("message-guid"), ...int(0), ...nullableString("sender"), ...bool(false), ...int(9)];
+			receive(protocol, [...int(version.nhtModifierUpdate), ...array([activityPacket, stickerPacket(version), tapbackPacket, unknownTapbackPacket])]);
+			
+			//Tapbacks of unknown types are skipped
+			const [[data]] = listener.onModifierUpdate.mock.calls;
+			expect(normalize(data)).toEqual([activityItem, stickerItem, tapbackItem]);
+		});
+		
+		test("reads attachment data", async () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(version.nhtAttachmentReq), ...short(7), ...int(0), ...long(5), ...bool(false), ...string("file"), ...payload(version.attachmentChunks[0])]);
+			receive(protocol, [...int(version.nhtAttachmentReq), ...short(7), ...int(1), ...bool(true), ...string("file"), ...payload(version.attachmentChunks[1])]);
+			await flushPacketWorker();
+			
+			expect(listener.onFileRequestStart).toHaveBeenCalledWith(7, 5, expect.any(version.attachmentAccumulator));
+			expect(listener.onFileRequestData.mock.calls.map(([requestID, data]) => [requestID, normalize(data)])).toEqual(version.attachmentChunkData.map((data) => [7, data]));
+			expect(listener.onFileRequestComplete).toHaveBeenCalledWith(7);
+			
+			const [[, , accumulator]] = listener.onFileRequestStart.mock.calls;
+			expect(await readAccumulator(accumulator, listener.onFileRequestData.mock.calls.map(([, data]) => data))).toEqual(text("hello"));
+		});
+		
+		test("reads attachment request failures", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(version.nhtAttachmentReqFail), ...short(7), ...int(1)]);
+			receive(protocol, [...int(version.nhtAttachmentReqFail), ...short(8), ...int(9)]);
+			expect(listener.onFileRequestFail.mock.calls).toEqual([[7, AttachmentRequestErrorCode.ServerNotFound], [8, AttachmentRequestErrorCode.ServerUnknown]]);
+		});
+		
+		test("reads send results", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(400), ...short(7), ...int(0), ...nullableString(undefined)]);
+			receive(protocol, [...int(400), ...short(8), ...int(4), ...nullableString("details")]);
+			expect(listener.onSendMessageResponse.mock.calls).toEqual([[7, undefined], [8, {code: MessageErrorCode.AppleNoConversation, detail: "details"}]]);
+		});
+		
+		test("reads chat creation results", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(405), ...short(7), ...int(0), ...nullableString("chat-guid")]);
+			receive(protocol, [...int(405), ...short(8), ...int(3), ...nullableString("details")]);
+			expect(listener.onCreateChatResponse.mock.calls).toEqual([[7, undefined, "chat-guid"], [8, CreateChatErrorCode.Unauthorized, "details"]]);
+		});
+		
+		test("reads ID updates where supported", () => {
+			const {protocol, listener} = createProtocol(version.subVersion);
+			receive(protocol, [...int(211), ...long(42)]);
+			if(version.nhtIDUpdate !== undefined) expect(listener.onIDUpdate).toHaveBeenCalledWith(42);
+			else expect(listener.onIDUpdate).not.toHaveBeenCalled();
+		});
+	});
+});
+
+describe("mass retrieval", () => {
+	const params = {
+		timeMessages: timeLower,
+		downloadAttachments: true,
+		timeAttachments: timeUpper,
+		sizeAttachments: 1024,
+		attachmentFilterWhitelist: ["image/*"],
+		attachmentFilterBlacklist: ["video/*"],
+		attachmentFilterDLOther: false
+	};
+	
+	test.each([1, 2])("isn't supported by comm 5.%d", (subVersion) => {
+		const {protocol, dataProxy} = createProtocol(subVersion);
+		expect(protocol.requestRetrievalAll(7, params)).toBe(false);
+		expect(dataProxy.packets).toEqual([]);
+	});
+	
+	test("requests messages and attachments on comm 5.3", () => {
+		const {protocol, dataProxy} = createProtocol(3);
+		expect(protocol.requestRetrievalAll(7, params)).toBe(true);
+		expect(protocol.requestRetrievalAll(8, {downloadAttachments: false, attachmentFilterWhitelist: [], attachmentFilterBlacklist: [], attachmentFilterDLOther: true})).toBe(true);
+		expect(dataProxy.packets).toEqual([
+			{data: [
+				...int(203), ...short(7),
+				...bool(true), ...long(timeLower.getTime()),
+				...bool(true),
+				...bool(true), ...long(timeUpper.getTime()),
+				...bool(true), ...long(1024),
+				...array([string("image/*")]), ...array([string("video/*")]),
+				...bool(false)
+			], encrypt: true},
+			{data: [...int(203), ...short(8), ...bool(false), ...bool(false)], encrypt: true}
+		]);
+	});
+	
+	test("reads conversations, messages and files on comm 5.3", async () => {
+		const {protocol, listener} = createProtocol(3);
+		receive(protocol, [...int(203), ...short(7), ...int(0), ...array([availableConversationPacket, unavailableConversationPacket]), ...int(12)]);
+		receive(protocol, [...int(203), ...short(7), ...int(1), ...array([messagePacket(versions[2]), chatRenamePacket])]);
+		receive(protocol, [...int(204), ...short(7), ...int(0), ...string("photo.png"), ...bool(false), ...string("file-guid"), ...payload(deflateHello.slice(0, 6))]);
+		receive(protocol, [...int(204), ...short(7), ...int(1), ...bool(true), ...string("file-guid"), ...payload(deflateHello.slice(6))]);
+		receive(protocol, int(205));
+		
+		//Only available conversations are included
+		expect(listener.onMassRetrievalStart).toHaveBeenCalledWith(7, [availableConversation], 12);
+		
+		const [[requestID, responseIndex, data]] = listener.onMassRetrievalUpdate.mock.calls;
+		expect([requestID, responseIndex, normalize(data)]).toEqual([7, 1, [chatRenameItem, messageItem]]);
+		
+		expect(listener.onMassRetrievalFileStart).toHaveBeenCalledWith(7, "file-guid", "photo.png", expect.any(InflatorAccumulator));
+		expect(listener.onMassRetrievalFileData.mock.calls.map(([requestID, responseIndex, fileGUID, data]) => [requestID, responseIndex, fileGUID, normalize(data)])).toEqual([
+			[7, 0, "file-guid", deflateHello.slice(0, 6)],
+			[7, 1, "file-guid", deflateHello.slice(6)]
+		]);
+		expect(listener.onMassRetrievalFileComplete).toHaveBeenCalledWith(7, "file-guid");
+		expect(listener.onMassRetrievalComplete).toHaveBeenCalledTimes(1);
+		
+		const [[, , , accumulator]] = listener.onMassRetrievalFileStart.mock.calls;
+		expect(await readAccumulator(accumulator, listener.onMassRetrievalFileData.mock.calls.map(([, , , data]) => data))).toEqual(text("hello"));
+	});
+});
+
+describe("tapbacks", () => {
+	test.each([1, 2, 3])("can't be sent on comm 5.%d", (subVersion) => {
+		jest.spyOn(console, "warn").mockImplementation(() => undefined);
+		
+		const {protocol, dataProxy} = createProtocol(subVersion);
+		expect(protocol.canSendTapbacks).toBe(false);
+		expect(protocol.sendTapback(7, "chat-guid", "message-guid", 1, TapbackType.Laugh, true)).toBe(false);
+		expect(dataProxy.packets).toEqual([]);
+	});
+	
+	//No released server understands this request, so this only pins down the layout the loopback server reads
+	test("are sent on provisional comm 5.4", () => {
+		const {protocol, dataProxy} = createProtocol(4);
+		expect(protocol.canSendTapbacks).toBe(true);
+		expect(protocol.sendTapback(7, "chat-guid", "message-guid", 1, TapbackType.Laugh, true)).toBe(true);
+		expect(protocol.sendTapback(8, "chat-guid", "message-guid", 0, TapbackType.Love, false)).toBe(true);
+		expect(dataProxy.packets).toEqual([
+			{data: [...int(406), ...short(7), ...string("chat-guid"), ...string("message-guid"), ...int(1), ...int(3), ...bool(true)], encrypt: true},
+			{data: [...int(406), ...short(8), ...string("chat-guid"), ...string("message-guid"), ...int(0), ...int(0), ...bool(false)], encrypt: true}
+		]);
+	});
+});
+
+describe("reply targets", () => {
+	//No released server sends reply targets, so this only pins down the layout the loopback server writes
+	test("are read on provisional comm 5.5", () => {
+		const {protocol, listener} = createProtocol(5);
+		receive(protocol, [...int(200), ...array([
+			[...messagePacket(versions[2]), ...nullableString("target-guid"), ...int(1)],
+			[...messagePacket(versions[2]), ...nullableString(undefined)]
+		])]);
+		
+		const [[data]] = listener.onMessageUpdate.mock.calls;
+		expect(normalize(data)).toEqual([messageItem, {...messageItem, replyTarget: {guid: "target-guid", messageIndex: 1}}]);
+	});
+});
\ No newline at end of file
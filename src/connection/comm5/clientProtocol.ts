@@ -10,9 +10,11 @@ import {
 	Conversation,
 	ConversationItem,
 	ConversationPreviewMessage,
+	MassRetrievalParams,
 	MessageItem,
 	MessageModifier,
 	ParticipantAction,
+	ReplyTarget,
 	StatusUpdate,
 	StickerItem,
 	TapbackItem
@@ -30,44 +32,17 @@ import {
 	ParticipantActionType,
 	TapbackType
 } from "../../data/stateCodes";
-import {arrayBufferToHex} from "../../util/fileUtils";
+import {arrayBufferToHex, blobToArrayBuffer} from "../../util/fileUtils";
 import SparkMD5 from "spark-md5";
-import {InflatorAccumulator} from "../transferAccumulator";
-import {encryptData, isCryptoPasswordAvailable} from "shared/util/encryptionUtils";
-
+import {BasicAccumulator, InflatorAccumulator} from "../transferAccumulator";
+import {gzipData, PacketStreamCompressor, ungzipData} from "../worker/packetWorkerClient";
+import {encryptData, getCryptoKey} from "shared/util/encryptionUtils";
+import {ProtocolVersion} from "./protocolVersions";
+import ClientComm5 from "./clientComm5";
+import DataProxy from "../dataProxy";
 
 const attachmentChunkSize = 2 * 1024 * 1024; //2 MiB
 
-//Top-level net header type values
-const nhtClose = 0;
-const nhtPing = 1;
-const nhtPong = 2;
-
-const nhtAuthentication = 101;
-
-const nhtMessageUpdate = 200;
-const nhtTimeRetrieval = 201;
-const nhtIDRetrieval = 202;
-const nhtMassRetrieval = 203;
-const nhtMassRetrievalFile = 204;
-const nhtMassRetrievalFinish = 205;
-const nhtConversationUpdate = 206;
-const nhtModifierUpdate = 207;
-const nhtAttachmentReq = 208;
-const nhtAttachmentReqConfirm = 209;
-const nhtAttachmentReqFail = 210;
-const nhtIDUpdate = 211;
-
-const nhtLiteConversationRetrieval = 300;
-const nhtLiteThreadRetrieval = 301;
-
-const nhtSendResult = 400;
-const nhtSendTextExisting = 401;
-const nhtSendTextNew = 402;
-const nhtSendFileExisting = 403;
-const nhtSendFileNew = 404;
-const nhtCreateChat = 405;
-
 //State codes
 enum NRCMessageReceiptState {
 	Idle = 0,
@@ -134,7 +109,14 @@ enum NSTGroupActionType {
 
 type AMBrowser = "chrome" | "safari" | "firefox" | "edge" | "browser";
 
-export default class ClientProtocol3 extends ProtocolManager {
+/**
+ * Implements all comm5 sub-versions, following the differences described by a protocol version
+ */
+export default class ClientProtocol extends ProtocolManager {
+	constructor(communicationsManager: ClientComm5, dataProxy: DataProxy, private readonly version: ProtocolVersion) {
+		super(communicationsManager, dataProxy);
+	}
+	
 	processData(data: ArrayBuffer, wasEncrypted: boolean): void {
 		//Notifying the communications manager of a new incoming message
 		this.communicationsManager.listener?.onPacket();
@@ -152,62 +134,76 @@ export default class ClientProtocol3 extends ProtocolManager {
 	}
 	
 	private processDataInsecure(messageType: number, unpacker: AirUnpacker) {
+		const nht = this.version.nht;
 		switch(messageType) {
-			case nhtClose:
+			case nht.close:
 				this.communicationsManager.disconnect(ConnectionErrorCode.Connection);
 				break;
-			case nhtPing: {
+			case nht.ping: {
 				//Replying with a pong
 				const packer = AirPacker.get();
 				try {
-					packer.packInt(nhtPong);
+					packer.packInt(this.version.nht.pong);
 					this.dataProxy.send(packer.toArrayBuffer(), false);
 				} finally {
 					packer.reset();
 				}
-			
+				
 				break;
 			}
-			case nhtAuthentication:
+			case nht.pong:
+				this.communicationsManager.listener?.onPong();
+				break;
+			case nht.authentication:
 				this.handleMessageAuthentication(unpacker);
 				break;
 		}
 	}
 	
 	private processDataSecure(messageType: number, unpacker: AirUnpacker) {
+		const nht = this.version.nht;
 		switch(messageType) {
-			case nhtMessageUpdate:
-			case nhtTimeRetrieval:
+			case nht.messageUpdate:
+			case nht.timeRetrieval:
 				this.handleMessageUpdate(unpacker);
 				break;
-			case nhtConversationUpdate:
+			case nht.massRetrieval:
+				this.handleMessageMassRetrieval(unpacker);
+				break;
+			case nht.massRetrievalFile:
+				this.handleMessageMassRetrievalFile(unpacker);
+				break;
+			case nht.massRetrievalFinish:
+				this.handleMessageMassRetrievalFinish();
+				break;
+			case nht.conversationUpdate:
 				this.handleConversationUpdate(unpacker);
 				break;
-			case nhtModifierUpdate:
+			case nht.modifierUpdate:
 				this.handleModifierUpdate(unpacker);
 				break;
-			case nhtAttachmentReq:
+			case nht.attachmentReq:
 				this.handleMessageAttachmentRequest(unpacker);
 				break;
-			case nhtAttachmentReqConfirm:
+			case nht.attachmentReqConfirm:
 				this.handleMessageAttachmentRequestConfirm(unpacker);
 				break;
-			case nhtAttachmentReqFail:
+			case nht.attachmentReqFail:
 				this.handleMessageAttachmentRequestFail(unpacker);
 				break;
-			case nhtIDUpdate:
+			case nht.idUpdate:
 				this.handleMessageIDUpdate(unpacker);
 				break;
-			case nhtLiteConversationRetrieval:
+			case nht.liteConversationRetrieval:
 				this.handleMessageLiteConversationRetrieval(unpacker);
 				break;
-			case nhtLiteThreadRetrieval:
+			case nht.liteThreadRetrieval:
 				this.handleMessageLiteThreadRetrieval(unpacker);
 				break;
-			case nhtSendResult:
+			case nht.sendResult:
 				this.handleMessageSendResult(unpacker);
 				break;
-			case nhtCreateChat:
+			case nht.createChat:
 				this.handleMessageCreateChat(unpacker);
 				break;
 			default:
@@ -251,17 +247,58 @@ export default class ClientProtocol3 extends ProtocolManager {
 	}
 	
 	private handleMessageUpdate(unpacker: AirUnpacker) {
-		const messages = unpackArray(unpacker, unpackConversationItem).reverse();
+		const messages = unpackArray(unpacker, (unpacker) => unpackConversationItem(unpacker, this.version)).reverse();
 		this.communicationsManager.listener?.onMessageUpdate(messages);
 	}
 	
+	private handleMessageMassRetrieval(unpacker: AirUnpacker) {
+		//Reading the request information
+		const requestID = unpacker.unpackShort();
+		const responseIndex = unpacker.unpackInt(); //Used to ensure that packets are received and processed in order
+		
+		if(responseIndex === 0) {
+			//The first packet contains the conversation list and the total message count
+			const conversations = unpackArray(unpacker, unpackRequestedConversation)
+				.filter((entry): entry is [string, Conversation] => entry[1] !== undefined)
+				.map(([, conversation]) => conversation);
+			const messageCount = unpacker.unpackInt();
+			
+			this.communicationsManager.listener?.onMassRetrievalStart(requestID, conversations, messageCount);
+		} else {
+			//Following packets contain pages of conversation items
+			const conversationItems = unpackArray(unpacker, (unpacker) => unpackConversationItem(unpacker, this.version)).reverse();
+			
+			this.communicationsManager.listener?.onMassRetrievalUpdate(requestID, responseIndex, conversationItems);
+		}
+	}
+	
+	private handleMessageMassRetrievalFile(unpacker: AirUnpacker) {
+		//Reading the response data
+		const requestID = unpacker.unpackShort();
+		const requestIndex = unpacker.unpackInt();
+		const fileName = requestIndex === 0 ? unpacker.unpackString() : undefined;
+		const isLast = unpacker.unpackBoolean();
+		
+		const fileGUID = unpacker.unpackString();
+		const fileData = unpacker.unpackPayload();
+		
+		//Falling back to the file's GUID if the server didn't provide a name
+		if(fileName !== undefined) this.communicationsManager.listener?.onMassRetrievalFileStart(requestID, fileGUID, fileName.length > 0 ? fileName : fileGUID, new InflatorAccumulator());
+		this.communicationsManager.listener?.onMassRetrievalFileData(requestID, requestIndex, fileGUID, fileData);
+		if(isLast) this.communicationsManager.listener?.onMassRetrievalFileComplete(requestID, fileGUID);
+	}
+	
+	private handleMessageMassRetrievalFinish() {
+		this.communicationsManager.listener?.onMassRetrievalComplete();
+	}
+	
 	private handleConversationUpdate(unpacker: AirUnpacker) {
 		const conversations = unpackArray(unpacker, unpackRequestedConversation);
 		this.communicationsManager.listener?.onConversationUpdate(conversations);
 	}
 	
 	private handleModifierUpdate(unpacker: AirUnpacker) {
-		const modifiers = unpackArray(unpacker, unpackModifier);
+		const modifiers = unpackArray(unpacker, (unpacker) => unpackModifier(unpacker, this.version));
 		this.communicationsManager.listener?.onModifierUpdate(modifiers);
 	}
 	
@@ -275,9 +312,24 @@ export default class ClientProtocol3 extends ProtocolManager {
 		const fileGUID = unpacker.unpackString();
 		const fileData = unpacker.unpackPayload();
 		
-		if(requestIndex === 0) this.communicationsManager.listener?.onFileRequestStart(requestID, fileLength!, new InflatorAccumulator());
-		this.communicationsManager.listener?.onFileRequestData(requestID, fileData);
-		if(isLast) this.communicationsManager.listener?.onFileRequestComplete(requestID);
+		if(requestIndex === 0) {
+			const accumulator = this.version.fileCompression === "gzipChunks" ? new BasicAccumulator(fileLength!) : new InflatorAccumulator();
+			this.communicationsManager.listener?.onFileRequestStart(requestID, fileLength!, accumulator);
+		}
+		
+		if(this.version.fileCompression === "gzipChunks") {
+			//Every chunk is compressed on its own, and the packet worker finishes decompressing them in the order they were received
+			ungzipData(fileData).then((data) => {
+				this.communicationsManager.listener?.onFileRequestData(requestID, data);
+				if(isLast) this.communicationsManager.listener?.onFileRequestComplete(requestID);
+			}, (error) => {
+				console.warn("Failed to decompress attachment chunk", error);
+				this.communicationsManager.listener?.onFileRequestFail(requestID, AttachmentRequestErrorCode.BadResponse);
+			});
+		} else {
+			this.communicationsManager.listener?.onFileRequestData(requestID, fileData);
+			if(isLast) this.communicationsManager.listener?.onFileRequestComplete(requestID);
+		}
 	}
 	
 	private handleMessageAttachmentRequestConfirm(unpacker: AirUnpacker) {
@@ -311,7 +363,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 		const chatGUID = unpacker.unpackString();
 		const firstMessageID: number | undefined = unpacker.unpackBoolean() ? unpacker.unpackLong() : undefined;
 		//Unlike Android, the bottom of the chat is index 0
-		const conversationItems = unpackArray(unpacker, unpackConversationItem).reverse();
+		const conversationItems = unpackArray(unpacker, (unpacker) => unpackConversationItem(unpacker, this.version)).reverse();
 		
 		this.communicationsManager.listener?.onMessageThread(chatGUID, firstMessageID, conversationItems);
 	}
@@ -337,7 +389,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	sendPing(): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtPing);
+			packer.packInt(this.version.nht.ping);
 			this.dataProxy.send(packer.toArrayBuffer(), false);
 		} finally {
 			packer.reset();
@@ -355,7 +407,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 		const browserName = (browser.name && browser.version) ? `${browser.name} ${browser.version}` : null;
 		const platformName = (os.name && os.version) ? `${os.name} ${os.version}` : null;
 		
-		const installationID = getInstallationID();
+		const installationID = await getInstallationID(this.dataProxy.accountID);
 		let clientName: string;
 		if(browserName && platformName) clientName = browserName + " — " + platformName;
 		else if(browserName) clientName = browserName;
@@ -366,7 +418,8 @@ export default class ClientProtocol3 extends ProtocolManager {
 		//Checking if the current protocol requires authentication
 		if(unpacker.unpackBoolean()) {
 			//Checking if we don't have a password to use
-			if(!isCryptoPasswordAvailable()) {
+			const cryptoKey = getCryptoKey(this.dataProxy.accountID);
+			if(!cryptoKey && this.version.authRequiresPassword) {
 				//Failing the connection
 				this.communicationsManager.disconnect(ConnectionErrorCode.Unauthorized);
 				return false;
@@ -377,7 +430,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 			
 			const packer = AirPacker.get();
 			try {
-				packer.packInt(nhtAuthentication);
+				packer.packInt(this.version.nht.authentication);
 				
 				//Building the secure data
 				let secureData: ArrayBuffer;
@@ -391,17 +444,22 @@ export default class ClientProtocol3 extends ProtocolManager {
 				}
 				
 				//Encrypting the secure data and adding it to the original message
-				packer.packPayload(await encryptData(secureData));
+				//Older versions don't check for a password first, so encryption fails without one
+				packer.packPayload(await encryptData(secureData, cryptoKey!));
 				
 				this.dataProxy.send(packer.toArrayBuffer(), false);
 			} finally {
 				packer.reset();
 			}
-		} else {
-			//Sending a response
+			
+			if(this.version.authPlainResponse === "unsecured") return true;
+		}
+		
+		//Sending a response
+		{
 			const packer = AirPacker.get();
 			try {
-				packer.packInt(nhtAuthentication);
+				packer.packInt(this.version.nht.authentication);
 				packer.packString(installationID);
 				packer.packString(clientName);
 				packer.packString(platformID);
@@ -418,7 +476,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	sendMessage(requestID: number, chatGUID: string, message: string): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtSendTextExisting);
+			packer.packInt(this.version.nht.sendTextExisting);
 			packer.packShort(requestID);
 			packer.packString(chatGUID);
 			packer.packString(message);
@@ -431,31 +489,39 @@ export default class ClientProtocol3 extends ProtocolManager {
 		return true;
 	}
 	
-	async sendFile(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string> {
-		//TODO find some way to stream deflate
-		const fileData = await file.arrayBuffer();
-		const hash = SparkMD5.ArrayBuffer.hash(fileData);
-		const compressedData = pako.deflate(new Uint8Array(fileData));
+	sendFile(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string> {
+		if(this.version.fileCompression === "gzipChunks") {
+			return this.sendFileGzipChunks(requestID, chatGUID, file, progressCallback);
+		} else {
+			return this.sendFileDeflateStream(requestID, chatGUID, file, progressCallback);
+		}
+	}
+	
+	//Compresses and uploads every chunk of the file on its own
+	private async sendFileGzipChunks(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string> {
+		const spark = new SparkMD5.ArrayBuffer();
+		let bytesSent = 0;
 		
 		try {
 			//Reading the file
 			let chunkIndex = 0;
 			let readOffset = 0;
-			while(readOffset < compressedData.length) {
+			while(readOffset < file.size) {
 				const newOffset = readOffset + attachmentChunkSize;
-				const chunkData = compressedData.slice(readOffset, newOffset);
+				const chunkData: ArrayBuffer = await blobToArrayBuffer(file.slice(readOffset, newOffset));
+				const compressedData = await gzipData(chunkData);
 				
 				//Uploading the data
 				const packer = AirPacker.get();
 				try {
-					packer.packInt(nhtSendFileExisting);
+					packer.packInt(this.version.nht.sendFileExisting);
 					
 					packer.packShort(requestID);
 					packer.packInt(chunkIndex);
 					packer.packBoolean(newOffset >= file.size); //Is this the last part?
 					
 					packer.packString(chatGUID);
-					packer.packPayload(chunkData);
+					packer.packPayload(compressedData);
 					if(chunkIndex === 0) packer.packString(file.name);
 					
 					this.dataProxy.send(packer.toArrayBuffer(), true);
@@ -463,25 +529,140 @@ export default class ClientProtocol3 extends ProtocolManager {
 					packer.reset();
 				}
 				
+				//Hashing the data
+				spark.append(chunkData);
+				
 				//Updating the index and read offset
 				chunkIndex++;
 				readOffset = newOffset;
 				
-				//Updating the progress
-				progressCallback(Math.min(readOffset, file.size));
+				//Updating the progress with the compressed size, since that's what goes over the network
+				bytesSent += compressedData.byteLength;
+				progressCallback(bytesSent);
+			}
+		} catch(error) {
+			return Promise.reject({code: MessageErrorCode.LocalIO} as MessageError);
+		}
+		
+		//Returning with the file's MD5 hash
+		return spark.end(false);
+	}
+	
+	//Compresses the file as a single stream, and uploads it in chunks
+	private async sendFileDeflateStream(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string> {
+		const spark = new SparkMD5.ArrayBuffer();
+		
+		//Compressed data that hasn't been uploaded yet
+		const pendingData: Uint8Array[] = [];
+		let pendingLength = 0;
+		const deflate = new PacketStreamCompressor("deflate");
+		
+		let chunkIndex = 0;
+		let bytesSent = 0;
+		const sendChunk = (isLast: boolean) => {
+			//Taking up to a chunk's worth of compressed data
+			const chunkData = new Uint8Array(Math.min(pendingLength, attachmentChunkSize));
+			let chunkOffset = 0;
+			while(chunkOffset < chunkData.length) {
+				const data = pendingData[0];
+				const copyLength = Math.min(data.length, chunkData.length - chunkOffset);
+				chunkData.set(data.subarray(0, copyLength), chunkOffset);
+				chunkOffset += copyLength;
+				
+				if(copyLength === data.length) pendingData.shift();
+				else pendingData[0] = data.subarray(copyLength);
 			}
+			pendingLength -= chunkData.length;
+			
+			//Uploading the data
+			const packer = AirPacker.get();
+			try {
+				packer.packInt(this.version.nht.sendFileExisting);
+				
+				packer.packShort(requestID);
+				packer.packInt(chunkIndex);
+				packer.packBoolean(isLast);
+				
+				packer.packString(chatGUID);
+				packer.packPayload(chunkData);
+				if(chunkIndex === 0) packer.packString(file.name);
+				
+				this.dataProxy.send(packer.toArrayBuffer(), true);
+			} finally {
+				packer.reset();
+			}
+			
+			chunkIndex++;
+			
+			//Updating the progress with the compressed size, since that's what goes over the network
+			bytesSent += chunkData.length;
+			progressCallback(bytesSent);
+		};
+		
+		try {
+			//Reading the file
+			let readOffset = 0;
+			do {
+				const newOffset = Math.min(readOffset + attachmentChunkSize, file.size);
+				const fileData: ArrayBuffer = await blobToArrayBuffer(file.slice(readOffset, newOffset));
+				const isFinal = newOffset >= file.size;
+				readOffset = newOffset;
+				
+				//Hashing and compressing the data
+				spark.append(fileData);
+				for(const chunk of await deflate.push(fileData, isFinal)) {
+					pendingData.push(new Uint8Array(chunk));
+					pendingLength += chunk.byteLength;
+				}
+				
+				//Uploading full chunks, holding back the remainder until there is enough to fill another one or the file has been fully read
+				while(pendingLength > attachmentChunkSize || (isFinal && pendingLength > 0)) {
+					sendChunk(isFinal && pendingLength <= attachmentChunkSize);
+				}
+			} while(readOffset < file.size);
 		} catch(error) {
+			deflate.end();
 			return Promise.reject({code: MessageErrorCode.LocalIO} as MessageError);
 		}
 		
 		//Returning with the file's MD5 hash
-		return hash;
+		return spark.end(false);
+	}
+	
+	//Only provisional comm5.4 defines the tapback request (NHT 406), which no released server understands
+	sendTapback(requestID: number, chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): boolean {
+		if(this.version.nht.sendTapback === undefined) {
+			console.warn("Send tapback not supported");
+			return false;
+		}
+		
+		const packer = AirPacker.get();
+		try {
+			packer.packInt(this.version.nht.sendTapback);
+			
+			packer.packShort(requestID);
+			packer.packString(chatGUID);
+			packer.packString(messageGUID);
+			packer.packInt(messageIndex);
+			packer.packInt(mapTapbackCode(tapbackType));
+			packer.packBoolean(isAddition);
+			
+			this.dataProxy.send(packer.toArrayBuffer(), true);
+		} finally {
+			packer.reset();
+		}
+		
+		return true;
+	}
+	
+	get canSendTapbacks(): boolean {
+		return this.version.nht.sendTapback !== undefined;
 	}
 	
 	requestAttachmentDownload(requestID: number, attachmentGUID: string): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtAttachmentReq);
+			packer.packInt(this.version.nht.attachmentReq);
 			
 			packer.packShort(requestID);
 			packer.packInt(attachmentChunkSize);
@@ -498,7 +679,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	requestLiteConversation(): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtLiteConversationRetrieval);
+			packer.packInt(this.version.nht.liteConversationRetrieval);
 			this.dataProxy.send(packer.toArrayBuffer(), true);
 		} finally {
 			packer.reset();
@@ -510,7 +691,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	requestConversationInfo(chatGUIDs: string[]): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtConversationUpdate);
+			packer.packInt(this.version.nht.conversationUpdate);
 			
 			packer.packArrayHeader(chatGUIDs.length);
 			for(const chatGUID of chatGUIDs) packer.packString(chatGUID);
@@ -526,7 +707,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	requestLiteThread(chatGUID: string, firstMessageID?: number): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtLiteThreadRetrieval);
+			packer.packInt(this.version.nht.liteThreadRetrieval);
 			packer.packString(chatGUID);
 			if(firstMessageID) {
 				packer.packBoolean(true);
@@ -545,7 +726,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	requestChatCreation(requestID: number, members: string[], service: string): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtCreateChat);
+			packer.packInt(this.version.nht.createChat);
 			
 			packer.packShort(requestID);
 			packer.packArrayHeader(members.length);
@@ -563,7 +744,7 @@ export default class ClientProtocol3 extends ProtocolManager {
 	requestRetrievalTime(timeLower: Date, timeUpper: Date): boolean {
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtTimeRetrieval);
+			packer.packInt(this.version.nht.timeRetrieval);
 			
 			packer.packLong(timeLower.getTime());
 			packer.packLong(timeUpper.getTime());
@@ -577,13 +758,74 @@ export default class ClientProtocol3 extends ProtocolManager {
 	}
 	
 	requestRetrievalID(idLower: number, timeLower: Date, timeUpper: Date): boolean {
+		if(this.version.nht.idRetrieval === undefined) {
+			console.warn("Request retrieval ID not supported");
+			return false;
+		}
+		
 		const packer = AirPacker.get();
 		try {
-			packer.packInt(nhtIDRetrieval);
+			packer.packInt(this.version.nht.idRetrieval);
 			
 			packer.packLong(idLower);
-			packer.packLong(timeLower.getTime());
-			packer.packLong(timeUpper.getTime());
+			if(this.version.idRetrievalTimeRange) {
+				packer.packLong(timeLower.getTime());
+				packer.packLong(timeUpper.getTime());
+			}
+			
+			this.dataProxy.send(packer.toArrayBuffer(), true);
+		} finally {
+			packer.reset();
+		}
+		
+		return true;
+	}
+	
+	requestRetrievalAll(requestID: number, params: MassRetrievalParams): boolean {
+		if(!this.version.massRetrieval) {
+			console.warn("Request mass retrieval not supported");
+			return false;
+		}
+		
+		const packer = AirPacker.get();
+		try {
+			packer.packInt(this.version.nht.massRetrieval);
+			
+			packer.packShort(requestID);
+			
+			//Message time restriction
+			if(params.timeMessages) {
+				packer.packBoolean(true);
+				packer.packLong(params.timeMessages.getTime());
+			} else {
+				packer.packBoolean(false);
+			}
+			
+			packer.packBoolean(params.downloadAttachments);
+			if(params.downloadAttachments) {
+				//Attachment time restriction
+				if(params.timeAttachments) {
+					packer.packBoolean(true);
+					packer.packLong(params.timeAttachments.getTime());
+				} else {
+					packer.packBoolean(false);
+				}
+				
+				//Attachment size restriction
+				if(params.sizeAttachments !== undefined) {
+					packer.packBoolean(true);
+					packer.packLong(params.sizeAttachments);
+				} else {
+					packer.packBoolean(false);
+				}
+				
+				//Attachment type filters
+				packer.packArrayHeader(params.attachmentFilterWhitelist.length);
+				for(const filter of params.attachmentFilterWhitelist) packer.packString(filter);
+				packer.packArrayHeader(params.attachmentFilterBlacklist.length);
+				for(const filter of params.attachmentFilterBlacklist) packer.packString(filter);
+				packer.packBoolean(params.attachmentFilterDLOther);
+			}
 			
 			this.dataProxy.send(packer.toArrayBuffer(), true);
 		} finally {
@@ -687,7 +929,7 @@ function unpackArray<T>(unpacker: AirUnpacker, unpackerFunction: (unpacker: AirU
 	return array;
 }
 
-function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null {
+function unpackConversationItem(unpacker: AirUnpacker, version: ProtocolVersion): ConversationItem | null {
 	//Unpacking the shared data
 	const itemType = mapCodeConversationItemType(unpacker.unpackInt());
 	const serverID = unpacker.unpackLong();
@@ -704,22 +946,30 @@ function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null
 			const text = unpacker.unpackNullableString();
 			const subject = unpacker.unpackNullableString();
 			const sender = unpacker.unpackNullableString();
-			const attachments = unpackArray(unpacker, unpackAttachment);
-			const stickers = unpackArray(unpacker, unpackModifier) as StickerItem[];
-			const tapbacks = unpackArray(unpacker, unpackModifier) as TapbackItem[];
+			const attachments = unpackArray(unpacker, (unpacker) => unpackAttachment(unpacker, version));
+			const stickers = unpackArray(unpacker, (unpacker) => unpackModifier(unpacker, version)) as StickerItem[];
+			const tapbacks = unpackArray(unpacker, (unpacker) => unpackModifier(unpacker, version)) as TapbackItem[];
 			const sendStyle = unpacker.unpackNullableString();
 			const statusCode = mapCodeMessageStatus(unpacker.unpackInt());
 			const errorCode = mapCodeDBError(unpacker.unpackInt());
 			const error: MessageError | undefined = errorCode ? {code: errorCode} : undefined;
 			const dateRead = new Date(unpacker.unpackLong());
-		
+			
+			//Only provisional comm5.5 includes reply targets, which no released server sends
+			//The part index is only included if the message is a reply
+			let replyTarget: ReplyTarget | undefined = undefined;
+			if(version.replyTargets) {
+				const replyGUID = unpacker.unpackNullableString();
+				if(replyGUID !== undefined) replyTarget = {guid: replyGUID, messageIndex: unpacker.unpackInt()};
+			}
+			
 			return {
 				itemType: itemType,
 				serverID: serverID,
 				guid: guid,
 				chatGuid: chatGuid,
 				date: date,
-			
+				
 				text: text,
 				subject: subject,
 				sender: sender,
@@ -727,6 +977,7 @@ function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null
 				stickers: stickers,
 				tapbacks: tapbacks,
 				sendStyle: sendStyle,
+				replyTarget: replyTarget,
 				status: statusCode,
 				error: error,
 				statusDate: dateRead
@@ -736,14 +987,14 @@ function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null
 			const user = unpacker.unpackNullableString();
 			const target = unpacker.unpackNullableString();
 			const actionType = mapParticipantActionType(unpacker.unpackInt());
-		
+			
 			return {
 				itemType: itemType,
 				serverID: serverID,
 				guid: guid,
 				chatGuid: chatGuid,
 				date: date,
-			
+				
 				type: actionType,
 				user: user,
 				target: target
@@ -752,14 +1003,14 @@ function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null
 		case ConversationItemType.ChatRenameAction: {
 			const user = unpacker.unpackNullableString();
 			const chatName = unpacker.unpackNullableString();
-		
+			
 			return {
 				itemType: itemType,
 				serverID: serverID,
 				guid: guid,
 				chatGuid: chatGuid,
 				date: date,
-			
+				
 				user: user,
 				chatName: chatName
 			} as ChatRenameAction;
@@ -767,14 +1018,14 @@ function unpackConversationItem(unpacker: AirUnpacker): ConversationItem | null
 	}
 }
 
-function unpackAttachment(unpacker: AirUnpacker): AttachmentItem {
+function unpackAttachment(unpacker: AirUnpacker, version: ProtocolVersion): AttachmentItem {
 	const guid = unpacker.unpackString();
 	const name = unpacker.unpackString();
 	const type = unpacker.unpackNullableString() ?? "application/octet-stream";
 	const size = unpacker.unpackLong();
 	const checksum = unpacker.unpackNullablePayload();
 	const checksumString = checksum && arrayBufferToHex(checksum);
-	const sort = unpacker.unpackLong();
+	if(version.attachmentSort) /*const sort = */unpacker.unpackLong();
 	
 	return {
 		guid: guid,
@@ -785,7 +1036,7 @@ function unpackAttachment(unpacker: AirUnpacker): AttachmentItem {
 	};
 }
 
-function unpackModifier(unpacker: AirUnpacker): MessageModifier | null {
+function unpackModifier(unpacker: AirUnpacker, version: ProtocolVersion): MessageModifier | null {
 	//Unpacking the shared data
 	const type = unpacker.unpackInt();
 	const messageGuid = unpacker.unpackString();
@@ -797,7 +1048,7 @@ function unpackModifier(unpacker: AirUnpacker): MessageModifier | null {
 		case NSTModifierType.Activity: {
 			const status = mapCodeMessageStatus(unpacker.unpackInt());
 			const date = new Date(unpacker.unpackLong());
-		
+			
 			return {
 				type: MessageModifierType.StatusUpdate,
 				messageGuid: messageGuid,
@@ -810,9 +1061,10 @@ function unpackModifier(unpacker: AirUnpacker): MessageModifier | null {
 			/*const fileGUID = */unpacker.unpackString();
 			const sender = unpacker.unpackNullableString();
 			const date = new Date(unpacker.unpackLong());
-			const data = pako.inflate(new Uint8Array(unpacker.unpackPayload()));
+			const payload = new Uint8Array(unpacker.unpackPayload());
+			const data = version.fileCompression === "gzipChunks" ? pako.ungzip(payload) : pako.inflate(payload);
 			const dataType = unpacker.unpackString();
-		
+			
 			return {
 				type: MessageModifierType.Sticker,
 				messageGuid: messageGuid,
@@ -833,7 +1085,7 @@ function unpackModifier(unpacker: AirUnpacker): MessageModifier | null {
 				console.warn(`Unknown Apple tapback type ${dbTapbackType}`);
 				return null;
 			}
-		
+			
 			return {
 				type: MessageModifierType.Tapback,
 				messageGuid: messageGuid,
@@ -965,4 +1217,21 @@ function mapTapbackType(code: number): TapbackType | undefined {
 		default:
 			return undefined;
 	}
+}
+
+function mapTapbackCode(type: TapbackType): number {
+	switch(type) {
+		case TapbackType.Love:
+			return 0;
+		case TapbackType.Like:
+			return 1;
+		case TapbackType.Dislike:
+			return 2;
+		case TapbackType.Laugh:
+			return 3;
+		case TapbackType.Emphasis:
+			return 4;
+		case TapbackType.Question:
+			return 5;
+	}
 }
\ No newline at end of file
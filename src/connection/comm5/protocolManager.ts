@@ -1,6 +1,8 @@
 import AirUnpacker from "./airUnpacker";
 import ClientComm5 from "./clientComm5";
 import DataProxy from "../dataProxy";
+import {MassRetrievalParams} from "../../data/blocks";
+import {TapbackType} from "../../data/stateCodes";
 
 export default abstract class ProtocolManager {
 	constructor(protected communicationsManager: ClientComm5, protected dataProxy: DataProxy) {
@@ -46,11 +48,29 @@ export default abstract class ProtocolManager {
 	 * @param requestID the ID of the request
 	 * @param chatGUID the GUID of the target conversation
 	 * @param file the file to send
-	 * @param progressCallback a callback called periodically with the number of bytes uploaded
+	 * @param progressCallback a callback called periodically with the number of compressed bytes uploaded
 	 * @return a promise that completes with the file hash once the file has been fully uploaded
 	 */
 	public abstract sendFile(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string>;
 	
+	/**
+	 * Adds or removes a tapback on a message, which the server responds to with a send result
+	 *
+	 * @param requestID the ID of the request
+	 * @param chatGUID the GUID of the message's conversation
+	 * @param messageGUID the GUID of the message to react to
+	 * @param messageIndex the index of the message part to react to
+	 * @param tapbackType the type of tapback
+	 * @param isAddition whether to add the tapback, or remove it
+	 * @return whether or not the request was successfully sent
+	 */
+	public abstract sendTapback(requestID: number, chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): boolean;
+	
+	/**
+	 * Gets whether this protocol version supports sending tapbacks
+	 */
+	public abstract get canSendTapbacks(): boolean;
+	
 	/**
 	 * Requests the download of a remote attachment
 	 *
@@ -109,7 +129,7 @@ export default abstract class ProtocolManager {
 	 * @param params the mass retrieval parameters to use
 	 * @return whether or not the request was successfully sent
 	 */
-	//public abstract requestRetrievalAll(requestID: number, params: any): boolean;
+	public abstract requestRetrievalAll(requestID: number, params: MassRetrievalParams): boolean;
 	
 	/**
 	 * Requests the creation of a new conversation on the server
@@ -0,0 +1,21 @@
+import {getProtocolVersion} from "./protocolVersions";
+
+describe("getProtocolVersion", () => {
+	test("finds released versions", () => {
+		for(const subVersion of [1, 2, 3]) {
+			expect(getProtocolVersion(subVersion)?.subVersion).toBe(subVersion);
+		}
+	});
+	
+	test("only finds provisional versions when they are allowed", () => {
+		for(const subVersion of [4, 5]) {
+			expect(getProtocolVersion(subVersion)).toBeUndefined();
+			expect(getProtocolVersion(subVersion, true)?.subVersion).toBe(subVersion);
+		}
+	});
+	
+	test("doesn't find unknown versions", () => {
+		expect(getProtocolVersion(0, true)).toBeUndefined();
+		expect(getProtocolVersion(99, true)).toBeUndefined();
+	});
+});
\ No newline at end of file
@@ -0,0 +1,173 @@
+//Top-level net header type values used by a protocol version
+export interface NHTTable {
+	close: number;
+	ping: number;
+	pong: number;
+	
+	authentication: number;
+	
+	messageUpdate: number;
+	timeRetrieval: number;
+	idRetrieval?: number;
+	massRetrieval: number;
+	massRetrievalFile: number;
+	massRetrievalFinish: number;
+	conversationUpdate: number;
+	modifierUpdate: number;
+	attachmentReq: number;
+	attachmentReqConfirm: number;
+	attachmentReqFail: number;
+	idUpdate?: number;
+	
+	liteConversationRetrieval: number;
+	liteThreadRetrieval: number;
+	
+	sendResult: number;
+	sendTextExisting: number;
+	sendTextNew: number;
+	sendFileExisting: number;
+	sendFileNew: number;
+	createChat: number;
+	sendTapback?: number;
+}
+
+/**
+ * Describes how a comm5 sub-version differs from the others
+ */
+export interface ProtocolVersion {
+	subVersion: number;
+	nht: NHTTable;
+	
+	//How file data is compressed when it is transferred
+	//"gzipChunks": every chunk is compressed on its own
+	//"deflateStream": the whole file is compressed as a single stream, which is then split into chunks
+	fileCompression: "gzipChunks" | "deflateStream";
+	attachmentSort: boolean; //Whether attachment info includes a sort value
+	idRetrievalTimeRange: boolean; //Whether ID-based retrievals are limited to a time range
+	massRetrieval: boolean; //Whether mass retrievals are supported
+	replyTargets: boolean; //Whether messages include the message they are an inline reply to, which only provisional comm5.5 defines
+	
+	//When the unencrypted authentication response is sent
+	//"always": after the encrypted response as well, if the server asks for one
+	//"unsecured": only if the server doesn't ask for an encrypted response
+	authPlainResponse: "always" | "unsecured";
+	authRequiresPassword: boolean; //Whether the connection fails as unauthorized if the server asks for an encrypted response without a password set
+	
+	//Whether this version is only defined by this app, and isn't used unless the data proxy allows it
+	//A released server that announces the same sub-version may mean something different by it
+	provisional: boolean;
+}
+
+const protocolVersion1: ProtocolVersion = {
+	subVersion: 1,
+	nht: {
+		close: 0,
+		ping: 1,
+		pong: 2,
+		
+		authentication: 101,
+		
+		messageUpdate: 200,
+		timeRetrieval: 201,
+		massRetrieval: 202,
+		massRetrievalFile: 203,
+		massRetrievalFinish: 204,
+		conversationUpdate: 205,
+		modifierUpdate: 206,
+		attachmentReq: 207,
+		attachmentReqConfirm: 208,
+		attachmentReqFail: 209,
+		
+		liteConversationRetrieval: 300,
+		liteThreadRetrieval: 301,
+		
+		sendResult: 400,
+		sendTextExisting: 401,
+		sendTextNew: 402,
+		sendFileExisting: 403,
+		sendFileNew: 404,
+		createChat: 405
+	},
+	fileCompression: "gzipChunks",
+	attachmentSort: false,
+	idRetrievalTimeRange: false,
+	massRetrieval: false,
+	replyTargets: false,
+	authPlainResponse: "always",
+	authRequiresPassword: false,
+	provisional: false
+};
+
+//Adds ID-based retrieval and ID updates, and streams file compression
+const protocolVersion2: ProtocolVersion = {
+	...protocolVersion1,
+	subVersion: 2,
+	nht: {
+		...protocolVersion1.nht,
+		idRetrieval: 202,
+		massRetrieval: 203,
+		massRetrievalFile: 204,
+		massRetrievalFinish: 205,
+		conversationUpdate: 206,
+		modifierUpdate: 207,
+		attachmentReq: 208,
+		attachmentReqConfirm: 209,
+		attachmentReqFail: 210,
+		idUpdate: 211
+	},
+	fileCompression: "deflateStream",
+	attachmentSort: true,
+	authPlainResponse: "unsecured"
+};
+
+//Adds time ranges to ID-based retrieval, and mass retrieval
+const protocolVersion3: ProtocolVersion = {
+	...protocolVersion2,
+	subVersion: 3,
+	idRetrievalTimeRange: true,
+	massRetrieval: true,
+	authRequiresPassword: true
+};
+
+//Adds sending tapbacks
+//Provisional: no released AirMessage server understands the tapback request (NHT 406), and there is no published specification for it.
+//Its header and layout follow the other send requests, and only the loopback server implements them.
+//This version is only used in builds made with --env provisional, so tapbacks can't be sent from any other build.
+const protocolVersion4: ProtocolVersion = {
+	...protocolVersion3,
+	subVersion: 4,
+	provisional: true,
+	nht: {
+		...protocolVersion3.nht,
+		sendTapback: 406
+	}
+};
+
+//Adds inline reply targets to messages
+//Provisional: no released AirMessage server sends reply targets, and there is no published specification for them.
+//The reply target's fields (the thread originator's GUID and part index) are read from the end of message info as this app defines them,
+//and only the loopback server sends them. This version is only used in builds made with --env provisional, so no other build shows inline replies.
+const protocolVersion5: ProtocolVersion = {
+	...protocolVersion4,
+	subVersion: 5,
+	replyTargets: true
+};
+
+const protocolVersions: ProtocolVersion[] = [protocolVersion1, protocolVersion2, protocolVersion3, protocolVersion4, protocolVersion5];
+
+/**
+ * Gets the definition of a comm5 sub-version
+ * @param subVersion The sub-version to look up
+ * @param allowProvisional Whether to include provisional versions, which only this app's loopback server uses
+ * @return The protocol version, or undefined if the sub-version isn't supported
+ */
+export function getProtocolVersion(subVersion: number, allowProvisional = false): ProtocolVersion | undefined {
+	return protocolVersions.find((version) => version.subVersion === subVersion && (allowProvisional || !version.provisional));
+}
+
+/**
+ * Gets the newest supported comm5 sub-version
+ */
+export function getLatestProtocolVersion(): ProtocolVersion {
+	return protocolVersions[protocolVersions.length - 1];
+}
\ No newline at end of file
@@ -1,12 +1,14 @@
 import DataProxy from "./dataProxy";
-import {AttachmentRequestErrorCode, ConnectionErrorCode, CreateChatErrorCode, MessageError} from "../data/stateCodes";
-import {Conversation, ConversationItem, MessageModifier} from "../data/blocks";
+import {AttachmentRequestErrorCode, ConnectionErrorCode, CreateChatErrorCode, MessageError, TapbackType} from "../data/stateCodes";
+import {Conversation, ConversationItem, MassRetrievalParams, MessageModifier} from "../data/blocks";
 import {TransferAccumulator} from "./transferAccumulator";
+import {ServerIdentity} from "../util/serverIdentityUtils";
 
 export interface CommunicationsManagerListener {
-	onOpen: (systemVersion: string, softwareVersion: string) => void;
+	onOpen: (identity: ServerIdentity) => void;
 	onClose: (reason: ConnectionErrorCode) => void;
 	onPacket: () => void;
+	onPong: () => void;
 	onMessageUpdate: (data: ConversationItem[]) => void;
 	onConversationUpdate: (data: [string, Conversation | undefined][]) => void;
 	onModifierUpdate: (data: MessageModifier[]) => void;
@@ -15,12 +17,49 @@ export interface CommunicationsManagerListener {
 	onFileRequestComplete: (requestID: number) => void;
 	onFileRequestFail: (requestID: number, error: AttachmentRequestErrorCode) => void;
 	onIDUpdate: (messageID: number) => void;
+	onMassRetrievalStart: (requestID: number, conversations: Conversation[], messageCount: number) => void;
+	onMassRetrievalUpdate: (requestID: number, responseIndex: number, data: ConversationItem[]) => void;
+	onMassRetrievalComplete: () => void;
+	onMassRetrievalFileStart: (requestID: number, fileGUID: string, fileName: string, accumulator: TransferAccumulator) => void;
+	onMassRetrievalFileData: (requestID: number, responseIndex: number, fileGUID: string, data: ArrayBuffer) => void;
+	onMassRetrievalFileComplete: (requestID: number, fileGUID: string) => void;
 	onMessageConversations: (data: Conversation[]) => void;
 	onMessageThread: (chatGUID: string, firstMessageID: number | undefined, data: ConversationItem[]) => void;
 	onSendMessageResponse: (requestID: number, error: MessageError | undefined) => void;
 	onCreateChatResponse: (requestID: number, error: CreateChatErrorCode | undefined, details: string | undefined) => void;
 }
 
+/**
+ * Creates a listener that ignores all events, for connections that only need to handle a few of them
+ */
+export function createIgnoringListener(): CommunicationsManagerListener {
+	const ignore = () => undefined;
+	return {
+		onOpen: ignore,
+		onClose: ignore,
+		onPacket: ignore,
+		onPong: ignore,
+		onMessageUpdate: ignore,
+		onConversationUpdate: ignore,
+		onModifierUpdate: ignore,
+		onFileRequestStart: ignore,
+		onFileRequestData: ignore,
+		onFileRequestComplete: ignore,
+		onFileRequestFail: ignore,
+		onIDUpdate: ignore,
+		onMassRetrievalStart: ignore,
+		onMassRetrievalUpdate: ignore,
+		onMassRetrievalComplete: ignore,
+		onMassRetrievalFileStart: ignore,
+		onMassRetrievalFileData: ignore,
+		onMassRetrievalFileComplete: ignore,
+		onMessageConversations: ignore,
+		onMessageThread: ignore,
+		onSendMessageResponse: ignore,
+		onCreateChatResponse: ignore
+	};
+}
+
 export default abstract class CommunicationsManager {
 	public listener?: CommunicationsManagerListener;
 	
@@ -69,7 +108,13 @@ export default abstract class CommunicationsManager {
 	
 	public onHandshake(installationID: string, deviceName: string, systemVersion: string, softwareVersion: string): void {
 		//Forwarding the event to the listener
-		this.listener?.onOpen(systemVersion, softwareVersion);
+		this.listener?.onOpen({
+			installationID: installationID,
+			deviceName: deviceName,
+			systemVersion: systemVersion,
+			softwareVersion: softwareVersion,
+			communicationsVersion: this.communicationsVersion
+		});
 	}
 	
 	/**
@@ -119,11 +164,24 @@ export default abstract class CommunicationsManager {
 	 * @param requestID the ID of the request
 	 * @param chatGUID the GUID of the target conversation
 	 * @param file the file to send
-	 * @param progressCallback a callback called periodically with the number of bytes uploaded
+	 * @param progressCallback a callback called periodically with the number of compressed bytes uploaded
 	 * @return a promise that completes with the file hash once the file has been fully uploaded
 	 */
 	public abstract sendFile(requestID: number, chatGUID: string, file: File, progressCallback: (bytesUploaded: number) => void): Promise<string>;
 	
+	/**
+	 * Adds or removes a tapback on a message
+	 *
+	 * @param requestID the ID of the request
+	 * @param chatGUID the GUID of the message's conversation
+	 * @param messageGUID the GUID of the message to react to
+	 * @param messageIndex the index of the message part to react to
+	 * @param tapbackType the type of tapback
+	 * @param isAddition whether to add the tapback, or remove it
+	 * @return whether or not the request was successfully sent
+	 */
+	public abstract sendTapback(requestID: number, chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): boolean;
+	
 	/**
 	 * Requests the download of a remote attachment
 	 *
@@ -151,6 +209,15 @@ export default abstract class CommunicationsManager {
 	 */
 	public abstract requestRetrievalID(idLower: number, timeLower: Date, timeUpper: Date): boolean;
 	
+	/**
+	 * Requests a mass message retrieval
+	 *
+	 * @param requestID the ID used to validate conflicting requests
+	 * @param params the mass retrieval parameters to use
+	 * @return whether or not the request was successfully sent
+	 */
+	public abstract requestRetrievalAll(requestID: number, params: MassRetrievalParams): boolean;
+	
 	/**
 	 * Requests the creation of a new conversation on the server
 	 * @param requestID the ID used to validate conflicting requests
@@ -164,4 +231,9 @@ export default abstract class CommunicationsManager {
 	 * Get the current active communications version for this connection
 	 */
 	public abstract get communicationsVersion(): string | undefined;
+	
+	/**
+	 * Gets whether the server supports sending tapbacks over this connection
+	 */
+	public abstract get canSendTapbacks(): boolean;
 }
\ No newline at end of file
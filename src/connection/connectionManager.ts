@@ -1,542 +1,335 @@
-import DataProxyImpl from "platform-components/connection/dataProxy";
-import CommunicationsManager, {CommunicationsManagerListener} from "./communicationsManager";
-import ClientComm5 from "./comm5/clientComm5";
-import DataProxy from "./dataProxy";
+import AccountConnection, {ConnectionHealth, ConnectionListener, FileDownloadProgress, MassRetrievalProgress, QueuedMessage, ServerSwap} from "./accountConnection";
+import {PacketCapture} from "./capture/packetCapture";
 import * as Blocks from "../data/blocks";
-import {Conversation, ConversationItem, MessageModifier} from "../data/blocks";
-import {
-	AttachmentRequestErrorCode,
-	ConnectionErrorCode,
-	CreateChatErrorCode,
-	MessageError,
-	MessageErrorCode
-} from "../data/stateCodes";
+import {Conversation, ConversationItem, MassRetrievalParams, MessageModifier} from "../data/blocks";
+import {ConnectionErrorCode, TapbackType} from "../data/stateCodes";
 import EventEmitter from "../util/eventEmitter";
 import ProgressPromise from "../util/progressPromise";
-import promiseTimeout from "../util/promiseTimeout";
-import {TransferAccumulator} from "./transferAccumulator";
-import {isCryptoPasswordSet, setCryptoPassword} from "shared/util/encryptionUtils";
-import {getSecureLS, SecureStorageKey} from "shared/util/secureStorageUtils";
+import {activeAccountEmitter, getAccounts, getActiveAccount, removeAccount} from "../util/accountUtils";
+import {clearSecureLS} from "../util/secureStorageUtils";
+import {clearCryptoPassword} from "../util/encryptionUtils";
+import {clearSavedServerIdentity, ServerIdentity} from "../util/serverIdentityUtils";
+import {OutboxSyncResult} from "./outboxSync";
+import {deleteOutboxSync} from "platform-components/connection/outboxSync";
+
+export type {ConnectionHealth, ConnectionListener, FileDownloadProgress, MassRetrievalProgress, QueuedMessage, ServerSwap};
 
 export const targetCommVer = "5.2";
 
-//How often to try reconnecting when disconnected
-const reconnectInterval = 8 * 1000;
-const requestTimeoutMillis = 10 * 1000;
+/**
+ * Messages received by an account that isn't currently active
+ */
+export interface BackgroundMessageUpdate {
+	accountID: string;
+	items: ConversationItem[];
+}
 
-type ConnectionState = "disconnected" | "connecting" | "connected";
+//Events from the active account's connection
+export const messageUpdateEmitter: EventEmitter<ConversationItem[]> = new EventEmitter();
+export const modifierUpdateEmitter: EventEmitter<MessageModifier[]> = new EventEmitter();
+export const connectionHealthEmitter: EventEmitter<ConnectionHealth> = new EventEmitter();
+const connectionListenerArray: ConnectionListener[] = [];
 
-//Server information
-let _serverSystemVersion: string | undefined;
-export function getServerSystemVersion(): string | undefined {
-	return _serverSystemVersion;
+//Events from the other accounts' connections
+export const backgroundMessageUpdateEmitter: EventEmitter<BackgroundMessageUpdate> = new EventEmitter();
+
+//Events from all accounts' connections
+export const serverSwapEmitter: EventEmitter<ServerSwap> = new EventEmitter();
+
+const accountConnectionMap: Map<string, AccountConnection> = new Map();
+let activeConnection: AccountConnection = getAccountConnection(getActiveAccount().id);
+
+//Switching connections when the active account changes
+//This listener is registered when this module loads, so the active connection is updated before components are notified
+activeAccountEmitter.registerListener((account) => {
+	activeConnection = getAccountConnection(account.id);
+});
+
+/**
+ * Gets the connection for an account, creating it if it doesn't exist yet
+ *
+ * The functions in this module act on the active account's connection, and only pass on its events
+ */
+export function getAccountConnection(accountID: string): AccountConnection {
+	const existingConnection = accountConnectionMap.get(accountID);
+	if(existingConnection) return existingConnection;
+	
+	const connection = new AccountConnection(accountID);
+	accountConnectionMap.set(accountID, connection);
+	
+	//Forwarding events from this connection while it is active
+	const isActive = () => connection === activeConnection;
+	connection.messageUpdateEmitter.registerListener((items) => {
+		if(isActive()) messageUpdateEmitter.notify(items);
+		else backgroundMessageUpdateEmitter.notify({accountID: accountID, items: items});
+	});
+	connection.modifierUpdateEmitter.registerListener((modifiers) => {
+		if(isActive()) modifierUpdateEmitter.notify(modifiers);
+	});
+	connection.connectionHealthEmitter.registerListener((health) => {
+		if(isActive()) connectionHealthEmitter.notify(health);
+	});
+	connection.serverSwapEmitter.registerListener((swap) => serverSwapEmitter.notify(swap));
+	connection.addConnectionListener({
+		onConnecting: () => {
+			if(isActive()) for(const listener of connectionListenerArray) listener.onConnecting();
+		},
+		onOpen: () => {
+			if(isActive()) for(const listener of connectionListenerArray) listener.onOpen();
+		},
+		onClose: (reason: ConnectionErrorCode) => {
+			if(isActive()) for(const listener of connectionListenerArray) listener.onClose(reason);
+		}
+	});
+	
+	return connection;
 }
-let _serverSoftwareVersion: string | undefined;
-export function getServerSoftwareVersion(): string | undefined {
-	return _serverSoftwareVersion;
+
+/**
+ * Connects all accounts other than the active account, so that their messages can be received in the background
+ */
+export function connectBackgroundAccounts() {
+	for(const account of getAccounts()) {
+		const connection = getAccountConnection(account.id);
+		if(connection !== activeConnection && connection.isDisconnected()) connection.connect();
+	}
+}
+
+/**
+ * Disconnects all accounts
+ */
+export function disconnectAll() {
+	for(const connection of accountConnectionMap.values()) connection.close();
+}
+
+/**
+ * Removes an account, disconnecting from its server and deleting all of its saved data
+ */
+export async function deleteAccount(accountID: string): Promise<void> {
+	//Switching away from the account first, so that its connection's events aren't passed on
+	removeAccount(accountID);
+	
+	const connection = accountConnectionMap.get(accountID);
+	accountConnectionMap.delete(accountID);
+	connection?.close();
+	clearSavedServerIdentity(accountID);
+	clearCryptoPassword(accountID);
+	
+	await Promise.all([connection?.deleteStore(), clearSecureLS(accountID), deleteOutboxSync(accountID)]);
 }
 
-//Communications manager constructor shape
-interface CreatesCommunicationsManager {
-	new(dataProxy: DataProxy): CommunicationsManager
+/**
+ * Gets the details of the server the active account last connected to
+ */
+export function getServerIdentity(): ServerIdentity | undefined {
+	return activeConnection.getServerIdentity();
 }
 
-//Connection values
-const communicationsPriorityList: ReadonlyArray<CreatesCommunicationsManager> = [ClientComm5];
-let reconnectTimeoutID: any | undefined;
+/**
+ * Gets the address the active account's current connection was made through
+ */
+export function getActiveAddress(): string | undefined {
+	return activeConnection.getActiveAddress();
+}
+
+export function getServerSystemVersion(): string | undefined {
+	return activeConnection.getServerSystemVersion();
+}
 
-let communicationsManager: CommunicationsManager | null = null;
-let dataProxy: DataProxy = new DataProxyImpl();
-export function setDataProxy(value: DataProxy) {
-	dataProxy = value;
+export function getServerSoftwareVersion(): string | undefined {
+	return activeConnection.getServerSoftwareVersion();
 }
 
-//Config values
-let disableAutomaticReconnections = false;
 export function setDisableAutomaticReconnections(value: boolean) {
-	disableAutomaticReconnections = value;
+	activeConnection.setDisableAutomaticReconnections(value);
 }
 
-//Listener values
-export interface ConnectionListener {
-	onConnecting: () => void;
-	onOpen: () => void;
-	onClose: (reason: ConnectionErrorCode) => void;
+export function connect() {
+	return activeConnection.connect();
 }
-const connectionListenerArray: ConnectionListener[] = [];
 
-//Promise response values
-interface PromiseExecutor<T> {
-	resolve: (value: T | PromiseLike<T>) => void;
-	reject: (reason?: any) => void;
+export function disconnect() {
+	activeConnection.disconnect();
 }
-interface ProgressPromiseExecutor<T, P> {
-	resolve: (value: T | PromiseLike<T>) => void;
-	reject: (reason?: any) => void;
-	progress: (progress: P) => void;
+
+/**
+ * Starts recording the packets exchanged with the server
+ *
+ * The connection is restarted, so that the capture includes the handshake
+ */
+export function startPacketCapture() {
+	activeConnection.startPacketCapture();
 }
 
-const liteConversationPromiseArray: PromiseExecutor<Blocks.Conversation[]>[] = []; //Retrieval of all lite conversations
-interface ThreadKey {
-	chatGUID: string;
-	firstMessageID?: number;
+/**
+ * Stops recording packets, without interrupting the current connection
+ * @return The packets recorded so far, or undefined if packets weren't being recorded
+ */
+export function stopPacketCapture(): PacketCapture | undefined {
+	return activeConnection.stopPacketCapture();
 }
-const conversationDetailsPromiseMap: Map<string, PromiseExecutor<[string, Conversation | undefined][]>[]> = new Map(); //Retrieval of a specific conversation's details
-const threadPromiseMap: Map<string, PromiseExecutor<Blocks.ConversationItem[]>[]> = new Map(); //Retrieval of messages from a thread
 
-class FileDownloadState {
-	private accumulator?: TransferAccumulator;
-	public get accumulatedData() {
-		return this.accumulator!.data;
-	}
-	public get accumulatedDataOffset() {
-		return this.accumulator!.offset;
-	}
-	promise: ProgressPromiseExecutor<ArrayBuffer, FileDownloadProgress>;
-	private readonly timeoutCallback: () => void;
-	
-	private timeoutID: any | undefined;
-	
-	constructor(promise: ProgressPromiseExecutor<ArrayBuffer, FileDownloadProgress>, timeoutCallback: () => void) {
-		this.promise = promise;
-		this.timeoutCallback = timeoutCallback;
-	}
-	
-	public initializeAccumulator(accumulator: TransferAccumulator) {
-		//Setting the accumulator
-		this.accumulator = accumulator;
-		
-		this.refreshTimeout();
-	}
-	
-	public appendData(data: ArrayBuffer) {
-		//Adding the data to the array
-		this.accumulator!.push(data);
-		
-		this.refreshTimeout();
-	}
-	
-	public finish() {
-		if(this.timeoutID) clearTimeout(this.timeoutID);
-	}
-	
-	private refreshTimeout() {
-		if(this.timeoutID) clearTimeout(this.timeoutID);
-		this.timeoutID = setTimeout(this.timeoutCallback, requestTimeoutMillis);
-	}
+export function isPacketCaptureActive(): boolean {
+	return activeConnection.isPacketCaptureActive();
 }
 
-interface FileDownloadProgress {
-	type: "size" | "downloaded";
-	value: number;
+/**
+ * Replaces the connection to the server with a playback of a packet capture
+ */
+export function replayPacketCapture(capture: PacketCapture) {
+	activeConnection.replayPacketCapture(capture);
 }
-const fileDownloadStateMap: Map<number, FileDownloadState> = new Map(); //Attachment data retrieval
-const messageSendPromiseMap: Map<number, PromiseExecutor<any>> = new Map(); //Response from sending a message
-const chatCreatePromiseMap: Map<number, PromiseExecutor<string>> = new Map(); //Response from creating a chat
 
-export const messageUpdateEmitter: EventEmitter<ConversationItem[]> = new EventEmitter();
-export const modifierUpdateEmitter: EventEmitter<MessageModifier[]> = new EventEmitter();
+/**
+ * Gets the time the next automatic reconnection is scheduled for, or undefined if no reconnection is scheduled
+ */
+export function getReconnectTime(): Date | undefined {
+	return activeConnection.getReconnectTime();
+}
 
-//Common promise responses
-const messageErrorNetwork: MessageError = {code: MessageErrorCode.LocalNetwork};
-
-//State values
-let connState: ConnectionState = "disconnected";
-let isConnectingPassively = false;
-let lastServerMessageID: number | undefined = undefined;
-let lastConnectionUpdateTime: Date | undefined = undefined; //The last time the client received a message from the server
-let nextRequestID: number = 0;
-
-function onOnline() {
-	//Reconnecting
-	connect();
-}
-
-function onOffline() {
-	//Disconnecting
-	disconnect();
-}
-
-const communicationsManagerListener: CommunicationsManagerListener = {
-	onOpen(systemVersion: string, softwareVersion: string): void {
-		//Updating the state
-		updateStateConnected();
-		
-		//Recording the server information
-		_serverSystemVersion = systemVersion;
-		_serverSoftwareVersion = softwareVersion;
-		
-		//Listening for network events
-		window.addEventListener("online", onOnline);
-		window.addEventListener("offline", onOffline);
-	}, onClose(reason: ConnectionErrorCode): void {
-		//Failing all pending promises
-		rejectAndClear(liteConversationPromiseArray, messageErrorNetwork);
-		rejectAndClear(conversationDetailsPromiseMap, messageErrorNetwork);
-		rejectAndClear(threadPromiseMap, messageErrorNetwork);
-		for(const state of fileDownloadStateMap.values()) state.promise.reject(AttachmentRequestErrorCode.Timeout);
-		fileDownloadStateMap.clear();
-		for(const promise of messageSendPromiseMap.values()) promise.reject(messageErrorNetwork);
-		messageSendPromiseMap.clear();
-		for(const promise of chatCreatePromiseMap.values()) promise.reject([CreateChatErrorCode.Network, undefined]);
-		chatCreatePromiseMap.clear();
-		
-		//Updating the state
-		updateStateDisconnected(reason);
-		
-		//Checking if the error is automatically recoverable
-		if((reason === ConnectionErrorCode.Connection || reason === ConnectionErrorCode.Internet) && !disableAutomaticReconnections) {
-			//Scheduling a passive reconnection
-			reconnectTimeoutID = setTimeout(() => {
-				if(!disableAutomaticReconnections) {
-					connectPassive();
-				}
-			}, reconnectInterval);
-		}
-		
-		//Removing the network event listeners
-		window.removeEventListener("online", onOnline);
-		window.removeEventListener("offline", onOffline);
-	}, onPacket(): void {
-		if(connState === "connected") {
-			//Recording the last connection update time
-			lastConnectionUpdateTime = new Date();
-		}
-	}, onMessageUpdate(data: ConversationItem[]): void {
-		//Notifying the listeners
-		messageUpdateEmitter.notify(data);
-	}, onConversationUpdate(data: [string, Conversation | undefined][]): void {
-		//Resolving pending promises
-		const promiseMapKey = data.map(data => data[0]).join(" ");
-		const promiseArray = conversationDetailsPromiseMap.get(promiseMapKey);
-		if(promiseArray) {
-			for(const promise of promiseArray) promise.resolve(data);
-			threadPromiseMap.delete(promiseMapKey);
-		}
-	}, onModifierUpdate(data: MessageModifier[]): void {
-		//Notifying the listeners
-		modifierUpdateEmitter.notify(data);
-	}, onFileRequestStart(requestID: number, dataLength: number, accumulator: TransferAccumulator): void {
-		//Finding the local request
-		const state = fileDownloadStateMap.get(requestID);
-		if(!state) return;
-		
-		//Setting the accumulator
-		state.initializeAccumulator(accumulator);
-		
-		//Updating the progress
-		state.promise.progress({type: "size", value: dataLength});
-	}, onFileRequestData(requestID: number, data: ArrayBuffer): void {
-		//Finding the local request
-		const state = fileDownloadStateMap.get(requestID);
-		if(!state) return;
-		
-		//Adding the data
-		state.appendData(data);
-		
-		//Updating the progress
-		state.promise.progress({type: "downloaded", value: state.accumulatedDataOffset});
-	}, onFileRequestComplete(requestID: number): void {
-		//Finding the local request
-		const state = fileDownloadStateMap.get(requestID);
-		if(!state) return;
-		
-		//Finishing the request
-		state.finish();
-		state.promise.resolve(state.accumulatedData);
-		
-		//Removing the request
-		fileDownloadStateMap.delete(requestID);
-	}, onFileRequestFail(requestID: number, error: AttachmentRequestErrorCode): void {
-		//Finding the local request
-		const state = fileDownloadStateMap.get(requestID);
-		if(!state) return;
-		
-		//Failing the request
-		state.promise.reject(error);
-		
-		//Removing the request
-		fileDownloadStateMap.delete(requestID);
-	}, onIDUpdate(messageID: number): void {
-		//Recording the last message ID
-		lastServerMessageID = messageID;
-	},
-	onMessageConversations(data: Conversation[]): void {
-		//Resolving pending promises
-		for(const promise of liteConversationPromiseArray) promise.resolve(data);
-		
-		//Emptying the array
-		liteConversationPromiseArray.length = 0;
-	}, onMessageThread(chatGUID: string, firstMessageID: number | undefined, data: ConversationItem[]) {
-		//Resolving pending promises
-		const promiseMapKey = JSON.stringify({chatGUID: chatGUID, firstMessageID: firstMessageID} as ThreadKey);
-		const promiseArray = threadPromiseMap.get(promiseMapKey);
-		if(promiseArray) {
-			for(const promise of promiseArray) promise.resolve(data);
-			threadPromiseMap.delete(promiseMapKey);
-		}
-	}, onSendMessageResponse(requestID: number, error: MessageError | undefined): void {
-		//Resolving pending promises
-		const promise = messageSendPromiseMap.get(requestID);
-		if(!promise) return;
-		
-		if(error) promise.reject(error);
-		else promise.resolve(undefined);
-		
-		chatCreatePromiseMap.delete(requestID);
-	}, onCreateChatResponse(requestID: number, error: CreateChatErrorCode | undefined, details: string | undefined): void {
-		//Resolving pending promises
-		const promise = chatCreatePromiseMap.get(requestID);
-		if(!promise) return;
-		
-		if(error === undefined) {
-			if(details) {
-				promise.resolve(details);
-			} else {
-				promise.reject([CreateChatErrorCode.Network, undefined]);
-			}
-		} else {
-			promise.reject([error, details]);
-		}
-		
-		chatCreatePromiseMap.delete(requestID);
-	}
-};
+export function isConnected(): boolean {
+	return activeConnection.isConnected();
+}
 
-function updateStateDisconnected(reason: ConnectionErrorCode) {
-	connState = "disconnected";
-	for(const listener of connectionListenerArray) listener.onClose(reason);
+/**
+ * Gets the latest latency measurement and the last time the server was heard from
+ */
+export function getConnectionHealth(): ConnectionHealth {
+	return activeConnection.getConnectionHealth();
 }
 
-function updateStateConnecting() {
-	connState = "connecting";
-	for(const listener of connectionListenerArray) listener.onConnecting();
+export function isDisconnected(): boolean {
+	return activeConnection.isDisconnected();
 }
 
-function updateStateConnected() {
-	connState = "connected";
-	for(const listener of connectionListenerArray) listener.onOpen();
+/**
+ * Sends a text message, or queues it to be sent once the server becomes available
+ */
+export function sendMessage(chatGUID: string, message: string): Promise<any> {
+	return activeConnection.sendMessage(chatGUID, message);
 }
 
-function generateRequestID(): number {
-	//Recording the next request ID
-	const requestID = nextRequestID;
-	
-	//Increasing the request ID (and overflowing at Java's max short value)
-	if(nextRequestID === 32767) nextRequestID = -32768;
-	else nextRequestID++;
-	
-	//Returning the request ID
-	return requestID;
+/**
+ * Sends a file, or queues it to be sent once the server becomes available
+ * The returned promise reports the file's checksum, followed by the number of compressed bytes uploaded
+ */
+export function sendFile(chatGUID: string, file: File): ProgressPromise<any, string | number> {
+	return activeConnection.sendFile(chatGUID, file);
 }
 
-export async function connect() {
-	//Load the password if it hasn't been loaded yet
-	if(!isCryptoPasswordSet()) {
-		try {
-			await setCryptoPassword(await getSecureLS(SecureStorageKey.ServerPassword));
-		} catch(error) {
-			console.warn(error);
-		}
-	}
-	
-	//Checking if a passive reconnection is in progress
-	if(isConnectingPassively) {
-		//Bringing the state from passive to the foreground
-		updateStateConnecting();
-		isConnectingPassively = false;
-		
-		return;
-	}
-	
-	//Cancelling the reconnect timeout if it's running
-	if(reconnectTimeoutID) {
-		clearTimeout(reconnectTimeoutID);
-		reconnectTimeoutID = undefined;
-	}
-	
-	//Setting the state to connecting
-	updateStateConnecting();
-	
-	//Connecting from the top of the priority list
-	connectFromList(0);
+/**
+ * Adds or removes a tapback on a message
+ * The server confirms the tapback with a modifier update once it has been applied
+ */
+export function sendTapback(chatGUID: string, messageGUID: string, messageIndex: number, tapbackType: TapbackType, isAddition: boolean): Promise<void> {
+	return activeConnection.sendTapback(chatGUID, messageGUID, messageIndex, tapbackType, isAddition);
 }
 
-function connectPassive() {
-	//Recording the state
-	isConnectingPassively = true;
-	
-	//Clearing the timeout ID (this function can only be called when the timer expires)
-	reconnectTimeoutID = undefined;
-	
-	//Connecting from the top of the priority list
-	connectFromList(0);
+/**
+ * Gets whether the active account's server supports sending tapbacks
+ */
+export function canSendTapbacks(): boolean {
+	return activeConnection.canSendTapbacks();
 }
 
-function connectFromList(index: number) {
-	communicationsManager = new communicationsPriorityList[index](dataProxy);
-	communicationsManager.listener = communicationsManagerListener;
-	communicationsManager.connect();
+/**
+ * Fetches the user's conversations from the server
+ * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+ */
+export function fetchConversations(signal?: AbortSignal): Promise<Blocks.Conversation[]> {
+	return activeConnection.fetchConversations(signal);
 }
 
-export function disconnect() {
-	communicationsManager?.disconnect(ConnectionErrorCode.Internet);
+/**
+ * Fetches the details of specific conversations from the server
+ * @param chatGUIDs The GUIDs of the conversations to fetch
+ * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+ */
+export function fetchConversationInfo(chatGUIDs: string[], signal?: AbortSignal): Promise<[string, Conversation | undefined][]> {
+	return activeConnection.fetchConversationInfo(chatGUIDs, signal);
 }
 
-export function isConnected(): boolean {
-	return connState === "connected";
+/**
+ * Fetches a page of messages from a conversation
+ * @param chatGUID The GUID of the conversation
+ * @param firstMessageID The ID of the oldest message already loaded, to fetch the messages before it
+ * @param signal A signal to cancel the request, rejecting the promise with MessageErrorCode.LocalCancelled
+ */
+export function fetchThread(chatGUID: string, firstMessageID?: number, signal?: AbortSignal): Promise<Blocks.ConversationItem[]> {
+	return activeConnection.fetchThread(chatGUID, firstMessageID, signal);
 }
 
-export function isDisconnected(): boolean {
-	return connState === "disconnected";
+/**
+ * Loads conversations saved from previous sessions, which can be displayed before the server is reachable
+ */
+export function fetchCachedConversations(): Promise<Blocks.Conversation[]> {
+	return activeConnection.fetchCachedConversations();
 }
 
-function requestTimeoutMap<T, K>(key: K, map: Map<K, any>, timeoutReason: any | undefined = messageErrorNetwork, promise: Promise<T>): Promise<T> {
-	const timedPromise = promiseTimeout(requestTimeoutMillis, timeoutReason, promise);
-	timedPromise.catch(() => map.delete(key)); //Remove the promise from the map on error
-	return timedPromise;
+/**
+ * Loads messages saved from previous sessions, which can be displayed before the server is reachable
+ */
+export function fetchCachedThread(chatGUID: string, firstMessageID?: number): Promise<Blocks.ConversationItem[]> {
+	return activeConnection.fetchCachedThread(chatGUID, firstMessageID);
 }
 
-function requestTimeoutArray<T, K>(array: K[], timeoutReason: any | undefined = messageErrorNetwork, promise: Promise<T>): Promise<T> {
-	const timedPromise = promiseTimeout(requestTimeoutMillis, timeoutReason, promise);
-	timedPromise.catch(() => array.length = 0); //Clear the array on error
-	return timedPromise;
+/**
+ * Gets the messages from a conversation that are waiting to be sent, in the order they were queued
+ */
+export function fetchQueuedMessages(chatGUID: string): Promise<QueuedMessage[]> {
+	return activeConnection.fetchQueuedMessages(chatGUID);
 }
 
-export function sendMessage(chatGUID: string, message: string): Promise<any> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject(messageErrorNetwork);
-	
-	//Starting a new promise
-	const requestID = generateRequestID();
-	return requestTimeoutMap(requestID, messageSendPromiseMap, undefined, new Promise<any>((resolve, reject) => {
-		//Sending the request
-		communicationsManager!.sendMessage(requestID, chatGUID, message);
-		
-		//Recording the promise
-		messageSendPromiseMap.set(requestID, {resolve: resolve, reject: reject});
-	}));
+/**
+ * Gets the outcome of messages from a conversation that were sent in the background while the app was closed
+ */
+export function fetchBackgroundSendResults(chatGUID: string): Promise<OutboxSyncResult[]> {
+	return activeConnection.fetchBackgroundSendResults(chatGUID);
 }
 
-export function sendFile(chatGUID: string, file: File): ProgressPromise<any, string | number> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject(messageErrorNetwork) as ProgressPromise<any, string | number>;
-	
-	//Starting a new promise
-	return new ProgressPromise<any, string | number>((resolve, reject, progress) => {
-		const requestID = generateRequestID();
-		
-		//Sending the request
-		communicationsManager!.sendFile(requestID, chatGUID, file, progress)
-			.then((value) => {
-				//Forwarding the value to the promise
-				progress(value);
-				
-				//Starting a timeout for the server response
-				setTimeout(reject, requestTimeoutMillis);
-			})
-			.catch((error) => {
-				//Forwarding the value to the promise
-				reject(error);
-				
-				//Removing this promise from the map
-				messageSendPromiseMap.delete(requestID);
-			});
-		
-		//Recording the promise
-		messageSendPromiseMap.set(requestID, {resolve: resolve, reject: reject});
-	});
+/**
+ * Removes all locally saved conversations, messages and attachments, and discards queued messages
+ */
+export function clearCache(): Promise<void> {
+	return activeConnection.clearCache();
 }
 
-export function fetchConversations(): Promise<Blocks.Conversation[]> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject(messageErrorNetwork);
-	
-	//Starting a new promise
-	return requestTimeoutArray(liteConversationPromiseArray, undefined, new Promise<Blocks.Conversation[]>((resolve, reject) => {
-		//Sending the request
-		communicationsManager!.requestLiteConversations();
-		
-		//Recording the promise
-		liteConversationPromiseArray.push({resolve: resolve, reject: reject});
-	}));
-}
-
-export function fetchConversationInfo(chatGUIDs: string[]): Promise<[string, Conversation | undefined][]> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject(messageErrorNetwork);
-	
-	//Starting a new promise
-	const key = chatGUIDs.join(" ");
-	return requestTimeoutMap(key, conversationDetailsPromiseMap, undefined, new Promise<[string, Conversation | undefined][]>((resolve, reject) => {
-		//Sending the request
-		communicationsManager!.requestConversationInfo(chatGUIDs);
-		
-		//Recording the promise
-		pushKeyedArray(conversationDetailsPromiseMap, key, {resolve: resolve, reject: reject});
-	}));
-}
-
-export function fetchThread(chatGUID: string, firstMessageID?: number): Promise<Blocks.ConversationItem[]> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject(messageErrorNetwork);
-	
-	//Starting a new promise
-	const key = JSON.stringify({chatGUID: chatGUID, firstMessageID: firstMessageID} as ThreadKey);
-	return requestTimeoutMap(key, threadPromiseMap, undefined, new Promise<Blocks.ConversationItem[]>((resolve, reject) => {
-		//Sending the request
-		communicationsManager!.requestLiteThread(chatGUID, firstMessageID);
-		
-		//Recording the promise
-		pushKeyedArray(threadPromiseMap, key, {resolve: resolve, reject: reject});
-	}));
-}
-
-export function fetchAttachment(attachmentGUID: string): ProgressPromise<ArrayBuffer, FileDownloadProgress> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return ProgressPromise.reject(AttachmentRequestErrorCode.Timeout) as ProgressPromise<ArrayBuffer, FileDownloadProgress>;
-	
-	//Starting a new promise
-	return new ProgressPromise<ArrayBuffer, FileDownloadProgress>((resolve, reject, progress) => {
-		const requestID = generateRequestID();
-		
-		//Sending the request
-		communicationsManager!.requestAttachmentDownload(requestID, attachmentGUID);
-		
-		//Recording the promise
-		fileDownloadStateMap.set(requestID, new FileDownloadState({resolve: resolve, reject: reject, progress: progress}, () => {
-			//Removing and rejecting the promise
-			fileDownloadStateMap.delete(requestID);
-			reject();
-		}));
-	});
+/**
+ * Downloads an attachment file from the server
+ * @param attachmentGUID The GUID of the attachment to download
+ * @param signal A signal to cancel the download, rejecting the promise with AttachmentRequestErrorCode.Cancelled
+ */
+export function fetchAttachment(attachmentGUID: string, signal?: AbortSignal): ProgressPromise<ArrayBuffer, FileDownloadProgress> {
+	return activeConnection.fetchAttachment(attachmentGUID, signal);
 }
 
-export function createChat(members: string[], service: string): Promise<string> {
-	//Failing immediately if there is no network connection
-	if(!isConnected()) return Promise.reject([CreateChatErrorCode.Network, undefined]);
-	
-	//Starting a new promise
-	const requestID = generateRequestID();
-	return requestTimeoutMap(requestID, chatCreatePromiseMap, [CreateChatErrorCode.Network, undefined], new Promise<string>((resolve, reject) => {
-		//Sending the request
-		communicationsManager!.requestChatCreation(requestID, members, service);
-		
-		//Recording the promise
-		chatCreatePromiseMap.set(requestID, {resolve: resolve, reject: reject});
-	}));
+/**
+ * Downloads the user's entire message history from the server
+ * @param params The mass retrieval parameters to use
+ * @param signal A signal to stop receiving data, rejecting the promise with MassRetrievalErrorCode.Cancelled
+ */
+export function fetchMassRetrieval(params: MassRetrievalParams, signal?: AbortSignal): ProgressPromise<void, MassRetrievalProgress> {
+	return activeConnection.fetchMassRetrieval(params, signal);
+}
+
+/**
+ * Creates a new conversation on the server
+ * @param members The addresses of the conversation's members
+ * @param service The service to create the conversation with
+ * @param signal A signal to cancel the request, rejecting the promise with CreateChatErrorCode.Cancelled
+ * @return A promise that resolves with the GUID of the new conversation
+ */
+export function createChat(members: string[], service: string, signal?: AbortSignal): Promise<string> {
+	return activeConnection.createChat(members, service, signal);
 }
 
 export function requestMissedMessages() {
-	if(lastServerMessageID !== undefined && lastConnectionUpdateTime !== undefined) {
-		communicationsManager!.requestRetrievalID(lastServerMessageID, lastConnectionUpdateTime, new Date());
-	} else if(lastConnectionUpdateTime !== undefined) {
-		communicationsManager!.requestRetrievalTime(lastConnectionUpdateTime, new Date());
-	} else {
-		console.warn("Trying to fetch missed messages with no last connection update time!");
-	}
+	activeConnection.requestMissedMessages();
 }
 
+/**
+ * Adds a listener for the active account's connection state
+ */
 export function addConnectionListener(listener: ConnectionListener) {
 	connectionListenerArray.push(listener);
 }
@@ -547,31 +340,5 @@ export function removeConnectionListener(listener: ConnectionListener) {
 }
 
 export function getActiveCommVer(): string | undefined {
-	return communicationsManager?.communicationsVersion;
-}
-
-function pushKeyedArray<K, R>(map: Map<K, R[]>, key: K, value: R): void {
-	//Finding the array in the map
-	const array = map.get(key);
-	
-	//Pushing the value directly to the array if it exists
-	if(array) array.push(value);
-	//Otherwise, create a new array with the value
-	else map.set(key, [value]);
-}
-
-function rejectAndClear(items: PromiseExecutor<any>[], reason?: any): void;
-function rejectAndClear(items: Map<any, PromiseExecutor<any>[]>, reason?: any): void;
-function rejectAndClear(items: PromiseExecutor<any>[] | Map<any, PromiseExecutor<any>[]>, reason?: any): void {
-	if(items instanceof Array) {
-		for(const promise of items) promise.reject(reason);
-		items.length = 0;
-	} else if(items instanceof Map) {
-		for(const promiseArray of items.values()) {
-			for(const promise of promiseArray) {
-				promise.reject(reason);
-			}
-		}
-		items.clear();
-	}
+	return activeConnection.getActiveCommVer();
 }
\ No newline at end of file
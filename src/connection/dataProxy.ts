@@ -1,4 +1,5 @@
 import {ConnectionErrorCode} from "../data/stateCodes";
+import {defaultAccountID} from "../util/accountUtils";
 
 export type DataProxyListener = {
 	onOpen: () => void,
@@ -8,8 +9,32 @@ export type DataProxyListener = {
 
 export default abstract class DataProxy {
 	public listener?: DataProxyListener;
+	public accountID: string = defaultAccountID; //The account whose server this proxy connects to, set by the owning connection
 	private pendingErrorCode: ConnectionErrorCode | undefined = undefined;
 	
+	/**
+	 * Whether this proxy connects directly to the server, rather than through a relay like AirMessage Connect
+	 */
+	get isDirect(): boolean {
+		return false;
+	}
+	
+	/**
+	 * The address this proxy is connected through, for proxies that can reach the server at more than one address
+	 */
+	get activeAddress(): string | undefined {
+		return undefined;
+	}
+	
+	/**
+	 * Whether this proxy can use provisional comm5 sub-versions, which are only defined by this app and not by any released server
+	 *
+	 * This is only honoured in builds made with --env provisional
+	 */
+	get allowsProvisionalProtocols(): boolean {
+		return false;
+	}
+	
 	/**
 	 * Start this proxy's connection to the server
 	 */
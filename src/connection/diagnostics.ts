@@ -0,0 +1,308 @@
+import DataProxy from "./dataProxy";
+import ClientComm5 from "./comm5/clientComm5";
+import {CommunicationsManagerListener, createIgnoringListener} from "./communicationsManager";
+import {targetCommVer} from "./connectionManager";
+import {ConnectionErrorCode} from "../data/stateCodes";
+import {appVersion} from "../data/releaseInfo";
+import {errorCodeToShortDisplay} from "../util/languageUtils";
+import {isCryptoPasswordSet, setCryptoPassword} from "../util/encryptionUtils";
+import {getSecureLS, SecureStorageKey} from "../util/secureStorageUtils";
+import {getDiagnosticTarget} from "platform-components/connection/diagnostics";
+
+//How long to wait for a ping response before giving up
+const pingTimeoutMillis = 10 * 1000;
+
+//Round-trip times above this are reported as slow
+const slowLatencyMillis = 2000;
+
+export type DiagnosticStepID = "resolvePrimary" | "reachPrimary" | "resolveFallback" | "reachFallback" | "handshake" | "commVersion" | "authentication" | "latency";
+export type DiagnosticStatus = "pending" | "running" | "passed" | "failed" | "skipped";
+
+/**
+ * A single check run by the connection diagnostics
+ */
+export interface DiagnosticStep {
+	readonly id: DiagnosticStepID;
+	readonly title: string;
+	status: DiagnosticStatus;
+	result?: string; //What the check found
+	hint?: string; //What the user can do about a failed check
+}
+
+/**
+ * The server that diagnostics are run against, along with the platform's ways of reaching it
+ */
+export interface DiagnosticTarget {
+	type: "direct" | "connect";
+	primaryAddress: string;
+	fallbackAddress?: string;
+	resolveAddress?: (address: string) => Promise<string[]>; //Not available on platforms that can't look up addresses
+	checkReachability: (address: string) => Promise<void>; //Rejects with an error describing why the address couldn't be reached
+	createDataProxy: () => DataProxy;
+}
+
+type ConnectionTestResult = {
+	type: "open";
+	communicationsVersion: string | undefined;
+	latency: number | undefined;
+} | {
+	type: "closed";
+	reason: ConnectionErrorCode;
+};
+
+function createSteps(): DiagnosticStep[] {
+	return [
+		{id: "resolvePrimary", title: "Look up server address", status: "pending"},
+		{id: "reachPrimary", title: "Reach server address", status: "pending"},
+		{id: "resolveFallback", title: "Look up fallback address", status: "pending"},
+		{id: "reachFallback", title: "Reach fallback address", status: "pending"},
+		{id: "handshake", title: "Exchange handshake", status: "pending"},
+		{id: "commVersion", title: "Match protocol version", status: "pending"},
+		{id: "authentication", title: "Authenticate", status: "pending"},
+		{id: "latency", title: "Measure latency", status: "pending"}
+	];
+}
+
+/**
+ * Checks each stage of connecting to an account's server, to find out why a connection is failing
+ *
+ * The checks are run on a separate connection, so the account's own connection isn't affected
+ * @param accountID The account to check the connection of
+ * @param onUpdate Called with the state of every step whenever a step changes
+ * @param signal A signal to stop running checks
+ * @return The final state of every step
+ */
+export async function runDiagnostics(accountID: string, onUpdate: (steps: DiagnosticStep[]) => void, signal?: AbortSignal): Promise<DiagnosticStep[]> {
+	const steps = createSteps();
+	const update = (id: DiagnosticStepID, changes: Partial<DiagnosticStep>) => {
+		const index = steps.findIndex((step) => step.id === id);
+		steps[index] = {...steps[index], ...changes};
+		onUpdate([...steps]);
+	};
+	const skipRemaining = (result: string) => {
+		for(const step of steps) {
+			if(step.status === "pending") update(step.id, {status: "skipped", result: result});
+		}
+	};
+	onUpdate([...steps]);
+	
+	const target = await getDiagnosticTarget(accountID);
+	if(!target) {
+		skipRemaining("No server has been set up for this account");
+		return steps;
+	}
+	
+	//Checking the addresses
+	let anyReachable = false;
+	for(const [address, resolveID, reachID] of [
+		[target.primaryAddress, "resolvePrimary", "reachPrimary"],
+		[target.fallbackAddress, "resolveFallback", "reachFallback"]
+	] as [string | undefined, DiagnosticStepID, DiagnosticStepID][]) {
+		if(signal?.aborted) return steps;
+		
+		if(address === undefined) {
+			update(resolveID, {status: "skipped", result: "No fallback address is set"});
+			update(reachID, {status: "skipped", result: "No fallback address is set"});
+			continue;
+		}
+		
+		if(await checkAddress(target, address, resolveID, reachID, update)) anyReachable = true;
+	}
+	
+	if(signal?.aborted) return steps;
+	if(!anyReachable) {
+		skipRemaining("The server couldn't be reached");
+		return steps;
+	}
+	
+	//Connecting to the server
+	update("handshake", {status: "running"});
+	const result = await testConnection(accountID, target, signal);
+	if(signal?.aborted) return steps;
+	
+	if(result.type === "open") {
+		update("handshake", {status: "passed", result: "The server responded"});
+		update("commVersion", {status: "passed", result: `Using protocol ${result.communicationsVersion} (this app supports ${targetCommVer})`});
+		update("authentication", {status: "passed", result: "The password was accepted"});
+		if(result.latency === undefined) {
+			update("latency", {status: "failed", result: "The server didn't respond to a ping", hint: "The connection may be unstable. Try again in a few moments."});
+		} else {
+			const latency = Math.round(result.latency);
+			update("latency", {
+				status: "passed",
+				result: `${latency} ms round trip`,
+				hint: latency > slowLatencyMillis ? "Your connection is slow, so messages may take a while to send and receive" : undefined
+			});
+		}
+	} else {
+		applyConnectionFailure(target, result.reason, update);
+		skipRemaining("An earlier step failed");
+	}
+	
+	return steps;
+}
+
+async function checkAddress(target: DiagnosticTarget, address: string, resolveID: DiagnosticStepID, reachID: DiagnosticStepID, update: (id: DiagnosticStepID, changes: Partial<DiagnosticStep>) => void): Promise<boolean> {
+	//Looking up the address
+	if(target.resolveAddress) {
+		update(resolveID, {status: "running"});
+		try {
+			const resolved = await target.resolveAddress(address);
+			update(resolveID, {status: "passed", result: `${address} resolved to ${resolved.join(", ")}`});
+		} catch(error) {
+			update(resolveID, {
+				status: "failed",
+				result: `${address} couldn't be resolved (${errorToString(error)})`,
+				hint: "Check that the address is spelled correctly. If you use a dynamic DNS service, make sure it is up to date."
+			});
+			update(reachID, {status: "skipped", result: "The address couldn't be resolved"});
+			return false;
+		}
+	} else {
+		update(resolveID, {status: "skipped", result: "Address lookups aren't available on this platform, and are covered by the next step"});
+	}
+	
+	//Connecting to the address
+	update(reachID, {status: "running"});
+	try {
+		await target.checkReachability(address);
+		update(reachID, {status: "passed", result: `${address} accepted a connection`});
+		return true;
+	} catch(error) {
+		update(reachID, {
+			status: "failed",
+			result: `${address} couldn't be reached (${errorToString(error)})`,
+			hint: target.type === "direct" ?
+				"Make sure your Mac is turned on and AirMessage Server is running. If you're connecting from outside your network, check that port forwarding is set up for the server's port." :
+				"Check your internet connection, and make sure a firewall or content filter isn't blocking AirMessage."
+		});
+		return false;
+	}
+}
+
+function applyConnectionFailure(target: DiagnosticTarget, reason: ConnectionErrorCode, update: (id: DiagnosticStepID, changes: Partial<DiagnosticStep>) => void) {
+	const message = errorCodeToShortDisplay(reason, target.type === "direct").message;
+	
+	switch(reason) {
+		case ConnectionErrorCode.ServerOutdated:
+			update("handshake", {status: "passed", result: "The server responded"});
+			update("commVersion", {status: "failed", result: message, hint: "Update AirMessage Server on your Mac to the latest version"});
+			break;
+		case ConnectionErrorCode.ClientOutdated:
+			update("handshake", {status: "passed", result: "The server responded"});
+			update("commVersion", {status: "failed", result: message, hint: "Update this app to the latest version"});
+			break;
+		case ConnectionErrorCode.BadRequest:
+			update("handshake", {status: "passed", result: "The server responded"});
+			update("commVersion", {status: "failed", result: message, hint: "Update both this app and AirMessage Server to their latest versions"});
+			break;
+		case ConnectionErrorCode.Unauthorized:
+			update("handshake", {status: "passed", result: "The server responded"});
+			update("commVersion", {status: "passed", result: "The server is compatible"});
+			update("authentication", {status: "failed", result: message, hint: "Check that your password matches the one set in AirMessage Server"});
+			break;
+		default:
+			update("handshake", {status: "failed", result: message, hint: getHandshakeHint(target, reason)});
+			break;
+	}
+}
+
+function getHandshakeHint(target: DiagnosticTarget, reason: ConnectionErrorCode): string {
+	switch(reason) {
+		case ConnectionErrorCode.CertificateMismatch:
+			return "The server presented a different TLS certificate than before. If you expected this, trust the new certificate from the error screen.";
+		case ConnectionErrorCode.ConnectNoGroup:
+			return "Make sure your Mac is turned on, and that AirMessage Server is running and signed in to the same account";
+		case ConnectionErrorCode.ConnectNoCapacity:
+			return "Disconnect some other AirMessage devices from your account, then try again";
+		case ConnectionErrorCode.ConnectAccountValidation:
+			return "Sign out and sign back in, then try again";
+		default:
+			return target.type === "direct" ?
+				"The address accepted a connection, but AirMessage Server didn't respond. Make sure the address and port point to AirMessage Server, and not another service." :
+				"AirMessage Connect didn't respond. Try again in a few moments.";
+	}
+}
+
+//Connects to the server on a separate connection, and measures the round-trip time once connected
+async function testConnection(accountID: string, target: DiagnosticTarget, signal?: AbortSignal): Promise<ConnectionTestResult> {
+	//Loading the password if it hasn't been loaded yet
+	if(!isCryptoPasswordSet(accountID)) {
+		try {
+			await setCryptoPassword(await getSecureLS(SecureStorageKey.ServerPassword, accountID), accountID);
+		} catch(error) {
+			console.warn(error);
+		}
+	}
+	
+	const dataProxy = target.createDataProxy();
+	dataProxy.accountID = accountID;
+	const communicationsManager = new ClientComm5(dataProxy);
+	
+	return new Promise((resolve) => {
+		let isFinished = false;
+		let pingTimeoutID: any | undefined;
+		let pingSentTime: number | undefined;
+		
+		const finish = (result: ConnectionTestResult) => {
+			if(isFinished) return;
+			isFinished = true;
+			
+			if(pingTimeoutID !== undefined) clearTimeout(pingTimeoutID);
+			signal?.removeEventListener("abort", onAbort);
+			resolve(result);
+			communicationsManager.disconnect();
+		};
+		const onAbort = () => finish({type: "closed", reason: ConnectionErrorCode.Connection});
+		signal?.addEventListener("abort", onAbort);
+		
+		const listener: CommunicationsManagerListener = {
+			...createIgnoringListener(),
+			onOpen: () => {
+				const communicationsVersion = communicationsManager.communicationsVersion;
+				
+				//Measuring the round-trip time
+				pingSentTime = performance.now();
+				communicationsManager.sendPing();
+				pingTimeoutID = setTimeout(() => finish({type: "open", communicationsVersion: communicationsVersion, latency: undefined}), pingTimeoutMillis);
+				listener.onPong = () => finish({type: "open", communicationsVersion: communicationsVersion, latency: performance.now() - pingSentTime!});
+			},
+			onClose: (reason) => finish({type: "closed", reason: reason})
+		};
+		communicationsManager.listener = listener;
+		communicationsManager.connect();
+	});
+}
+
+function errorToString(error: any): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+const statusLabels: Record<DiagnosticStatus, string> = {
+	pending: "PENDING",
+	running: "RUNNING",
+	passed: "PASS",
+	failed: "FAIL",
+	skipped: "SKIP"
+};
+
+/**
+ * Formats the results of diagnostics as plain text, to be shared with support
+ */
+export function formatDiagnosticReport(steps: DiagnosticStep[]): string {
+	const lines = [
+		"AirMessage connection diagnostics",
+		`Date: ${new Date().toISOString()}`,
+		`Client version: ${appVersion}`,
+		`User agent: ${navigator.userAgent}`,
+		""
+	];
+	
+	for(const step of steps) {
+		lines.push(`[${statusLabels[step.status]}] ${step.title}`);
+		if(step.result) lines.push(`\t${step.result}`);
+		if(step.hint) lines.push(`\tHint: ${step.hint}`);
+	}
+	
+	return lines.join("\n");
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+/**
+ * An AirMessage server found on the local network
+ */
+export interface DiscoveredServer {
+	name: string; //The server's device name
+	address: string; //The address to connect to the server with, including the port if it isn't the default
+}
+
+/**
+ * Searches the local network for AirMessage servers until the signal is aborted
+ * @param onFound A callback for each server that is found, which may be called again with updated details for a server with the same name
+ * @param signal A signal to stop searching
+ */
+export type DiscoverServers = (onFound: (server: DiscoveredServer) => void, signal: AbortSignal) => void;
\ No newline at end of file
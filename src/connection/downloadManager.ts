@@ -0,0 +1,196 @@
+import * as ConnectionManager from "./connectionManager";
+import {FileDownloadProgress} from "./connectionManager";
+import {AttachmentRequestErrorCode} from "../data/stateCodes";
+import EventEmitter from "../util/eventEmitter";
+import {cacheAttachment} from "../util/attachmentCache";
+import {getActiveAccount} from "../util/accountUtils";
+
+export type DownloadState =
+	"downloading" | //Receiving data from the server
+	"waiting" | //Waiting for a connection to the server
+	"paused" | //Stopped by the user
+	"complete" |
+	"failed" |
+	"cancelled";
+
+/**
+ * An attachment download that can be paused, resumed and cancelled
+ *
+ * The server can't continue a transfer from an offset, so interrupted or paused downloads start over from the beginning when they are resumed
+ */
+export class AttachmentDownload {
+	readonly accountID: string; //The account the attachment is downloaded from
+	readonly attachmentGUID: string;
+	readonly updateEmitter: EventEmitter<AttachmentDownload> = new EventEmitter();
+	
+	private _state: DownloadState = "waiting";
+	private _sizeAvailable: number | undefined = undefined;
+	private _sizeDownloaded: number | undefined = undefined;
+	private _data: ArrayBuffer | undefined = undefined;
+	private _error: AttachmentRequestErrorCode | undefined = undefined;
+	
+	private abortController: AbortController | undefined = undefined;
+	
+	constructor(attachmentGUID: string) {
+		this.accountID = getActiveAccount().id;
+		this.attachmentGUID = attachmentGUID;
+	}
+	
+	public get state() {
+		return this._state;
+	}
+	
+	//The total size of the file, once the server has reported it
+	public get sizeAvailable() {
+		return this._sizeAvailable;
+	}
+	
+	public get sizeDownloaded() {
+		return this._sizeDownloaded;
+	}
+	
+	//The downloaded file, once the download is complete
+	public get data() {
+		return this._data;
+	}
+	
+	public get error() {
+		return this._error;
+	}
+	
+	/**
+	 * Whether this download hasn't finished yet
+	 */
+	public get isActive() {
+		return this._state === "downloading" || this._state === "waiting" || this._state === "paused";
+	}
+	
+	/**
+	 * Starts the download, or waits for a connection if the server isn't available
+	 */
+	public start() {
+		//Waiting for the connection
+		if(!ConnectionManager.isConnected()) {
+			this.updateState("waiting");
+			return;
+		}
+		
+		//Starting a new request
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		this._sizeDownloaded = undefined;
+		this.updateState("downloading");
+		
+		ConnectionManager.fetchAttachment(this.attachmentGUID, abortController.signal)
+			.progress((progress: FileDownloadProgress) => {
+				if(abortController !== this.abortController) return;
+				
+				if(progress.type === "size") this._sizeAvailable = progress.value;
+				else this._sizeDownloaded = progress.value;
+				this.updateEmitter.notify(this);
+			})
+			.then((data) => {
+				if(abortController !== this.abortController) return;
+				
+				this._data = data;
+				this.abortController = undefined;
+				this.updateState("complete");
+				
+				//Saving the file for next time
+				cacheAttachment(this.accountID, this.attachmentGUID, data).catch(console.warn);
+			})
+			.catch((error: AttachmentRequestErrorCode) => {
+				//Ignoring requests that have been replaced or stopped
+				if(abortController !== this.abortController) return;
+				this.abortController = undefined;
+				
+				if(!ConnectionManager.isConnected()) {
+					//Retrying once the connection is restored
+					this.updateState("waiting");
+				} else {
+					this._error = error;
+					this.updateState("failed");
+				}
+			});
+	}
+	
+	/**
+	 * Stops receiving data until the download is resumed
+	 */
+	public pause() {
+		if(this._state !== "downloading" && this._state !== "waiting") return;
+		
+		this.abort();
+		this.updateState("paused");
+	}
+	
+	/**
+	 * Restarts a paused download
+	 */
+	public resume() {
+		if(this._state !== "paused") return;
+		
+		this.start();
+	}
+	
+	/**
+	 * Stops the download permanently
+	 */
+	public cancel() {
+		if(!this.isActive) return;
+		
+		this.abort();
+		this._error = AttachmentRequestErrorCode.Cancelled;
+		this.updateState("cancelled");
+	}
+	
+	private abort() {
+		const abortController = this.abortController;
+		this.abortController = undefined;
+		abortController?.abort();
+	}
+	
+	private updateState(state: DownloadState) {
+		this._state = state;
+		
+		//Forgetting finished downloads
+		if(!this.isActive && downloadMap.get(this.attachmentGUID) === this) {
+			downloadMap.delete(this.attachmentGUID);
+		}
+		
+		this.updateEmitter.notify(this);
+	}
+}
+
+const downloadMap: Map<string, AttachmentDownload> = new Map(); //Active downloads, by attachment GUID
+
+//Restarting interrupted downloads once the connection is restored
+ConnectionManager.addConnectionListener({
+	onConnecting: () => {},
+	onOpen: () => {
+		for(const download of downloadMap.values()) {
+			if(download.state === "waiting") download.start();
+		}
+	},
+	onClose: () => {}
+});
+
+/**
+ * Starts downloading an attachment, or returns the existing download if the attachment is already being downloaded
+ */
+export function downloadAttachment(attachmentGUID: string): AttachmentDownload {
+	const existingDownload = downloadMap.get(attachmentGUID);
+	if(existingDownload) return existingDownload;
+	
+	const download = new AttachmentDownload(attachmentGUID);
+	downloadMap.set(attachmentGUID, download);
+	download.start();
+	return download;
+}
+
+/**
+ * Gets the active download for an attachment, if there is one
+ */
+export function getAttachmentDownload(attachmentGUID: string): AttachmentDownload | undefined {
+	return downloadMap.get(attachmentGUID);
+}
\ No newline at end of file
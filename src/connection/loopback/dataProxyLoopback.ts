@@ -0,0 +1,751 @@
+import DataProxy from "../dataProxy";
+import AirPacker from "../comm5/airPacker";
+import AirUnpacker from "../comm5/airUnpacker";
+import pako from "pako";
+import {ConnectionErrorCode} from "../../data/stateCodes";
+import {createCryptoKey, decryptData} from "../../util/encryptionUtils";
+import {disposePacketKey} from "../worker/packetWorkerClient";
+import {
+	createLoopbackData,
+	LoopbackAttachment,
+	LoopbackConversation,
+	LoopbackData,
+	LoopbackItem,
+	LoopbackMessage,
+	LoopbackTapback
+} from "./loopbackData";
+
+const commVer = 5;
+const commSubVer = WPEnv.PROVISIONAL_PROTOCOLS ? 5 : 3; //The provisional versions are only announced to builds that can use them
+
+const threadPageSize = 24;
+
+//Top-level net header type values
+const nhtClose = 0;
+const nhtPing = 1;
+const nhtPong = 2;
+
+const nhtInformation = 100;
+const nhtAuthentication = 101;
+
+const nhtMessageUpdate = 200;
+const nhtTimeRetrieval = 201;
+const nhtIDRetrieval = 202;
+const nhtMassRetrieval = 203;
+const nhtMassRetrievalFinish = 205;
+const nhtConversationUpdate = 206;
+const nhtModifierUpdate = 207;
+const nhtAttachmentReq = 208;
+const nhtAttachmentReqConfirm = 209;
+const nhtAttachmentReqFail = 210;
+
+const nhtLiteConversationRetrieval = 300;
+const nhtLiteThreadRetrieval = 301;
+
+const nhtSendResult = 400;
+const nhtSendTextExisting = 401;
+const nhtSendFileExisting = 403;
+const nhtCreateChat = 405;
+const nhtSendTapback = 406;
+
+//State codes
+enum NRCMessageReceiptState {
+	Idle = 0,
+	Sent = 1,
+	Delivered = 2,
+	Read = 3
+}
+
+enum NRCAuthenticationResult {
+	OK = 0,
+	Unauthorized = 1,
+	BadRequest = 2
+}
+
+enum NRCAttachmentError {
+	NotFound = 1
+}
+
+enum NRCSendResult {
+	OK = 0,
+	BadRequest = 2,
+	NoConversation = 4
+}
+
+enum NRCCreateChatResult {
+	OK = 0
+}
+
+enum NSTConversationItemType {
+	Message = 0,
+	ParticipantAction = 1,
+	ChatRename = 2
+}
+
+enum NSTModifierType {
+	Activity = 0,
+	Tapback = 2
+}
+
+export interface LoopbackOptions {
+	password?: string; //Require clients to authenticate with this password
+	latency?: number; //How long to delay each packet, in milliseconds
+	autoReply?: boolean; //Whether to reply to messages sent by the client
+}
+
+interface FileUpload {
+	chatGUID: string;
+	name: string;
+	inflator: pako.Inflate;
+}
+
+/**
+ * A data proxy that emulates an AirMessage server running comm5.5 in memory,
+ * for developing and testing the app without a server
+ *
+ * Comm5.4 and 5.5 are provisional versions that only this app defines, so tapbacks and inline replies can only be tried out here,
+ * in builds made with --env provisional. Other builds get a server running comm5.3.
+ */
+export default class DataProxyLoopback extends DataProxy {
+	private readonly options: LoopbackOptions;
+	private readonly data: LoopbackData = createLoopbackData();
+	private nextServerID: number;
+	private nextGUID = 0;
+	
+	private isRunning = false;
+	private isAuthenticated = false;
+	private transmissionCheck: Uint8Array | undefined;
+	private readonly timeoutIDs = new Set<any>();
+	private readonly fileUploads = new Map<number, FileUpload>();
+	
+	constructor(options: LoopbackOptions = {}) {
+		super();
+		
+		this.options = options;
+		this.nextServerID = this.data.items.reduce((maxID, item) => Math.max(maxID, item.serverID), 0) + 1;
+	}
+	
+	get allowsProvisionalProtocols(): boolean {
+		return true;
+	}
+	
+	start(): void {
+		if(this.isRunning) return;
+		this.isRunning = true;
+		this.isAuthenticated = false;
+		
+		this.schedule(() => {
+			this.notifyOpen();
+			this.sendInformation();
+		});
+	}
+	
+	stop(): void {
+		if(!this.isRunning) return;
+		this.isRunning = false;
+		
+		//Cancelling pending packets
+		for(const timeoutID of this.timeoutIDs) clearTimeout(timeoutID);
+		this.timeoutIDs.clear();
+		this.fileUploads.clear();
+		
+		setTimeout(() => this.notifyClose(ConnectionErrorCode.Connection), 0);
+	}
+	
+	send(data: ArrayBuffer): void {
+		if(!this.isRunning) return;
+		
+		this.schedule(() => {
+			try {
+				this.handlePacket(new AirUnpacker(data));
+			} catch(error) {
+				console.warn("Loopback server failed to read a packet", error);
+			}
+		});
+	}
+	
+	/**
+	 * Delivers a new incoming message to the client, as if it was received by the server
+	 * @param chatGUID The GUID of the conversation to add the message to
+	 * @param sender The address of the member who sent the message
+	 * @param text The text of the message
+	 */
+	public receiveMessage(chatGUID: string, sender: string, text: string) {
+		const message = this.addMessage(chatGUID, sender, text, []);
+		this.sendSecure(nhtMessageUpdate, (packer) => packArray(packer, [message], packItem));
+	}
+	
+	//Runs a callback after the simulated network latency, unless the connection is closed first
+	private schedule(callback: () => void, delay: number = this.options.latency ?? 50) {
+		const timeoutID = setTimeout(() => {
+			this.timeoutIDs.delete(timeoutID);
+			callback();
+		}, delay);
+		this.timeoutIDs.add(timeoutID);
+	}
+	
+	private sendPacket(messageType: number, isEncrypted: boolean, writer?: (packer: AirPacker) => void) {
+		const packer = AirPacker.get();
+		let data: ArrayBuffer;
+		try {
+			packer.packInt(messageType);
+			if(writer) writer(packer);
+			data = packer.toArrayBuffer();
+		} finally {
+			packer.reset();
+		}
+		
+		this.notifyMessage(data, isEncrypted);
+	}
+	
+	//Sends a packet that is only accepted once the client is authenticated
+	private sendSecure(messageType: number, writer?: (packer: AirPacker) => void) {
+		if(!this.isRunning || !this.isAuthenticated) return;
+		this.sendPacket(messageType, true, writer);
+	}
+	
+	private sendInformation() {
+		if(this.options.password !== undefined) {
+			this.transmissionCheck = new Uint8Array(32);
+			crypto.getRandomValues(this.transmissionCheck);
+		} else {
+			this.transmissionCheck = undefined;
+		}
+		
+		this.sendPacket(nhtInformation, false, (packer) => {
+			packer.packInt(commVer);
+			packer.packInt(commSubVer);
+			packer.packBoolean(this.transmissionCheck !== undefined);
+			if(this.transmissionCheck) packer.packPayload(this.transmissionCheck);
+		});
+	}
+	
+	private handlePacket(unpacker: AirUnpacker) {
+		const messageType = unpacker.unpackInt();
+		
+		//Handling packets that don't require authentication
+		switch(messageType) {
+			case nhtClose:
+				this.stop();
+				return;
+			case nhtPing:
+				this.sendPacket(nhtPong, false);
+				return;
+			case nhtAuthentication:
+				this.handleAuthentication(unpacker);
+				return;
+		}
+		
+		if(!this.isAuthenticated) {
+			console.warn(`Loopback server received message type ${messageType} before authentication`);
+			return;
+		}
+		
+		switch(messageType) {
+			case nhtLiteConversationRetrieval:
+				this.sendSecure(nhtLiteConversationRetrieval, (packer) => packArray(packer, this.data.conversations, (packer, conversation) => this.packPreviewConversation(packer, conversation)));
+				break;
+			case nhtConversationUpdate:
+				this.handleConversationUpdate(unpacker);
+				break;
+			case nhtLiteThreadRetrieval:
+				this.handleLiteThreadRetrieval(unpacker);
+				break;
+			case nhtTimeRetrieval:
+				this.handleTimeRetrieval(unpacker);
+				break;
+			case nhtIDRetrieval:
+				this.handleIDRetrieval(unpacker);
+				break;
+			case nhtMassRetrieval:
+				this.handleMassRetrieval(unpacker);
+				break;
+			case nhtAttachmentReq:
+				this.handleAttachmentRequest(unpacker);
+				break;
+			case nhtSendTextExisting:
+				this.handleSendText(unpacker);
+				break;
+			case nhtSendFileExisting:
+				this.handleSendFile(unpacker);
+				break;
+			case nhtCreateChat:
+				this.handleCreateChat(unpacker);
+				break;
+			case nhtSendTapback:
+				this.handleSendTapback(unpacker);
+				break;
+			default:
+				console.warn(`Loopback server received unsupported message type ${messageType}`);
+				break;
+		}
+	}
+	
+	private async handleAuthentication(unpacker: AirUnpacker) {
+		let result: NRCAuthenticationResult;
+		try {
+			if(this.transmissionCheck) {
+				//Decrypting the client's information with the server's password
+				let secureData: ArrayBuffer;
+				const key = await createCryptoKey(this.options.password!);
+				try {
+					secureData = await decryptData(unpacker.unpackPayload(), key);
+				} catch(error) {
+					//The client's password doesn't match
+					secureData = new ArrayBuffer(0);
+				} finally {
+					disposePacketKey(key);
+				}
+				
+				if(secureData.byteLength === 0) {
+					result = NRCAuthenticationResult.Unauthorized;
+				} else {
+					const secureUnpacker = new AirUnpacker(secureData);
+					const transmissionCheck = new Uint8Array(secureUnpacker.unpackPayload());
+					readClientInformation(secureUnpacker);
+					
+					result = arrayEquals(transmissionCheck, this.transmissionCheck) ? NRCAuthenticationResult.OK : NRCAuthenticationResult.Unauthorized;
+				}
+			} else {
+				readClientInformation(unpacker);
+				result = NRCAuthenticationResult.OK;
+			}
+		} catch(error) {
+			result = NRCAuthenticationResult.BadRequest;
+		}
+		
+		if(!this.isRunning) return;
+		
+		this.sendPacket(nhtAuthentication, false, (packer) => {
+			packer.packInt(result);
+			if(result === NRCAuthenticationResult.OK) {
+				packer.packString("loopback");
+				packer.packString("Loopback Server");
+				packer.packString("11.0");
+				packer.packString("3.2");
+			}
+		});
+		
+		if(result === NRCAuthenticationResult.OK) this.isAuthenticated = true;
+	}
+	
+	private handleConversationUpdate(unpacker: AirUnpacker) {
+		const chatGUIDs = unpackStringArray(unpacker);
+		
+		this.sendSecure(nhtConversationUpdate, (packer) => packArray(packer, chatGUIDs, (packer, chatGUID) => {
+			packer.packString(chatGUID);
+			
+			const conversation = this.findConversation(chatGUID);
+			packer.packBoolean(conversation !== undefined);
+			if(conversation) packConversationInfo(packer, conversation);
+		}));
+	}
+	
+	private handleLiteThreadRetrieval(unpacker: AirUnpacker) {
+		const chatGUID = unpacker.unpackString();
+		const firstMessageID = unpacker.unpackBoolean() ? unpacker.unpackLong() : undefined;
+		
+		//Collecting the page of items before the first message the client has
+		const items = this.data.items
+			.filter((item) => item.chatGUID === chatGUID && (firstMessageID === undefined || item.serverID < firstMessageID))
+			.slice(-threadPageSize);
+		
+		this.sendSecure(nhtLiteThreadRetrieval, (packer) => {
+			packer.packString(chatGUID);
+			if(firstMessageID !== undefined) {
+				packer.packBoolean(true);
+				packer.packLong(firstMessageID);
+			} else {
+				packer.packBoolean(false);
+			}
+			packArray(packer, items, packItem);
+		});
+	}
+	
+	private handleTimeRetrieval(unpacker: AirUnpacker) {
+		const timeLower = unpacker.unpackLong();
+		const timeUpper = unpacker.unpackLong();
+		
+		const items = this.data.items.filter((item) => item.date > timeLower && item.date < timeUpper);
+		this.sendSecure(nhtTimeRetrieval, (packer) => packArray(packer, items, packItem));
+	}
+	
+	private handleIDRetrieval(unpacker: AirUnpacker) {
+		const idLower = unpacker.unpackLong();
+		const timeLower = unpacker.unpackLong();
+		const timeUpper = unpacker.unpackLong();
+		
+		const items = this.data.items.filter((item) => item.serverID > idLower && item.date > timeLower && item.date < timeUpper);
+		this.sendSecure(nhtMessageUpdate, (packer) => packArray(packer, items, packItem));
+	}
+	
+	private handleMassRetrieval(unpacker: AirUnpacker) {
+		//Attachment files aren't included, so the rest of the parameters are ignored
+		const requestID = unpacker.unpackShort();
+		
+		this.sendSecure(nhtMassRetrieval, (packer) => {
+			packer.packShort(requestID);
+			packer.packInt(0);
+			packArray(packer, this.data.conversations, (packer, conversation) => {
+				packer.packString(conversation.guid);
+				packer.packBoolean(true);
+				packConversationInfo(packer, conversation);
+			});
+			packer.packInt(this.data.items.length);
+		});
+		this.sendSecure(nhtMassRetrieval, (packer) => {
+			packer.packShort(requestID);
+			packer.packInt(1);
+			packArray(packer, this.data.items, packItem);
+		});
+		this.sendSecure(nhtMassRetrievalFinish);
+	}
+	
+	private handleAttachmentRequest(unpacker: AirUnpacker) {
+		const requestID = unpacker.unpackShort();
+		const chunkSize = unpacker.unpackInt();
+		const attachmentGUID = unpacker.unpackString();
+		
+		//Finding the attachment
+		let attachment: LoopbackAttachment | undefined;
+		for(const item of this.data.items) {
+			if(item.itemType !== "message") continue;
+			attachment = item.attachments.find((attachment) => attachment.guid === attachmentGUID);
+			if(attachment) break;
+		}
+		
+		if(!attachment) {
+			this.sendSecure(nhtAttachmentReqFail, (packer) => {
+				packer.packShort(requestID);
+				packer.packInt(NRCAttachmentError.NotFound);
+			});
+			return;
+		}
+		
+		this.sendSecure(nhtAttachmentReqConfirm, (packer) => packer.packShort(requestID));
+		
+		//Sending the compressed file in chunks, with a delay between each one to simulate transfer time
+		const fileLength = attachment.data.length;
+		const compressedData = pako.deflate(attachment.data);
+		const chunkCount = Math.max(Math.ceil(compressedData.length / chunkSize), 1);
+		for(let i = 0; i < chunkCount; i++) {
+			this.schedule(() => this.sendSecure(nhtAttachmentReq, (packer) => {
+				packer.packShort(requestID);
+				packer.packInt(i);
+				if(i === 0) packer.packLong(fileLength);
+				packer.packBoolean(i === chunkCount - 1);
+				packer.packString(attachmentGUID);
+				packer.packPayload(compressedData.subarray(i * chunkSize, (i + 1) * chunkSize));
+			}), (this.options.latency ?? 50) * i);
+		}
+	}
+	
+	private handleSendText(unpacker: AirUnpacker) {
+		const requestID = unpacker.unpackShort();
+		const chatGUID = unpacker.unpackString();
+		const text = unpacker.unpackString();
+		
+		this.completeSend(requestID, chatGUID, text, []);
+	}
+	
+	private handleSendFile(unpacker: AirUnpacker) {
+		const requestID = unpacker.unpackShort();
+		const requestIndex = unpacker.unpackInt();
+		const isLast = unpacker.unpackBoolean();
+		const chatGUID = unpacker.unpackString();
+		const data = unpacker.unpackPayload();
+		
+		let upload = this.fileUploads.get(requestID);
+		if(requestIndex === 0) {
+			upload = {chatGUID: chatGUID, name: unpacker.unpackString(), inflator: new pako.Inflate()};
+			this.fileUploads.set(requestID, upload);
+		} else if(!upload) {
+			this.sendSendResult(requestID, NRCSendResult.BadRequest);
+			return;
+		}
+		
+		upload.inflator.push(new Uint8Array(data), isLast);
+		if(!isLast) return;
+		
+		//Saving the file
+		this.fileUploads.delete(requestID);
+		if(upload.inflator.err) {
+			this.sendSendResult(requestID, NRCSendResult.BadRequest);
+			return;
+		}
+		
+		const attachment: LoopbackAttachment = {
+			guid: this.generateGUID("attachment"),
+			name: upload.name,
+			type: mimeTypeFromName(upload.name),
+			data: upload.inflator.result as Uint8Array
+		};
+		this.completeSend(requestID, upload.chatGUID, undefined, [attachment]);
+	}
+	
+	private completeSend(requestID: number, chatGUID: string, text: string | undefined, attachments: LoopbackAttachment[]) {
+		const conversation = this.findConversation(chatGUID);
+		if(!conversation) {
+			this.sendSendResult(requestID, NRCSendResult.NoConversation);
+			return;
+		}
+		
+		//Confirming the message and sending it back to the client
+		const message = this.addMessage(chatGUID, undefined, text, attachments);
+		this.sendSendResult(requestID, NRCSendResult.OK);
+		this.sendSecure(nhtMessageUpdate, (packer) => packArray(packer, [message], packItem));
+		
+		//Simulating delivery and read receipts
+		const latency = this.options.latency ?? 50;
+		this.schedule(() => this.updateMessageStatus(message, NRCMessageReceiptState.Delivered), latency * 10);
+		this.schedule(() => this.updateMessageStatus(message, NRCMessageReceiptState.Read), latency * 20);
+		
+		//Reacting and replying to the message
+		if(this.options.autoReply ?? true) {
+			const sender = conversation.members[0];
+			this.schedule(() => this.updateTapback(message, {sender: sender, messageIndex: 0, tapbackType: 0}, true), latency * 30);
+			this.schedule(() => this.receiveMessage(chatGUID, sender, text !== undefined ? `Echo: ${text}` : `Received ${attachments.map((attachment) => attachment.name).join(", ")}`), latency * 40);
+		}
+	}
+	
+	private handleSendTapback(unpacker: AirUnpacker) {
+		const requestID = unpacker.unpackShort();
+		const chatGUID = unpacker.unpackString();
+		const messageGUID = unpacker.unpackString();
+		const messageIndex = unpacker.unpackInt();
+		const tapbackType = unpacker.unpackInt();
+		const isAddition = unpacker.unpackBoolean();
+		
+		const message = this.data.items.find((item): item is LoopbackMessage => item.itemType === "message" && item.guid === messageGUID && item.chatGUID === chatGUID);
+		if(!message) {
+			this.sendSendResult(requestID, NRCSendResult.NoConversation);
+			return;
+		}
+		
+		this.sendSendResult(requestID, NRCSendResult.OK);
+		this.updateTapback(message, {messageIndex: messageIndex, tapbackType: tapbackType}, isAddition);
+	}
+	
+	//Replaces a member's tapback on a message part, and sends the change to the client
+	private updateTapback(message: LoopbackMessage, tapback: LoopbackTapback, isAddition: boolean) {
+		const index = message.tapbacks.findIndex((existingTapback) => existingTapback.sender === tapback.sender && existingTapback.messageIndex === tapback.messageIndex);
+		if(index !== -1) message.tapbacks.splice(index, 1);
+		if(isAddition) message.tapbacks.push(tapback);
+		
+		this.sendSecure(nhtModifierUpdate, (packer) => packArray(packer, [tapback], (packer, tapback) => {
+			packer.packInt(NSTModifierType.Tapback);
+			packer.packString(message.guid);
+			packer.packInt(tapback.messageIndex);
+			packer.packNullableString(tapback.sender ?? null);
+			packer.packBoolean(isAddition);
+			packer.packInt(tapback.tapbackType);
+		}));
+	}
+	
+	private sendSendResult(requestID: number, result: NRCSendResult) {
+		this.sendSecure(nhtSendResult, (packer) => {
+			packer.packShort(requestID);
+			packer.packInt(result);
+			packer.packNullableString(null);
+		});
+	}
+	
+	private updateMessageStatus(message: LoopbackMessage, status: NRCMessageReceiptState) {
+		message.status = status;
+		if(status === NRCMessageReceiptState.Read) message.dateRead = Date.now();
+		
+		this.sendSecure(nhtModifierUpdate, (packer) => packArray(packer, [message], (packer, message) => {
+			packer.packInt(NSTModifierType.Activity);
+			packer.packString(message.guid);
+			packer.packInt(message.status);
+			packer.packLong(Date.now());
+		}));
+	}
+	
+	private handleCreateChat(unpacker: AirUnpacker) {
+		const requestID = unpacker.unpackShort();
+		const members = unpackStringArray(unpacker);
+		const service = unpacker.unpackString();
+		
+		//Reusing an existing conversation with the same members
+		let conversation = this.data.conversations.find((conversation) => conversation.service === service && arrayEquals(conversation.members.slice().sort(), members.slice().sort()));
+		if(!conversation) {
+			conversation = {
+				guid: members.length === 1 ? `${service};-;${members[0]}` : `${service};+;${this.generateGUID("chat")}`,
+				service: service,
+				members: members
+			};
+			this.data.conversations.push(conversation);
+		}
+		
+		const chatGUID = conversation.guid;
+		this.sendSecure(nhtCreateChat, (packer) => {
+			packer.packShort(requestID);
+			packer.packInt(NRCCreateChatResult.OK);
+			packer.packNullableString(chatGUID);
+		});
+	}
+	
+	private findConversation(chatGUID: string): LoopbackConversation | undefined {
+		return this.data.conversations.find((conversation) => conversation.guid === chatGUID);
+	}
+	
+	private addMessage(chatGUID: string, sender: string | undefined, text: string | undefined, attachments: LoopbackAttachment[]): LoopbackMessage {
+		const message: LoopbackMessage = {
+			itemType: "message",
+			serverID: this.nextServerID++,
+			guid: this.generateGUID("message"),
+			chatGUID: chatGUID,
+			date: Date.now(),
+			text: text,
+			sender: sender,
+			attachments: attachments,
+			tapbacks: [],
+			status: sender ? NRCMessageReceiptState.Idle : NRCMessageReceiptState.Sent,
+			dateRead: 0
+		};
+		this.data.items.push(message);
+		
+		return message;
+	}
+	
+	private generateGUID(type: string): string {
+		return `loopback-${type}-${Date.now()}-${this.nextGUID++}`;
+	}
+	
+	private packPreviewConversation(packer: AirPacker, conversation: LoopbackConversation) {
+		packer.packString(conversation.guid);
+		packConversationInfo(packer, conversation);
+		
+		//Using the latest message as the preview
+		let preview: LoopbackMessage | undefined;
+		for(let i = this.data.items.length - 1; i >= 0; i--) {
+			const item = this.data.items[i];
+			if(item.chatGUID === conversation.guid && item.itemType === "message") {
+				preview = item;
+				break;
+			}
+		}
+		
+		packer.packLong(preview?.date ?? 0);
+		packer.packNullableString(preview?.sender ?? null);
+		packer.packNullableString(preview?.text ?? null);
+		packer.packNullableString(null);
+		packArray(packer, preview?.attachments ?? [], (packer, attachment) => packer.packString(attachment.name));
+	}
+}
+
+function readClientInformation(unpacker: AirUnpacker) {
+	/*const installationID = */unpacker.unpackString();
+	/*const clientName = */unpacker.unpackString();
+	/*const platformID = */unpacker.unpackString();
+}
+
+function unpackStringArray(unpacker: AirUnpacker): string[] {
+	const count = unpacker.unpackArrayHeader();
+	const array: string[] = [];
+	for(let i = 0; i < count; i++) array[i] = unpacker.unpackString();
+	return array;
+}
+
+function packArray<T>(packer: AirPacker, array: T[], packerFunction: (packer: AirPacker, item: T) => void) {
+	packer.packArrayHeader(array.length);
+	for(const item of array) packerFunction(packer, item);
+}
+
+function packConversationInfo(packer: AirPacker, conversation: LoopbackConversation) {
+	packer.packString(conversation.service);
+	packer.packNullableString(conversation.name ?? null);
+	packArray(packer, conversation.members, (packer, member) => packer.packString(member));
+}
+
+function packItem(packer: AirPacker, item: LoopbackItem) {
+	switch(item.itemType) {
+		case "message":
+			packer.packInt(NSTConversationItemType.Message);
+			break;
+		case "participantAction":
+			packer.packInt(NSTConversationItemType.ParticipantAction);
+			break;
+		case "chatRename":
+			packer.packInt(NSTConversationItemType.ChatRename);
+			break;
+	}
+	packer.packLong(item.serverID);
+	packer.packString(item.guid);
+	packer.packString(item.chatGUID);
+	packer.packLong(item.date);
+	
+	switch(item.itemType) {
+		case "message":
+			packer.packNullableString(item.text ?? null);
+			packer.packNullableString(null); //Subject
+			packer.packNullableString(item.sender ?? null);
+			packArray(packer, item.attachments, (packer, attachment) => {
+				packer.packString(attachment.guid);
+				packer.packString(attachment.name);
+				packer.packNullableString(attachment.type);
+				packer.packLong(attachment.data.length);
+				packer.packNullablePayload(null); //Checksum
+				packer.packLong(0); //Sort
+			});
+			packer.packArrayHeader(0); //Stickers
+			packArray(packer, item.tapbacks, (packer, tapback) => {
+				packer.packInt(NSTModifierType.Tapback);
+				packer.packString(item.guid);
+				packer.packInt(tapback.messageIndex);
+				packer.packNullableString(tapback.sender ?? null);
+				packer.packBoolean(true);
+				packer.packInt(tapback.tapbackType);
+			});
+			packer.packNullableString(null); //Send style
+			packer.packInt(item.status);
+			packer.packInt(0); //Error
+			packer.packLong(item.dateRead);
+			if(commSubVer >= 5) {
+				packer.packNullableString(item.replyTarget?.guid ?? null);
+				if(item.replyTarget) packer.packInt(item.replyTarget.messageIndex);
+			}
+			break;
+		case "participantAction":
+			packer.packNullableString(item.user ?? null);
+			packer.packNullableString(item.target ?? null);
+			packer.packInt(item.actionType);
+			break;
+		case "chatRename":
+			packer.packNullableString(item.user ?? null);
+			packer.packNullableString(item.chatName ?? null);
+			break;
+	}
+}
+
+function arrayEquals<T>(array1: ArrayLike<T>, array2: ArrayLike<T>): boolean {
+	if(array1.length !== array2.length) return false;
+	for(let i = 0; i < array1.length; i++) {
+		if(array1[i] !== array2[i]) return false;
+	}
+	return true;
+}
+
+function mimeTypeFromName(name: string): string {
+	const extension = name.substring(name.lastIndexOf(".") + 1).toLowerCase();
+	switch(extension) {
+		case "png":
+			return "image/png";
+		case "jpg":
+		case "jpeg":
+			return "image/jpeg";
+		case "gif":
+			return "image/gif";
+		case "svg":
+			return "image/svg+xml";
+		case "txt":
+			return "text/plain";
+		case "pdf":
+			return "application/pdf";
+		case "mp4":
+			return "video/mp4";
+		default:
+			return "application/octet-stream";
+	}
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+//Records kept by the loopback server, in the form they are sent over the network
+export interface LoopbackConversation {
+	guid: string;
+	service: string;
+	name?: string;
+	members: string[];
+}
+
+export interface LoopbackAttachment {
+	guid: string;
+	name: string;
+	type: string;
+	data: Uint8Array;
+}
+
+export interface LoopbackTapback {
+	sender?: string;
+	messageIndex: number;
+	tapbackType: number;
+}
+
+interface LoopbackItemBase {
+	serverID: number;
+	guid: string;
+	chatGUID: string;
+	date: number;
+}
+
+export interface LoopbackMessage extends LoopbackItemBase {
+	itemType: "message";
+	text?: string;
+	sender?: string; //Undefined for outgoing messages
+	attachments: LoopbackAttachment[];
+	tapbacks: LoopbackTapback[];
+	replyTarget?: {guid: string, messageIndex: number}; //The message part that this message is an inline reply to
+	status: number;
+	dateRead: number;
+}
+
+export interface LoopbackParticipantAction extends LoopbackItemBase {
+	itemType: "participantAction";
+	user?: string;
+	target?: string;
+	actionType: number;
+}
+
+export interface LoopbackChatRename extends LoopbackItemBase {
+	itemType: "chatRename";
+	user?: string;
+	chatName?: string;
+}
+
+export type LoopbackItem = LoopbackMessage | LoopbackParticipantAction | LoopbackChatRename;
+
+export interface LoopbackData {
+	conversations: LoopbackConversation[];
+	items: LoopbackItem[]; //Sorted from oldest to newest
+}
+
+const timeMinute = 60 * 1000;
+const timeHour = 60 * timeMinute;
+const timeDay = 24 * timeHour;
+
+const textEncoder = new TextEncoder();
+
+const sampleImage = `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="200" viewBox="0 0 320 200">
+	<rect width="320" height="200" fill="#448aff"/>
+	<circle cx="160" cy="100" r="60" fill="#ffffff"/>
+</svg>`;
+
+const sampleDocument = "This file was served by the AirMessage loopback server.\n";
+
+/**
+ * Creates a set of sample conversations for the loopback server to serve
+ */
+export function createLoopbackData(): LoopbackData {
+	const conversations: LoopbackConversation[] = [
+		{
+			guid: "iMessage;-;+15551234567",
+			service: "iMessage",
+			members: ["+15551234567"]
+		},
+		{
+			guid: "iMessage;+;chat100000000000000001",
+			service: "iMessage",
+			name: "Weekend plans",
+			members: ["+15551234567", "alex@example.com", "+15559876543"]
+		},
+		{
+			guid: "SMS;-;+15557654321",
+			service: "SMS",
+			members: ["+15557654321"]
+		}
+	];
+	
+	const now = Date.now();
+	const items: LoopbackItem[] = [];
+	let nextServerID = 1;
+	
+	const addMessage = (chatGUID: string, date: number, sender: string | undefined, text: string | undefined, attachments: LoopbackAttachment[] = [], replyTarget?: LoopbackMessage["replyTarget"]): string => {
+		const serverID = nextServerID++;
+		const guid = `loopback-message-${serverID}`;
+		items.push({
+			itemType: "message",
+			serverID: serverID,
+			guid: guid,
+			chatGUID: chatGUID,
+			date: date,
+			text: text,
+			sender: sender,
+			attachments: attachments,
+			tapbacks: [],
+			replyTarget: replyTarget,
+			status: sender ? 0 : 3,
+			dateRead: sender ? 0 : date + timeMinute
+		});
+		return guid;
+	};
+	
+	//One-on-one conversation with a long history, for testing pagination
+	{
+		const chatGUID = conversations[0].guid;
+		for(let i = 0; i < 60; i++) {
+			const date = now - 3 * timeDay + i * 30 * timeMinute;
+			addMessage(chatGUID, date, i % 3 === 0 ? undefined : "+15551234567", `Message number ${i + 1}`);
+		}
+	}
+	
+	//Group conversation with actions and attachments
+	{
+		const chatGUID = conversations[1].guid;
+		const date = now - 2 * timeDay;
+		
+		items.push({
+			itemType: "participantAction",
+			serverID: nextServerID,
+			guid: `loopback-action-${nextServerID++}`,
+			chatGUID: chatGUID,
+			date: date,
+			user: "+15551234567",
+			target: "+15559876543",
+			actionType: 1
+		});
+		items.push({
+			itemType: "chatRename",
+			serverID: nextServerID,
+			guid: `loopback-action-${nextServerID++}`,
+			chatGUID: chatGUID,
+			date: date + timeMinute,
+			user: "alex@example.com",
+			chatName: "Weekend plans"
+		});
+		const questionGUID = addMessage(chatGUID, date + 2 * timeMinute, "alex@example.com", "Who's up for a hike on Saturday?");
+		const mapGUID = addMessage(chatGUID, date + 3 * timeMinute, "+15559876543", "Here's the trail map", [{
+			guid: "loopback-attachment-map",
+			name: "trail-map.svg",
+			type: "image/svg+xml",
+			data: textEncoder.encode(sampleImage)
+		}]);
+		addMessage(chatGUID, date + 4 * timeMinute, "alex@example.com", "Which trailhead do we meet at?", [], {guid: mapGUID, messageIndex: 1});
+		addMessage(chatGUID, date + 5 * timeMinute, undefined, "Count me in!", [], {guid: questionGUID, messageIndex: 0});
+		addMessage(chatGUID, date + 6 * timeMinute, "+15551234567", undefined, [{
+			guid: "loopback-attachment-notes",
+			name: "notes.txt",
+			type: "text/plain",
+			data: textEncoder.encode(sampleDocument)
+		}]);
+	}
+	
+	//SMS conversation
+	{
+		const chatGUID = conversations[2].guid;
+		addMessage(chatGUID, now - timeHour, "+15557654321", "Your verification code is 123456");
+	}
+	
+	items.sort((item1, item2) => item1.date - item2.date);
+	
+	return {
+		conversations: conversations,
+		items: items
+	};
+}
\ No newline at end of file
@@ -0,0 +1,354 @@
+import {AttachmentItem, Conversation, ConversationItem, MessageItem, MessageModifier} from "../data/blocks";
+import {deleteDatabase, openDatabase, promisifyRequest, promisifyTransaction} from "../util/indexedDBUtils";
+import {defaultAccountID} from "../util/accountUtils";
+import {applyMessageModifier, isConversationItemMessage, messageItemToConversationPreview} from "../util/conversationUtils";
+
+const databaseNamePrefix = "messageStore";
+const databaseVersion = 2;
+
+const storeConversations = "conversations";
+const storeItems = "items";
+const storeModifiers = "modifiers"; //Modifiers received for messages that aren't stored yet
+const storeOutbox = "outbox";
+
+const indexThread = "thread";
+const indexMessageGUID = "messageGuid";
+
+//The maximum amount of items to return when loading a thread, to match the server's page size
+const threadPageSize = 50;
+
+//How long a claim on an outbox entry lasts if its owner doesn't remove or release it, such as if the app is closed while sending
+//This is long enough to upload a large file
+const outboxClaimMillis = 10 * 60 * 1000;
+
+/**
+ * An outgoing message waiting to be sent to the server
+ */
+export interface OutboxEntry {
+	readonly id?: number; //Assigned by the store
+	readonly chatGuid: string;
+	readonly date: Date;
+	readonly text?: string;
+	readonly file?: File;
+	readonly inFlight?: boolean; //Whether the message may have already reached the server, in which case it must not be sent again
+	readonly claim?: {owner: string, expiry: number}; //The context that is currently sending this message, which the app and service worker use to avoid sending it together
+}
+
+/**
+ * The outcome of trying to take ownership of an outbox entry
+ */
+export type OutboxClaim =
+	{type: "claimed", entry: OutboxEntry} | //The entry can be sent
+	{type: "busy"} | //Another context is sending the entry
+	{type: "removed"}; //The entry has already been sent or discarded
+
+/**
+ * Saves conversations and messages from an account's server, so that they can be displayed without a connection
+ */
+export default class MessageStore {
+	private readonly databaseName: string;
+	private databasePromise: Promise<IDBDatabase> | undefined;
+	
+	/**
+	 * @param accountID The account to store data for, which is kept in its own database
+	 */
+	constructor(accountID: string) {
+		//The default account keeps the database from before multiple accounts were supported
+		this.databaseName = accountID === defaultAccountID ? databaseNamePrefix : `${databaseNamePrefix}-${accountID}`;
+	}
+	
+	private getDatabase(): Promise<IDBDatabase> {
+		if(!this.databasePromise) {
+			this.databasePromise = openDatabase(this.databaseName, databaseVersion, (database, oldVersion) => {
+				if(oldVersion < 1) {
+					database.createObjectStore(storeConversations, {keyPath: "guid"});
+					
+					const itemStore = database.createObjectStore(storeItems, {keyPath: "guid"});
+					itemStore.createIndex(indexThread, ["chatGuid", "serverID"]);
+					
+					const modifierStore = database.createObjectStore(storeModifiers, {autoIncrement: true});
+					modifierStore.createIndex(indexMessageGUID, "messageGuid");
+				}
+				if(oldVersion < 2) {
+					database.createObjectStore(storeOutbox, {keyPath: "id", autoIncrement: true});
+				}
+			});
+			
+			//Allowing the database to be opened again if it fails
+			this.databasePromise.catch(() => this.databasePromise = undefined);
+		}
+		
+		return this.databasePromise;
+	}
+	
+	/**
+	 * Loads all stored conversations, sorted by their preview date from newest to oldest
+	 */
+	async loadConversations(): Promise<Conversation[]> {
+		const database = await this.getDatabase();
+		const conversations: Conversation[] = await promisifyRequest(database.transaction(storeConversations, "readonly").objectStore(storeConversations).getAll());
+		return conversations.sort((conversation1, conversation2) => conversation2.preview.date.getTime() - conversation1.preview.date.getTime());
+	}
+	
+	/**
+	 * Saves conversations to the store
+	 * @param conversations The conversations to save
+	 * @param replace Whether to remove all other stored conversations
+	 */
+	async saveConversations(conversations: Conversation[], replace: boolean): Promise<void> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction(storeConversations, "readwrite");
+		const store = transaction.objectStore(storeConversations);
+		
+		if(replace) store.clear();
+		for(const conversation of conversations) {
+			store.put({...conversation, unreadMessages: undefined});
+		}
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Loads stored items from a conversation, ordered from newest to oldest
+	 * @param chatGUID The GUID of the conversation
+	 * @param firstMessageID If provided, only items older than this server ID will be returned
+	 */
+	async loadThread(chatGUID: string, firstMessageID?: number): Promise<ConversationItem[]> {
+		const database = await this.getDatabase();
+		const index = database.transaction(storeItems, "readonly").objectStore(storeItems).index(indexThread);
+		const range = IDBKeyRange.bound([chatGUID, -Infinity], [chatGUID, firstMessageID ?? Infinity], false, firstMessageID !== undefined);
+		
+		return new Promise((resolve, reject) => {
+			const items: ConversationItem[] = [];
+			const request = index.openCursor(range, "prev");
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if(cursor && items.length < threadPageSize) {
+					items.push(cursor.value);
+					cursor.continue();
+				} else {
+					resolve(items);
+				}
+			};
+			request.onerror = () => reject(request.error);
+		});
+	}
+	
+	/**
+	 * Saves conversation items received from the server, applying any modifiers that were received before them
+	 */
+	async saveItems(items: ConversationItem[]): Promise<void> {
+		//Ignoring local items that haven't been confirmed by the server
+		const serverItems = items.filter((item) => item.guid !== undefined && item.serverID !== undefined);
+		if(serverItems.length === 0) return;
+		
+		const database = await this.getDatabase();
+		const transaction = database.transaction([storeItems, storeModifiers, storeConversations], "readwrite");
+		const itemStore = transaction.objectStore(storeItems);
+		const modifierIndex = transaction.objectStore(storeModifiers).index(indexMessageGUID);
+		const conversationStore = transaction.objectStore(storeConversations);
+		
+		const latestMessages: Map<string, MessageItem> = new Map();
+		for(const item of serverItems) {
+			if(!isConversationItemMessage(item)) {
+				itemStore.put(toStoredItem(item));
+				continue;
+			}
+			
+			//Applying pending modifiers
+			const cursorRequest = modifierIndex.openCursor(IDBKeyRange.only(item.guid));
+			let message: MessageItem = toStoredMessage(item);
+			cursorRequest.onsuccess = () => {
+				const cursor = cursorRequest.result;
+				if(cursor) {
+					message = applyMessageModifier(message, cursor.value);
+					cursor.delete();
+					cursor.continue();
+				} else {
+					itemStore.put(message);
+				}
+			};
+			
+			//Recording the latest message per conversation
+			const latestMessage = latestMessages.get(item.chatGuid);
+			if(!latestMessage || latestMessage.date < item.date) latestMessages.set(item.chatGuid, item);
+		}
+		
+		//Updating conversation previews
+		for(const [chatGUID, message] of latestMessages.entries()) {
+			const conversationRequest = conversationStore.get(chatGUID);
+			conversationRequest.onsuccess = () => {
+				const conversation: Conversation | undefined = conversationRequest.result;
+				if(!conversation || conversation.preview.date >= message.date) return;
+				
+				conversationStore.put({...conversation, preview: messageItemToConversationPreview(message)});
+			};
+		}
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Applies modifiers to stored messages, or holds on to them until their message is saved
+	 */
+	async saveModifiers(modifiers: MessageModifier[]): Promise<void> {
+		if(modifiers.length === 0) return;
+		
+		const database = await this.getDatabase();
+		const transaction = database.transaction([storeItems, storeModifiers], "readwrite");
+		const itemStore = transaction.objectStore(storeItems);
+		const modifierStore = transaction.objectStore(storeModifiers);
+		
+		//Modifiers are applied one at a time, so that multiple modifiers targeting the same message don't overwrite each other
+		function applyModifier(index: number) {
+			if(index >= modifiers.length) return;
+			const modifier = modifiers[index];
+			
+			const itemRequest = itemStore.get(modifier.messageGuid);
+			itemRequest.onsuccess = () => {
+				const item: ConversationItem | undefined = itemRequest.result;
+				if(item && isConversationItemMessage(item)) {
+					itemStore.put(applyMessageModifier(item, modifier));
+				} else {
+					modifierStore.add(modifier);
+				}
+				
+				applyModifier(index + 1);
+			};
+		}
+		applyModifier(0);
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Loads all outgoing messages waiting to be sent, in the order they were added
+	 */
+	async loadOutbox(): Promise<OutboxEntry[]> {
+		const database = await this.getDatabase();
+		return promisifyRequest(database.transaction(storeOutbox, "readonly").objectStore(storeOutbox).getAll());
+	}
+	
+	/**
+	 * Adds an outgoing message to the end of the outbox
+	 * @return The ID of the saved entry
+	 */
+	async addOutboxEntry(entry: OutboxEntry): Promise<number> {
+		const database = await this.getDatabase();
+		return promisifyRequest(database.transaction(storeOutbox, "readwrite").objectStore(storeOutbox).add(entry)) as Promise<number>;
+	}
+	
+	/**
+	 * Takes ownership of an outgoing message, so that it is only sent by one context at a time
+	 * @param id The ID of the entry to claim
+	 * @param owner An ID that is unique to the calling context
+	 */
+	async claimOutboxEntry(id: number, owner: string): Promise<OutboxClaim> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction(storeOutbox, "readwrite");
+		const store = transaction.objectStore(storeOutbox);
+		
+		//Checking and updating the entry from the request callback, so that no other context can claim it in between
+		let claim: OutboxClaim = {type: "removed"};
+		const request = store.get(id);
+		request.onsuccess = () => {
+			const entry: OutboxEntry | undefined = request.result;
+			if(!entry) return;
+			
+			const now = Date.now();
+			if(entry.claim && entry.claim.owner !== owner && entry.claim.expiry > now) {
+				claim = {type: "busy"};
+			} else {
+				const claimedEntry: OutboxEntry = {...entry, claim: {owner: owner, expiry: now + outboxClaimMillis}};
+				store.put(claimedEntry);
+				claim = {type: "claimed", entry: claimedEntry};
+			}
+		};
+		
+		await promisifyTransaction(transaction);
+		return claim;
+	}
+	
+	/**
+	 * Gives up ownership of an outgoing message that couldn't be sent, so that another context can send it
+	 */
+	async releaseOutboxEntry(id: number, owner: string): Promise<void> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction(storeOutbox, "readwrite");
+		const store = transaction.objectStore(storeOutbox);
+		
+		const request = store.get(id);
+		request.onsuccess = () => {
+			const entry: OutboxEntry | undefined = request.result;
+			if(entry?.claim?.owner === owner) store.put({...entry, claim: undefined} as OutboxEntry);
+		};
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Records that an outgoing message has been handed to the server, so that it isn't sent again if its result never arrives
+	 */
+	async markOutboxEntryInFlight(id: number): Promise<void> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction(storeOutbox, "readwrite");
+		const store = transaction.objectStore(storeOutbox);
+		
+		//Updating the entry from the request callback, so that the transaction is still active
+		const request = store.get(id);
+		request.onsuccess = () => {
+			const entry: OutboxEntry | undefined = request.result;
+			if(entry) store.put({...entry, inFlight: true} as OutboxEntry);
+		};
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Removes an outgoing message from the outbox
+	 */
+	async removeOutboxEntry(id: number): Promise<void> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction(storeOutbox, "readwrite");
+		transaction.objectStore(storeOutbox).delete(id);
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Removes all stored data
+	 */
+	async clear(): Promise<void> {
+		const database = await this.getDatabase();
+		const transaction = database.transaction([storeConversations, storeItems, storeModifiers, storeOutbox], "readwrite");
+		for(const store of [storeConversations, storeItems, storeModifiers, storeOutbox]) {
+			transaction.objectStore(store).clear();
+		}
+		
+		await promisifyTransaction(transaction);
+	}
+	
+	/**
+	 * Closes and deletes the database, such as when its account is removed
+	 */
+	async delete(): Promise<void> {
+		const databasePromise = this.databasePromise;
+		this.databasePromise = undefined;
+		(await databasePromise?.catch(() => undefined))?.close();
+		
+		await deleteDatabase(this.databaseName);
+	}
+}
+
+//Strips local-only values from items before they are saved
+function toStoredItem(item: ConversationItem): ConversationItem {
+	return {...item, localID: undefined};
+}
+
+function toStoredMessage(message: MessageItem): MessageItem {
+	return {
+		...message,
+		localID: undefined,
+		progress: undefined,
+		attachments: message.attachments.map((attachment): AttachmentItem => ({...attachment, localID: undefined, data: undefined}))
+	};
+}
\ No newline at end of file
@@ -0,0 +1,247 @@
+import DataProxy from "./dataProxy";
+import ClientComm5 from "./comm5/clientComm5";
+import MessageStore from "./messageStore";
+import RequestRegistry from "./requestRegistry";
+import {CommunicationsManagerListener, createIgnoringListener} from "./communicationsManager";
+import {v4 as uuidv4} from "uuid";
+import {ConnectionErrorCode, MessageError, MessageErrorCode} from "../data/stateCodes";
+import {openDatabase, promisifyRequest, promisifyTransaction} from "../util/indexedDBUtils";
+import {setCryptoPassword} from "../util/encryptionUtils";
+import {preloadInstallationID} from "../util/installationUtils";
+import {getSecureLS, SecureStorageKey} from "../util/secureStorageUtils";
+
+const databaseName = "outboxSync";
+const databaseVersion = 1;
+
+const storeAccounts = "accounts";
+const storeResults = "results";
+
+const indexThread = "thread";
+
+//The tag that background syncs for queued messages are registered with
+export const outboxSyncTag = "outbox";
+
+//How long to wait for the server before leaving the messages for the next sync
+const connectTimeoutMillis = 30 * 1000;
+const sendTimeoutMillis = 30 * 1000;
+
+const messageErrorNetwork: MessageError = {code: MessageErrorCode.LocalNetwork};
+const messageErrorUnconfirmed: MessageError = {code: MessageErrorCode.LocalUnconfirmed};
+
+/**
+ * The details needed to send an account's queued messages while the app is closed
+ *
+ * These are saved when a message is queued, since the service worker can't read the app's local storage,
+ * and removed once the account has no more queued messages or is deleted.
+ * The account's password is read from secure storage instead, which keeps it where the service worker can read it.
+ */
+export interface OutboxSyncAccount {
+	accountID: string;
+	installationID: string;
+	connection: {type: "connect"} | {type: "direct", address: string, fallbackAddress: string | undefined};
+}
+
+/**
+ * The outcome of sending a queued message while the app was closed
+ */
+export interface OutboxSyncResult {
+	readonly id?: number; //Assigned by the store
+	readonly accountID: string;
+	readonly chatGuid: string;
+	readonly date: Date;
+	readonly text?: string;
+	readonly file?: File; //Only kept if the file failed to send
+	readonly error: MessageError | undefined; //Undefined if the message was sent
+}
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+function getDatabase(): Promise<IDBDatabase> {
+	if(!databasePromise) {
+		databasePromise = openDatabase(databaseName, databaseVersion, (database) => {
+			database.createObjectStore(storeAccounts, {keyPath: "accountID"});
+			
+			const resultStore = database.createObjectStore(storeResults, {keyPath: "id", autoIncrement: true});
+			resultStore.createIndex(indexThread, ["accountID", "chatGuid"]);
+		});
+		
+		//Allowing the database to be opened again if it fails
+		databasePromise.catch(() => databasePromise = undefined);
+	}
+	
+	return databasePromise;
+}
+
+export async function saveOutboxSyncAccount(account: OutboxSyncAccount): Promise<void> {
+	const database = await getDatabase();
+	const transaction = database.transaction(storeAccounts, "readwrite");
+	transaction.objectStore(storeAccounts).put(account);
+	await promisifyTransaction(transaction);
+}
+
+export async function loadOutboxSyncAccounts(): Promise<OutboxSyncAccount[]> {
+	const database = await getDatabase();
+	return promisifyRequest(database.transaction(storeAccounts, "readonly").objectStore(storeAccounts).getAll());
+}
+
+export async function removeOutboxSyncAccount(accountID: string): Promise<void> {
+	const database = await getDatabase();
+	const transaction = database.transaction(storeAccounts, "readwrite");
+	transaction.objectStore(storeAccounts).delete(accountID);
+	await promisifyTransaction(transaction);
+}
+
+/**
+ * Removes an account's connection details and the results of its messages, such as when the account is deleted
+ */
+export async function deleteOutboxSyncAccount(accountID: string): Promise<void> {
+	const database = await getDatabase();
+	const transaction = database.transaction([storeAccounts, storeResults], "readwrite");
+	transaction.objectStore(storeAccounts).delete(accountID);
+	
+	//Matching every conversation of the account, since arrays sort after strings
+	const resultStore = transaction.objectStore(storeResults);
+	const request = resultStore.index(indexThread).openKeyCursor(IDBKeyRange.bound([accountID], [accountID, []]));
+	request.onsuccess = () => {
+		const cursor = request.result;
+		if(!cursor) return;
+		resultStore.delete(cursor.primaryKey);
+		cursor.continue();
+	};
+	
+	await promisifyTransaction(transaction);
+}
+
+async function addOutboxSyncResult(result: OutboxSyncResult): Promise<void> {
+	const database = await getDatabase();
+	const transaction = database.transaction(storeResults, "readwrite");
+	transaction.objectStore(storeResults).add(result);
+	await promisifyTransaction(transaction);
+}
+
+/**
+ * Loads and removes the results of messages sent to a conversation while the app was closed
+ */
+export async function takeOutboxSyncResults(accountID: string, chatGUID: string): Promise<OutboxSyncResult[]> {
+	const database = await getDatabase();
+	const transaction = database.transaction(storeResults, "readwrite");
+	const store = transaction.objectStore(storeResults);
+	
+	//Deleting the results from the request callback, since the transaction commits once there are no requests left
+	let results: OutboxSyncResult[] = [];
+	const request = store.index(indexThread).getAll([accountID, chatGUID]);
+	request.onsuccess = () => {
+		results = request.result;
+		for(const result of results) store.delete(result.id!);
+	};
+	await promisifyTransaction(transaction);
+	
+	return results;
+}
+
+/**
+ * Connects to an account's server, and sends the messages and files in its outbox, in order
+ *
+ * Each message is claimed in the message store before it is sent, so that it isn't sent by the app as well.
+ * @param account The account to send messages for
+ * @param dataProxy The data proxy to connect with
+ * @return Whether the outbox was emptied
+ */
+export async function sendOutbox(account: OutboxSyncAccount, dataProxy: DataProxy): Promise<boolean> {
+	const messageStore = new MessageStore(account.accountID);
+	const entries = await messageStore.loadOutbox();
+	if(entries.length === 0) return true;
+	
+	//Providing the values that the connection would otherwise read from secure storage
+	preloadInstallationID(account.accountID, account.installationID);
+	await setCryptoPassword(await getSecureLS(SecureStorageKey.ServerPassword, account.accountID), account.accountID);
+	
+	dataProxy.accountID = account.accountID;
+	const communicationsManager = new ClientComm5(dataProxy);
+	const sendRequests = new RequestRegistry<number, void, number>({timeout: sendTimeoutMillis, timeoutReason: messageErrorNetwork, cancelReason: messageErrorNetwork});
+	let isOpen = false;
+	const ownerID = uuidv4();
+	
+	try {
+		//Connecting to the server
+		await new Promise<void>((resolve, reject) => {
+			const timeoutID = setTimeout(() => reject(ConnectionErrorCode.Connection), connectTimeoutMillis);
+			const listener: CommunicationsManagerListener = {
+				...createIgnoringListener(),
+				onOpen: () => {
+					clearTimeout(timeoutID);
+					isOpen = true;
+					resolve();
+				},
+				onClose: (reason) => {
+					clearTimeout(timeoutID);
+					isOpen = false;
+					sendRequests.rejectAll(messageErrorNetwork);
+					reject(reason);
+				},
+				onSendMessageResponse: (requestID, error) => {
+					if(error) sendRequests.reject(requestID, error);
+					else sendRequests.resolve(requestID, undefined);
+				}
+			};
+			communicationsManager.listener = listener;
+			communicationsManager.connect();
+		});
+		
+		let requestID = 0;
+		for(const entry of entries) {
+			//Leaving the rest of the messages to the app if it is sending this one
+			const claim = await messageStore.claimOutboxEntry(entry.id!, ownerID);
+			if(claim.type === "busy") return false;
+			else if(claim.type === "removed") continue;
+			
+			let error: MessageError | undefined = undefined;
+			if(claim.entry.inFlight) {
+				//Failing messages that the server may have already received, rather than risking sending them twice
+				error = messageErrorUnconfirmed;
+			} else if(entry.file !== undefined) {
+				const fileRequestID = requestID++;
+				try {
+					//Upload progress keeps the request from timing out, until the server's response is awaited
+					const promise = sendRequests.add(fileRequestID);
+					
+					//Files are only in flight once they have been fully uploaded, since the server discards partial uploads
+					const upload = communicationsManager.sendFile(fileRequestID, entry.chatGuid, entry.file, (bytesUploaded) => sendRequests.progress(fileRequestID, bytesUploaded))
+						.then(() => messageStore.markOutboxEntryInFlight(entry.id!));
+					upload.catch((uploadError) => sendRequests.reject(fileRequestID, uploadError));
+					
+					await Promise.all([promise, upload]);
+				} catch(sendError) {
+					error = sendError as MessageError;
+				}
+				
+				//Keeping the file for the next sync if the connection was lost, where it will be uploaded again or reported as unconfirmed
+				if(!isOpen) return false;
+			} else {
+				//Recording the message as in flight first, in case the service worker is stopped before the server responds
+				await messageStore.markOutboxEntryInFlight(entry.id!);
+				
+				try {
+					const promise = sendRequests.add(requestID);
+					communicationsManager.sendMessage(requestID++, entry.chatGuid, entry.text!);
+					await promise;
+				} catch(sendError) {
+					error = sendError as MessageError;
+				}
+				
+				//Keeping the message for the next sync if the connection was lost, where it will be reported as unconfirmed
+				if(!isOpen) return false;
+			}
+			
+			//Only keeping files that failed to send, so the app can display them again
+			await addOutboxSyncResult({accountID: account.accountID, chatGuid: entry.chatGuid, date: entry.date, text: entry.text, file: error ? entry.file : undefined, error: error});
+			await messageStore.removeOutboxEntry(entry.id!);
+		}
+		
+		return true;
+	} catch(error) {
+		console.warn(`Failed to send queued messages for account ${account.accountID}`, error);
+		return false;
+	} finally {
+		communicationsManager.disconnect();
+	}
+}
\ No newline at end of file
@@ -0,0 +1,214 @@
+import ProgressPromise from "../util/progressPromise";
+
+export interface RequestRegistryOptions {
+	timeout: number; //How long to wait for a response in milliseconds, restarted whenever a request makes progress
+	timeoutReason: any; //The reason requests are rejected with when they time out
+	cancelReason: any; //The reason requests are rejected with when their signal is aborted
+}
+
+interface PendingRequest<T, P, C> {
+	readonly resolve: (value: T) => void;
+	readonly reject: (reason: any) => void;
+	readonly progress: (value: P) => void;
+	readonly context: C | undefined;
+	readonly signal: AbortSignal | undefined;
+	readonly abortListener: () => void;
+	timeoutID: any | undefined;
+}
+
+/**
+ * Tracks requests that are waiting for a response from the server
+ *
+ * Requests are identified by a key, and requests that share a key are settled together by the same response.
+ * A request is rejected if it doesn't make progress within the timeout, or if it is cancelled with an AbortSignal.
+ *
+ * @param K The key that responses are matched to requests by
+ * @param T The type of the response
+ * @param P The type of progress updates
+ * @param C The type of extra data stored alongside each request
+ */
+export default class RequestRegistry<K, T, P = never, C = undefined> {
+	private readonly requestMap: Map<K, PendingRequest<T, P, C>[]> = new Map();
+	
+	constructor(private readonly options: RequestRegistryOptions) {
+		
+	}
+	
+	/**
+	 * Registers a new request
+	 * @param key The key to match the response to this request with
+	 * @param signal A signal to cancel this request
+	 * @param context Extra data to store alongside this request until it is settled
+	 * @return A promise that settles with the response to this request
+	 */
+	add(key: K, signal?: AbortSignal, context?: C): ProgressPromise<T, P> {
+		return new ProgressPromise<T, P>((resolve, reject, progress) => {
+			//Failing immediately if the request has already been cancelled
+			if(signal?.aborted) {
+				reject(this.options.cancelReason);
+				return;
+			}
+			
+			const request: PendingRequest<T, P, C> = {
+				resolve: resolve,
+				reject: reject,
+				progress: progress,
+				context: context,
+				signal: signal,
+				abortListener: () => this.fail(key, request, this.options.cancelReason),
+				timeoutID: undefined
+			};
+			
+			signal?.addEventListener("abort", request.abortListener);
+			this.startTimeout(key, request);
+			
+			//Recording the request
+			const requests = this.requestMap.get(key);
+			if(requests) requests.push(request);
+			else this.requestMap.set(key, [request]);
+		});
+	}
+	
+	/**
+	 * Gets whether there are any requests waiting for a response with a key
+	 */
+	has(key: K): boolean {
+		return this.requestMap.has(key);
+	}
+	
+	/**
+	 * Gets the keys of all requests waiting for a response
+	 */
+	keys(): K[] {
+		return Array.from(this.requestMap.keys());
+	}
+	
+	/**
+	 * Gets the extra data stored alongside the first request with a key
+	 */
+	getContext(key: K): C | undefined {
+		return this.requestMap.get(key)?.[0].context;
+	}
+	
+	/**
+	 * Restarts the timeout of all requests with a key
+	 * @return Whether there were any requests with this key
+	 */
+	refreshTimeout(key: K): boolean {
+		const requests = this.requestMap.get(key);
+		if(!requests) return false;
+		
+		for(const request of requests) this.startTimeout(key, request);
+		return true;
+	}
+	
+	/**
+	 * Notifies all requests with a key of progress, restarting their timeouts
+	 * @return Whether there were any requests with this key
+	 */
+	progress(key: K, value: P): boolean {
+		const requests = this.requestMap.get(key);
+		if(!requests) return false;
+		
+		for(const request of requests) {
+			this.startTimeout(key, request);
+			request.progress(value);
+		}
+		return true;
+	}
+	
+	/**
+	 * Resolves and removes all requests with a key
+	 * @return Whether there were any requests with this key
+	 */
+	resolve(key: K, value: T): boolean {
+		const requests = this.take(key);
+		for(const request of requests) request.resolve(value);
+		return requests.length > 0;
+	}
+	
+	/**
+	 * Rejects and removes all requests with a key
+	 * @return Whether there were any requests with this key
+	 */
+	reject(key: K, reason: any): boolean {
+		const requests = this.take(key);
+		for(const request of requests) request.reject(reason);
+		return requests.length > 0;
+	}
+	
+	/**
+	 * Rejects and removes all requests, such as when the connection is closed
+	 */
+	rejectAll(reason: any) {
+		for(const key of this.keys()) this.reject(key, reason);
+	}
+	
+	//Removes all requests with a key, and stops tracking them
+	private take(key: K): PendingRequest<T, P, C>[] {
+		const requests = this.requestMap.get(key);
+		if(!requests) return [];
+		this.requestMap.delete(key);
+		
+		for(const request of requests) this.cleanUp(request);
+		return requests;
+	}
+	
+	//Rejects and removes a single request
+	private fail(key: K, request: PendingRequest<T, P, C>, reason: any) {
+		const requests = this.requestMap.get(key);
+		if(!requests) return;
+		
+		const index = requests.indexOf(request);
+		if(index === -1) return;
+		requests.splice(index, 1);
+		if(requests.length === 0) this.requestMap.delete(key);
+		
+		this.cleanUp(request);
+		request.reject(reason);
+	}
+	
+	private startTimeout(key: K, request: PendingRequest<T, P, C>) {
+		if(request.timeoutID !== undefined) clearTimeout(request.timeoutID);
+		request.timeoutID = setTimeout(() => this.fail(key, request, this.options.timeoutReason), this.options.timeout);
+	}
+	
+	private cleanUp(request: PendingRequest<T, P, C>) {
+		if(request.timeoutID !== undefined) {
+			clearTimeout(request.timeoutID);
+			request.timeoutID = undefined;
+		}
+		request.signal?.removeEventListener("abort", request.abortListener);
+	}
+}
+
+/**
+ * Allocates request IDs, which are sent to the server as 16-bit integers
+ *
+ * IDs wrap around after reaching Java's max short value, so IDs that are still in use by a pending request are skipped
+ */
+export class RequestIDAllocator {
+	private nextID = 0;
+	
+	constructor(private readonly registries: Pick<RequestRegistry<number, unknown>, "has">[]) {
+		
+	}
+	
+	/**
+	 * Gets a request ID that isn't in use by any of the registries
+	 * @throws Error if every request ID is in use
+	 */
+	allocate(): number {
+		for(let i = 0; i < 65536; i++) {
+			const requestID = this.nextID;
+			
+			//Increasing the request ID (and overflowing at Java's max short value)
+			if(this.nextID === 32767) this.nextID = -32768;
+			else this.nextID++;
+			
+			if(!this.registries.some((registry) => registry.has(requestID))) return requestID;
+		}
+		
+		throw new Error("All request IDs are in use");
+	}
+}
\ No newline at end of file
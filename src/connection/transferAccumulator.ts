@@ -1,9 +1,21 @@
-import pako from "pako";
+import {PacketStreamCompressor} from "./worker/packetWorkerClient";
 
 export abstract class TransferAccumulator {
 	public abstract push(data: ArrayBuffer): void;
-	public abstract get data(): ArrayBuffer;
+	
+	/**
+	 * Gets the complete data, once all of it has been pushed
+	 */
+	public abstract finish(): Promise<ArrayBuffer>;
+	
 	public abstract get offset(): number;
+	
+	/**
+	 * Releases any resources held by this accumulator, if the transfer won't be finished
+	 */
+	public dispose(): void {
+		
+	}
 }
 
 export class BasicAccumulator extends TransferAccumulator {
@@ -22,8 +34,8 @@ export class BasicAccumulator extends TransferAccumulator {
 		this.accumulatedDataOffset += data.byteLength;
 	}
 	
-	get data() {
-		return this.accumulatedData!;
+	async finish() {
+		return this.accumulatedData!.buffer;
 	}
 	
 	get offset() {
@@ -31,22 +43,41 @@ export class BasicAccumulator extends TransferAccumulator {
 	}
 }
 
+/**
+ * Decompresses data as it is received, on the packet worker
+ */
 export class InflatorAccumulator extends TransferAccumulator {
-	private inflator = new pako.Inflate();
+	private readonly inflator = new PacketStreamCompressor("inflate");
+	private readonly output: Promise<ArrayBuffer[]>[] = [];
 	private accumulatedDataOffset: number = 0;
 	
 	push(data: ArrayBuffer) {
-		//Adding the data to the array
-		this.inflator.push(data);
+		//Adding the data to the stream
+		const output = this.inflator.push(data, false);
+		output.catch(() => undefined); //Errors are reported by finish()
+		this.output.push(output);
 		this.accumulatedDataOffset += data.byteLength;
 	}
 	
-	get data() {
-		if(this.inflator.err) throw this.inflator.err;
-		return (this.inflator.result as Uint8Array).buffer;
+	async finish() {
+		//Ending the stream, and combining its output
+		this.output.push(this.inflator.push(new ArrayBuffer(0), true));
+		const chunks = (await Promise.all(this.output)).flat();
+		
+		const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+		let offset = 0;
+		for(const chunk of chunks) {
+			data.set(new Uint8Array(chunk), offset);
+			offset += chunk.byteLength;
+		}
+		return data.buffer;
 	}
 	
 	get offset() {
 		return this.accumulatedDataOffset;
 	}
+	
+	dispose() {
+		this.inflator.end();
+	}
 }
\ No newline at end of file
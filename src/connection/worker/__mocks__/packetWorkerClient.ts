@@ -0,0 +1,63 @@
+import {PacketTask, PacketTaskResult, runPacketTask} from "../packetTasks";
+
+//Runs packet tasks on the main thread, the same way the real client does when the packet worker isn't available
+//Jest can't load the real client, since it starts the worker with import.meta
+
+const keyIDMap: WeakMap<CryptoKey, number> = new WeakMap();
+let nextKeyID = 0;
+
+let nextStreamID = 0;
+
+function getKeyID(key: CryptoKey): number {
+	let keyID = keyIDMap.get(key);
+	if(keyID === undefined) {
+		keyID = nextKeyID++;
+		keyIDMap.set(key, keyID);
+	}
+	
+	return keyID;
+}
+
+function runTask(task: PacketTask): Promise<PacketTaskResult> {
+	return runPacketTask(task);
+}
+
+export async function encryptPacket(data: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return await runTask({type: "encrypt", keyID: getKeyID(key), key: key, data: data}) as ArrayBuffer;
+}
+
+export async function decryptPacket(data: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return await runTask({type: "decrypt", keyID: getKeyID(key), key: key, data: data}) as ArrayBuffer;
+}
+
+export function disposePacketKey(key: CryptoKey) {
+	const keyID = keyIDMap.get(key);
+	if(keyID === undefined) return;
+	keyIDMap.delete(key);
+	
+	runTask({type: "keyDispose", keyID: keyID}).catch(console.warn);
+}
+
+export async function gzipData(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return await runTask({type: "gzip", data: data}) as ArrayBuffer;
+}
+
+export async function ungzipData(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return await runTask({type: "ungzip", data: data}) as ArrayBuffer;
+}
+
+export class PacketStreamCompressor {
+	private readonly streamID = nextStreamID++;
+	
+	constructor(mode: "inflate" | "deflate") {
+		runTask({type: "streamStart", streamID: this.streamID, mode: mode}).catch(console.warn);
+	}
+	
+	async push(data: ArrayBuffer, isFinal: boolean): Promise<ArrayBuffer[]> {
+		return await runTask({type: "streamPush", streamID: this.streamID, data: data, isFinal: isFinal}) as ArrayBuffer[];
+	}
+	
+	end() {
+		runTask({type: "streamEnd", streamID: this.streamID}).catch(console.warn);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import {createCryptoKey} from "../../util/encryptionUtils";
+import {runPacketTask} from "./packetTasks";
+import {disposePacketKey, encryptPacket, gzipData} from "./packetWorkerClient";
+import pako from "pako";
+
+export interface PacketBenchmarkResult {
+	name: string;
+	packetSize: number; //Bytes
+	packetCount: number;
+	duration: number; //Milliseconds
+	throughput: number; //MiB per second
+}
+
+interface PacketBenchmarkCase {
+	name: string;
+	run: (key: CryptoKey, data: ArrayBuffer) => Promise<unknown>;
+}
+
+//Packet sizes to test, from small message updates to full attachment chunks
+const packetSizes: [number, number][] = [
+	[1024, 200], //1 KiB
+	[2 * 1024 * 1024, 8] //2 MiB
+];
+
+//A key ID that isn't handed out by the packet worker client, so the main thread's cache doesn't collide with it
+const benchmarkKeyID = -1;
+
+const benchmarkCases: PacketBenchmarkCase[] = [
+	{
+		//How packets were encrypted before keys were cached, for comparison
+		name: "Encrypt, main thread, key derived per packet",
+		run: async (key, data) => {
+			const salt = crypto.getRandomValues(new Uint8Array(8));
+			const iv = crypto.getRandomValues(new Uint8Array(12));
+			const derivedKey = await crypto.subtle.deriveKey({name: "PBKDF2", salt: salt, iterations: 10000, hash: "SHA-256"},
+				key,
+				{name: "AES-GCM", length: 128},
+				false,
+				["encrypt"]);
+			return crypto.subtle.encrypt({name: "AES-GCM", iv: iv}, derivedKey, data);
+		}
+	},
+	{
+		name: "Encrypt, main thread, cached key",
+		run: (key, data) => runPacketTask({type: "encrypt", keyID: benchmarkKeyID, key: key, data: data})
+	},
+	{
+		name: "Encrypt, packet worker, cached key",
+		run: (key, data) => encryptPacket(data, key)
+	},
+	{
+		name: "Gzip, main thread",
+		run: async (key, data) => pako.gzip(new Uint8Array(data))
+	},
+	{
+		name: "Gzip, packet worker",
+		run: (key, data) => gzipData(data)
+	}
+];
+
+/**
+ * Measures how quickly packets can be encrypted and compressed, with and without the packet worker
+ *
+ * Packets are processed one at a time, so results include the time spent passing data to and from the worker.
+ * The worker's main benefit is that the UI stays responsive while it runs, which isn't reflected here.
+ */
+export async function runPacketBenchmark(): Promise<PacketBenchmarkResult[]> {
+	const key = await createCryptoKey("benchmark");
+	const results: PacketBenchmarkResult[] = [];
+	
+	for(const [packetSize, packetCount] of packetSizes) {
+		//Filling the packet with text-like data, so that it compresses realistically
+		const data = new Uint8Array(packetSize);
+		for(let i = 0; i < packetSize; i++) data[i] = 32 + (i * 7919 % 95);
+		
+		for(const benchmarkCase of benchmarkCases) {
+			//Warming up, so that one-time setup like deriving the session key isn't measured
+			await benchmarkCase.run(key, data.slice().buffer);
+			
+			const startTime = performance.now();
+			for(let i = 0; i < packetCount; i++) {
+				await benchmarkCase.run(key, data.slice().buffer);
+			}
+			const duration = performance.now() - startTime;
+			
+			results.push({
+				name: benchmarkCase.name,
+				packetSize: packetSize,
+				packetCount: packetCount,
+				duration: duration,
+				throughput: (packetSize * packetCount / 1024 / 1024) / (duration / 1000)
+			});
+		}
+	}
+	
+	//Discarding the keys derived for the benchmark
+	disposePacketKey(key);
+	await runPacketTask({type: "keyDispose", keyID: benchmarkKeyID});
+	
+	return results;
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import {runPacketTask} from "./packetTasks";
+import {createCryptoKey} from "../../util/encryptionUtils";
+
+jest.mock("./packetWorkerClient");
+
+function encrypt(keyID: number, key: CryptoKey, text: string) {
+	return runPacketTask({type: "encrypt", keyID: keyID, key: key, data: new TextEncoder().encode(text).buffer}) as Promise<ArrayBuffer>;
+}
+
+function decrypt(keyID: number, key: CryptoKey, data: ArrayBuffer) {
+	return runPacketTask({type: "decrypt", keyID: keyID, key: key, data: data}) as Promise<ArrayBuffer>;
+}
+
+describe("packet tasks", () => {
+	test("derives keys from the key a key ID was first used with", async () => {
+		const oldKey = await createCryptoKey("old");
+		const newKey = await createCryptoKey("new");
+		
+		await encrypt(1, oldKey, "first");
+		
+		//Without disposing of the key ID, its cached keys are still derived from the old password
+		const packet = await encrypt(1, newKey, "second");
+		await expect(decrypt(2, oldKey, packet)).resolves.toBeInstanceOf(ArrayBuffer);
+		await expect(decrypt(3, newKey, packet)).rejects.toThrow();
+	});
+	
+	test("forgets a key's derived keys once it is disposed", async () => {
+		const oldKey = await createCryptoKey("old");
+		const newKey = await createCryptoKey("new");
+		
+		await encrypt(4, oldKey, "first");
+		await runPacketTask({type: "keyDispose", keyID: 4});
+		
+		const packet = await encrypt(4, newKey, "second");
+		expect(new TextDecoder().decode(await decrypt(5, newKey, packet))).toBe("second");
+		await expect(decrypt(6, oldKey, packet)).rejects.toThrow();
+	});
+});
\ No newline at end of file
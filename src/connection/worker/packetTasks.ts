@@ -0,0 +1,214 @@
+import pako from "pako";
+
+//Creating the constants
+const saltLen = 8; //8 bytes
+const ivLen = 12; //12 bytes (instead of 16 because of GCM)
+const algorithm = "PBKDF2";
+const hash = "SHA-256";
+const cipherTransformation = "AES-GCM";
+const keyIterationCount = 10000;
+const keyLength = 128; //128 bits
+
+//The maximum number of derived keys to keep for each password key
+const derivedKeyCacheSize = 32;
+
+/**
+ * An operation on packet data, which is run on the packet worker if it is available
+ */
+export type PacketTask =
+	{type: "encrypt", keyID: number, key: CryptoKey, data: ArrayBuffer} |
+	{type: "decrypt", keyID: number, key: CryptoKey, data: ArrayBuffer} |
+	{type: "keyDispose", keyID: number} |
+	{type: "gzip", data: ArrayBuffer} |
+	{type: "ungzip", data: ArrayBuffer} |
+	{type: "streamStart", streamID: number, mode: "inflate" | "deflate"} |
+	{type: "streamPush", streamID: number, data: ArrayBuffer, isFinal: boolean} |
+	{type: "streamEnd", streamID: number};
+
+export type PacketTaskResult = ArrayBuffer | ArrayBuffer[] | undefined;
+
+export interface PacketTaskRequest {
+	id: number;
+	task: PacketTask;
+}
+
+export type PacketTaskResponse = {
+	id: number;
+	result: PacketTaskResult;
+} | {
+	id: number;
+	error: string;
+};
+
+interface KeyState {
+	readonly key: CryptoKey;
+	sessionKey: Promise<[Uint8Array, CryptoKey]> | undefined; //The salt and derived key used for all outgoing packets
+	readonly derivedKeys: Map<string, Promise<CryptoKey>>; //Keys derived for incoming packets, keyed by salt, with the most recently used last
+}
+
+interface PacketStream {
+	readonly compressor: pako.Inflate | pako.Deflate;
+	output: ArrayBuffer[];
+	isEnded: boolean;
+}
+
+const keyStateMap: Map<number, KeyState> = new Map();
+const streamMap: Map<number, PacketStream> = new Map();
+
+/**
+ * Runs a packet task in the current context
+ *
+ * Key and stream state is kept in this context, so all tasks for a stream must be run in the same context
+ */
+export async function runPacketTask(task: PacketTask): Promise<PacketTaskResult> {
+	switch(task.type) {
+		case "encrypt":
+			return encrypt(getKeyState(task.keyID, task.key), task.data);
+		case "decrypt":
+			return decrypt(getKeyState(task.keyID, task.key), task.data);
+		case "keyDispose":
+			keyStateMap.delete(task.keyID);
+			return undefined;
+		case "gzip":
+			return toArrayBuffer(pako.gzip(new Uint8Array(task.data)));
+		case "ungzip":
+			return toArrayBuffer(pako.ungzip(new Uint8Array(task.data)));
+		case "streamStart":
+			startStream(task.streamID, task.mode);
+			return undefined;
+		case "streamPush":
+			return pushStream(task.streamID, task.data, task.isFinal);
+		case "streamEnd":
+			streamMap.delete(task.streamID);
+			return undefined;
+	}
+}
+
+function getKeyState(keyID: number, key: CryptoKey): KeyState {
+	let keyState = keyStateMap.get(keyID);
+	if(!keyState) {
+		keyState = {key: key, sessionKey: undefined, derivedKeys: new Map()};
+		keyStateMap.set(keyID, keyState);
+	}
+	
+	return keyState;
+}
+
+function deriveKey(key: CryptoKey, salt: Uint8Array): Promise<CryptoKey> {
+	return crypto.subtle.deriveKey({name: algorithm, salt: salt, iterations: keyIterationCount, hash: hash},
+		key,
+		{name: cipherTransformation, length: keyLength},
+		false,
+		["encrypt", "decrypt"]);
+}
+
+/**
+ * Gets the key for a salt, deriving it if it hasn't been used recently
+ */
+function getDerivedKey(keyState: KeyState, salt: Uint8Array): Promise<CryptoKey> {
+	const saltKey = String.fromCharCode(...salt);
+	
+	let derivedKey = keyState.derivedKeys.get(saltKey);
+	if(derivedKey) {
+		//Moving the key to the end, so that it is evicted last
+		keyState.derivedKeys.delete(saltKey);
+	} else {
+		derivedKey = deriveKey(keyState.key, salt);
+		derivedKey.catch(() => keyState.derivedKeys.delete(saltKey));
+		
+		//Evicting the least recently used key
+		if(keyState.derivedKeys.size >= derivedKeyCacheSize) {
+			keyState.derivedKeys.delete(keyState.derivedKeys.keys().next().value);
+		}
+	}
+	keyState.derivedKeys.set(saltKey, derivedKey);
+	
+	return derivedKey;
+}
+
+/**
+ * Gets the salt and key for outgoing packets
+ *
+ * Every packet carries its own salt, so the server accepts a salt being reused. Each packet still gets a random IV, which is what AES-GCM requires to be unique.
+ */
+function getSessionKey(keyState: KeyState): Promise<[Uint8Array, CryptoKey]> {
+	if(!keyState.sessionKey) {
+		const salt = new Uint8Array(saltLen);
+		crypto.getRandomValues(salt);
+		
+		const sessionKey: Promise<[Uint8Array, CryptoKey]> = deriveKey(keyState.key, salt).then((derivedKey) => [salt, derivedKey]);
+		sessionKey.catch(() => keyState.sessionKey = undefined);
+		keyState.sessionKey = sessionKey;
+	}
+	
+	return keyState.sessionKey;
+}
+
+async function encrypt(keyState: KeyState, inData: ArrayBuffer): Promise<ArrayBuffer> {
+	//Generating random data
+	const [salt, derivedKey] = await getSessionKey(keyState);
+	const iv = new Uint8Array(ivLen);
+	crypto.getRandomValues(iv);
+	
+	//Encrypting the data
+	const encrypted = await crypto.subtle.encrypt({name: cipherTransformation, iv: iv}, derivedKey, inData);
+	
+	//Returning the data
+	const returnData = new Uint8Array(saltLen + ivLen + encrypted.byteLength);
+	returnData.set(salt, 0);
+	returnData.set(iv, saltLen);
+	returnData.set(new Uint8Array(encrypted), saltLen + ivLen);
+	return returnData.buffer;
+}
+
+async function decrypt(keyState: KeyState, inData: ArrayBuffer): Promise<ArrayBuffer> {
+	//Reading the data
+	const salt = new Uint8Array(inData, 0, saltLen);
+	const iv = inData.slice(saltLen, saltLen + ivLen);
+	const data = inData.slice(saltLen + ivLen);
+	
+	//Decrypting the data
+	return await crypto.subtle.decrypt({name: cipherTransformation, iv: iv}, await getDerivedKey(keyState, salt), data);
+}
+
+function startStream(streamID: number, mode: "inflate" | "deflate") {
+	const compressor = mode === "inflate" ? new pako.Inflate() : new pako.Deflate();
+	const stream: PacketStream = {compressor: compressor, output: [], isEnded: false};
+	
+	//Collecting output as it is produced, to be returned by the next push
+	compressor.onData = (chunk) => stream.output.push(toArrayBuffer(chunk as Uint8Array));
+	const onEnd = compressor.onEnd.bind(compressor);
+	compressor.onEnd = (status) => {
+		stream.isEnded = true;
+		onEnd(status);
+	};
+	
+	streamMap.set(streamID, stream);
+}
+
+function pushStream(streamID: number, data: ArrayBuffer, isFinal: boolean): ArrayBuffer[] {
+	const stream = streamMap.get(streamID);
+	if(!stream) throw new Error(`Stream ${streamID} doesn't exist`);
+	
+	stream.compressor.push(data, isFinal);
+	if(isFinal) streamMap.delete(streamID);
+	
+	//Checking for errors
+	if(stream.compressor.err) {
+		streamMap.delete(streamID);
+		throw new Error(stream.compressor.msg);
+	} else if(isFinal && !stream.isEnded) {
+		throw new Error(`Stream ${streamID} is incomplete`);
+	}
+	
+	//Returning the output produced since the last push
+	const output = stream.output;
+	stream.output = [];
+	return output;
+}
+
+//Gets an array's data as its own buffer, so that it can be transferred
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+	if(data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) return data.buffer;
+	else return data.slice().buffer;
+}
\ No newline at end of file
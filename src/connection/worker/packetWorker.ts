@@ -0,0 +1,23 @@
+import {PacketTaskRequest, PacketTaskResponse, runPacketTask} from "./packetTasks";
+
+//The worker global scope isn't included in the DOM typings
+const context = self as unknown as Worker;
+
+context.onmessage = async (event: MessageEvent<PacketTaskRequest>) => {
+	const {id, task} = event.data;
+	
+	let response: PacketTaskResponse;
+	let transfer: Transferable[] = [];
+	try {
+		const result = await runPacketTask(task);
+		response = {id: id, result: result};
+		
+		//Handing the output back without copying it
+		if(result instanceof ArrayBuffer) transfer = [result];
+		else if(result !== undefined) transfer = result;
+	} catch(error) {
+		response = {id: id, error: String(error)};
+	}
+	
+	context.postMessage(response, transfer);
+};
\ No newline at end of file
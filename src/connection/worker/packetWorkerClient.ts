@@ -0,0 +1,146 @@
+import {PacketTask, PacketTaskResponse, PacketTaskResult, runPacketTask} from "./packetTasks";
+
+interface PendingTask {
+	readonly task: PacketTask;
+	readonly resolve: (result: PacketTaskResult) => void;
+	readonly reject: (reason: any) => void;
+}
+
+//The packet worker, null if it isn't available, or undefined if it hasn't been started yet
+let packetWorker: Worker | null | undefined = undefined;
+const pendingTaskMap: Map<number, PendingTask> = new Map();
+let nextTaskID = 0;
+
+//IDs for password keys, so that the worker can keep track of keys derived from them
+const keyIDMap: WeakMap<CryptoKey, number> = new WeakMap();
+let nextKeyID = 0;
+
+let nextStreamID = 0;
+
+function getPacketWorker(): Worker | null {
+	if(packetWorker === undefined) {
+		try {
+			packetWorker = new Worker(new URL("./packetWorker.ts", import.meta.url));
+			packetWorker.onmessage = handleResponse;
+			packetWorker.onerror = handleWorkerError;
+		} catch(error) {
+			console.warn("Failed to start packet worker, processing packets on the main thread", error);
+			packetWorker = null;
+		}
+	}
+	
+	return packetWorker;
+}
+
+function handleResponse(event: MessageEvent<PacketTaskResponse>) {
+	const response = event.data;
+	const pendingTask = pendingTaskMap.get(response.id);
+	if(!pendingTask) return;
+	pendingTaskMap.delete(response.id);
+	
+	if("error" in response) pendingTask.reject(new Error(response.error));
+	else pendingTask.resolve(response.result);
+}
+
+function handleWorkerError(event: ErrorEvent) {
+	console.warn("Packet worker failed, processing packets on the main thread", event.message);
+	packetWorker?.terminate();
+	packetWorker = null;
+	
+	//Running unfinished tasks on the main thread instead (the worker only received copies of their data)
+	//Streams can't be recovered, since their state was lost with the worker
+	const pendingTasks = Array.from(pendingTaskMap.values());
+	pendingTaskMap.clear();
+	for(const pendingTask of pendingTasks) {
+		runPacketTask(pendingTask.task).then(pendingTask.resolve, pendingTask.reject);
+	}
+}
+
+/**
+ * Runs a packet task on the packet worker, or on the main thread if the worker isn't available
+ */
+function runTask(task: PacketTask): Promise<PacketTaskResult> {
+	const worker = getPacketWorker();
+	if(!worker) return runPacketTask(task);
+	
+	return new Promise((resolve, reject) => {
+		const id = nextTaskID++;
+		pendingTaskMap.set(id, {task: task, resolve: resolve, reject: reject});
+		worker.postMessage({id: id, task: task});
+	});
+}
+
+function getKeyID(key: CryptoKey): number {
+	let keyID = keyIDMap.get(key);
+	if(keyID === undefined) {
+		keyID = nextKeyID++;
+		keyIDMap.set(key, keyID);
+	}
+	
+	return keyID;
+}
+
+/**
+ * Encrypts a packet with a password key
+ */
+export async function encryptPacket(data: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return await runTask({type: "encrypt", keyID: getKeyID(key), key: key, data: data}) as ArrayBuffer;
+}
+
+/**
+ * Decrypts a packet with a password key
+ */
+export async function decryptPacket(data: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return await runTask({type: "decrypt", keyID: getKeyID(key), key: key, data: data}) as ArrayBuffer;
+}
+
+/**
+ * Discards the keys derived from a password key, once it has been replaced and won't be used again
+ *
+ * Packets already queued with the key are still processed
+ */
+export function disposePacketKey(key: CryptoKey) {
+	const keyID = keyIDMap.get(key);
+	if(keyID === undefined) return;
+	keyIDMap.delete(key);
+	
+	runTask({type: "keyDispose", keyID: keyID}).catch(console.warn);
+}
+
+export async function gzipData(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return await runTask({type: "gzip", data: data}) as ArrayBuffer;
+}
+
+export async function ungzipData(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return await runTask({type: "ungzip", data: data}) as ArrayBuffer;
+}
+
+/**
+ * Compresses or decompresses a stream of data on the packet worker, a chunk at a time
+ */
+export class PacketStreamCompressor {
+	private readonly streamID = nextStreamID++;
+	
+	constructor(mode: "inflate" | "deflate") {
+		runTask({type: "streamStart", streamID: this.streamID, mode: mode}).catch(console.warn);
+	}
+	
+	/**
+	 * Adds a chunk of data to the stream
+	 * @param data The data to add
+	 * @param isFinal Whether this is the last chunk, which finishes the stream
+	 * @return The output produced by this chunk
+	 */
+	async push(data: ArrayBuffer, isFinal: boolean): Promise<ArrayBuffer[]> {
+		return await runTask({type: "streamPush", streamID: this.streamID, data: data, isFinal: isFinal}) as ArrayBuffer[];
+	}
+	
+	/**
+	 * Discards the stream without finishing it, such as when a transfer is cancelled
+	 *
+	 * Streams are discarded automatically once their final chunk has been pushed
+	 */
+	end() {
+		runTask({type: "streamEnd", streamID: this.streamID}).catch(console.warn);
+	}
+}
\ No newline at end of file
@@ -44,10 +44,17 @@ export interface MessageItem extends ConversationItem {
 	readonly stickers: StickerItem[];
 	readonly tapbacks: TapbackItem[];
 	readonly sendStyle?: string;
+	readonly replyTarget?: ReplyTarget; //The message part that this message is an inline reply to, which only the loopback server sends in builds made with --env provisional
 	status: MessageStatusCode;
 	statusDate?: Date;
 	error?: MessageError;
 	progress?: number; //Undefined for hide, -1 for indeterminate, 0-100 for determinate
+	queued?: boolean; //Whether this message is waiting for a connection to the server
+}
+
+export interface ReplyTarget {
+	readonly guid: string; //The GUID of the message that started the reply thread
+	readonly messageIndex: number; //The index of the message part that was replied to
 }
 
 export interface AttachmentItem {
@@ -81,7 +88,7 @@ export interface StickerItem extends MessageModifier {
 
 export interface TapbackItem extends MessageModifier {
 	readonly messageIndex: number;
-	readonly sender: string;
+	readonly sender: string | undefined; //Undefined if the tapback is from the user
 	
 	readonly isAddition: boolean;
 	readonly tapbackType: TapbackType;
@@ -103,4 +110,14 @@ export interface ChatRenameAction extends ConversationItem {
 export interface QueuedFile {
 	id: number;
 	file: File;
+}
+
+export interface MassRetrievalParams {
+	timeMessages?: Date; //Only retrieve messages sent after this date
+	downloadAttachments: boolean; //Whether to download attachment files
+	timeAttachments?: Date; //Only download attachments sent after this date
+	sizeAttachments?: number; //Only download attachments smaller than this size, in bytes
+	attachmentFilterWhitelist: string[]; //MIME types of attachments to download
+	attachmentFilterBlacklist: string[]; //MIME types of attachments to skip
+	attachmentFilterDLOther: boolean; //Whether to download attachments that match neither list
 }
\ No newline at end of file
@@ -42,7 +42,10 @@ export enum ConnectionErrorCode {
 	ConnectNoCapacity,
 	ConnectAccountValidation,
 	ConnectNoActivation,
-	ConnectOtherLocation
+	ConnectOtherLocation,
+	
+	//Direct connection error codes
+	CertificateMismatch //The server's TLS certificate doesn't match the one pinned on first connection
 }
 
 export enum MessageStatusCode {
@@ -78,6 +81,10 @@ export enum MessageErrorCode {
 	AppleNoConversation, //The server couldn't find the requested conversation
 	AppleNetwork, //The server received a network error
 	AppleUnregistered, //The addressee doesn't have an iMessage account
+	
+	//Kept after the codes above so that their values, which are saved with messages, don't change
+	LocalCancelled, //Request cancelled by the client
+	LocalUnconfirmed //The connection was lost after the message was sent, but before the server confirmed it
 }
 
 export enum ParticipantActionType {
@@ -93,7 +100,8 @@ export enum AttachmentRequestErrorCode {
 	ServerNotFound, //Server file GUID not found
 	ServerNotSaved, //Server file (on disk) not found
 	ServerUnreadable, //Server no access to file
-	ServerIO //Server I/O error
+	ServerIO, //Server I/O error
+	Cancelled //Request cancelled by the client
 }
 
 export enum CreateChatErrorCode {
@@ -101,5 +109,15 @@ export enum CreateChatErrorCode {
 	ScriptError, //Some unknown AppleScript error
 	BadRequest, //Invalid data received
 	Unauthorized, //System rejected request
-	UnknownExternal //Unknown error code received
+	UnknownExternal, //Unknown error code received
+	Cancelled //Request cancelled by the client
+}
+
+export enum MassRetrievalErrorCode {
+	Network, //Network error / disconnection
+	Timeout, //Request timed out
+	BadResponse, //Bad response (packets out of order)
+	Busy, //Another mass retrieval is already in progress
+	Cancelled, //Request cancelled by the client
+	Unsupported //The server doesn't support mass retrieval
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import ReactDOM from "react-dom";
 import firebase from "firebase/app";
 import * as Sentry from "@sentry/react";
 import LoginGate from "platform-components/components/LoginGate";
+import Messaging from "./components/messaging/master/Messaging";
 import AppTheme from "./components/control/AppTheme";
 import * as secrets from "./secrets";
 
@@ -42,11 +43,11 @@ if(!WPEnv.IS_ELECTRON) {
 	});
 }
 
-//Initializing React
+//Initializing React (the loopback server doesn't require an account, so sign-in is skipped)
 ReactDOM.render(
 	<React.StrictMode>
 		<AppTheme>
-			<LoginGate />
+			{WPEnv.LOOPBACK ? <Messaging /> : <LoginGate />}
 		</AppTheme>
 	</React.StrictMode>,
 	document.getElementById("root")
@@ -14,6 +14,9 @@ export const firebaseConfig = {
 
 export const sentryDSN = undefined;
 
+//The public key for web push notifications, from the Firebase project's Cloud Messaging settings (Firebase's default key is used if undefined)
+export const firebaseVAPIDKey: string | undefined = undefined;
+
 export const jwkLocalEncryption: JsonWebKey = {
 	kty: "oct",
 	k: "s9lDeHtl0rh-3FpBDZwQvw",
@@ -0,0 +1,99 @@
+import {v4 as uuidv4} from "uuid";
+import EventEmitter from "./eventEmitter";
+
+/**
+ * A server that the user has set up the app to connect to
+ */
+export interface Account {
+	readonly id: string;
+	readonly name: string;
+}
+
+//The account that existed before multiple accounts were supported, which keeps its original storage keys
+export const defaultAccountID = "default";
+
+const storageKeyAccounts = "accounts";
+const storageKeyActiveAccount = "activeAccount";
+
+export const accountsEmitter: EventEmitter<Account[]> = new EventEmitter();
+export const activeAccountEmitter: EventEmitter<Account> = new EventEmitter();
+
+/**
+ * Gets all accounts, in the order they were added
+ */
+export function getAccounts(): Account[] {
+	const accountsJSON = localStorage.getItem(storageKeyAccounts);
+	if(accountsJSON) {
+		try {
+			const accounts = JSON.parse(accountsJSON) as Account[];
+			if(accounts.length > 0) return accounts;
+		} catch(error) {
+			console.warn("Failed to read saved accounts", error);
+		}
+	}
+	
+	return [{id: defaultAccountID, name: "My Mac"}];
+}
+
+function saveAccounts(accounts: Account[]) {
+	localStorage.setItem(storageKeyAccounts, JSON.stringify(accounts));
+	accountsEmitter.notify(accounts);
+}
+
+export function getAccount(accountID: string): Account | undefined {
+	return getAccounts().find((account) => account.id === accountID);
+}
+
+/**
+ * Gets the account that the user is currently viewing
+ */
+export function getActiveAccount(): Account {
+	const accounts = getAccounts();
+	const activeAccountID = localStorage.getItem(storageKeyActiveAccount);
+	return accounts.find((account) => account.id === activeAccountID) ?? accounts[0];
+}
+
+export function setActiveAccount(accountID: string) {
+	const account = getAccount(accountID);
+	if(!account || account.id === getActiveAccount().id) return;
+	
+	localStorage.setItem(storageKeyActiveAccount, account.id);
+	activeAccountEmitter.notify(account);
+}
+
+/**
+ * Creates an ID for a new account, which can be used to save the account's details before it is added
+ */
+export function createAccountID(): string {
+	return uuidv4();
+}
+
+/**
+ * Adds a new account to the end of the account list
+ */
+export function addAccount(accountID: string, name: string): Account {
+	const account: Account = {id: accountID, name: name};
+	saveAccounts([...getAccounts(), account]);
+	return account;
+}
+
+export function renameAccount(accountID: string, name: string) {
+	saveAccounts(getAccounts().map((account) => account.id === accountID ? {...account, name: name} : account));
+}
+
+/**
+ * Removes an account from the account list, switching to another account if it was active
+ *
+ * The last remaining account can't be removed
+ */
+export function removeAccount(accountID: string) {
+	const wasActive = getActiveAccount().id === accountID;
+	const accounts = getAccounts().filter((account) => account.id !== accountID);
+	if(accounts.length === 0) return;
+	
+	saveAccounts(accounts);
+	if(wasActive) {
+		localStorage.setItem(storageKeyActiveAccount, accounts[0].id);
+		activeAccountEmitter.notify(accounts[0]);
+	}
+}
\ No newline at end of file
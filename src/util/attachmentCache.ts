@@ -0,0 +1,48 @@
+/**
+ * Stores downloaded attachment files on the local device, so they don't have to be downloaded again
+ *
+ * Files are kept separately for each account, while the size limit applies to all accounts together
+ */
+export abstract class AttachmentCache {
+	/**
+	 * Gets a cached file, marking it as recently used
+	 */
+	abstract get(accountID: string, attachmentGUID: string): Promise<ArrayBuffer | undefined>;
+	
+	/**
+	 * Saves a file to the cache, evicting the least recently used files if the cache grows too large
+	 */
+	abstract put(accountID: string, attachmentGUID: string, data: ArrayBuffer): Promise<void>;
+	
+	/**
+	 * Removes all of an account's cached files
+	 */
+	abstract clear(accountID: string): Promise<void>;
+}
+
+//The maximum total size of cached files
+export const attachmentCacheSizeLimit = 512 * 1024 * 1024; //512 MiB
+
+let attachmentCache: AttachmentCache | undefined;
+export function setAttachmentCache(value: AttachmentCache) {
+	attachmentCache = value;
+}
+
+export function getCachedAttachment(accountID: string, attachmentGUID: string): Promise<ArrayBuffer | undefined> {
+	if(!attachmentCache) return Promise.resolve(undefined);
+	return attachmentCache.get(accountID, attachmentGUID);
+}
+
+export function cacheAttachment(accountID: string, attachmentGUID: string, data: ArrayBuffer): Promise<void> {
+	if(!attachmentCache) return Promise.resolve();
+	
+	//Skipping files that would take up the entire cache
+	if(data.byteLength > attachmentCacheSizeLimit) return Promise.resolve();
+	
+	return attachmentCache.put(accountID, attachmentGUID, data);
+}
+
+export function clearAttachmentCache(accountID: string): Promise<void> {
+	if(!attachmentCache) return Promise.resolve();
+	return attachmentCache.clear(accountID);
+}
\ No newline at end of file
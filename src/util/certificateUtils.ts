@@ -0,0 +1,53 @@
+import {getSecureLS, SecureStorageKey, setSecureLS} from "./secureStorageUtils";
+
+/**
+ * Checks a server's TLS certificate against the certificate pinned for an account,
+ * pinning it if the account hasn't connected over TLS before
+ *
+ * If the certificate doesn't match, it is saved so that the user can choose to trust it
+ * @param accountID The account that is connecting
+ * @param fingerprint The SHA-256 fingerprint of the server's certificate
+ * @return TRUE if the certificate can be trusted
+ */
+export async function checkCertificateFingerprint(accountID: string, fingerprint: string): Promise<boolean> {
+	const pinnedFingerprint = await getSecureLS(SecureStorageKey.ServerCertificateFingerprint, accountID);
+	
+	//Trusting the certificate on first use
+	if(pinnedFingerprint === undefined) {
+		await setSecureLS(SecureStorageKey.ServerCertificateFingerprint, fingerprint, accountID);
+		return true;
+	}
+	
+	if(pinnedFingerprint === fingerprint) return true;
+	
+	await setSecureLS(SecureStorageKey.ServerCertificateFingerprintPending, fingerprint, accountID);
+	return false;
+}
+
+/**
+ * Gets the fingerprint of the last certificate that didn't match an account's pinned certificate
+ */
+export function getPendingCertificateFingerprint(accountID: string): Promise<string | undefined> {
+	return getSecureLS(SecureStorageKey.ServerCertificateFingerprintPending, accountID);
+}
+
+/**
+ * Pins the last certificate that didn't match an account's pinned certificate, replacing the old one
+ */
+export async function acceptPendingCertificate(accountID: string) {
+	const fingerprint = await getPendingCertificateFingerprint(accountID);
+	if(fingerprint === undefined) return;
+	
+	await setSecureLS(SecureStorageKey.ServerCertificateFingerprint, fingerprint, accountID);
+	await setSecureLS(SecureStorageKey.ServerCertificateFingerprintPending, undefined, accountID);
+}
+
+/**
+ * Forgets an account's pinned certificate, so that the next certificate is trusted on first use
+ */
+export async function clearCertificateFingerprints(accountID: string) {
+	await Promise.all([
+		setSecureLS(SecureStorageKey.ServerCertificateFingerprint, undefined, accountID),
+		setSecureLS(SecureStorageKey.ServerCertificateFingerprintPending, undefined, accountID)
+	]);
+}
\ No newline at end of file
@@ -92,6 +92,35 @@ export function isModifierTapback(item: MessageModifier): item is TapbackItem {
 	return item.type === MessageModifierType.Tapback;
 }
 
+/**
+ * Returns a copy of a message with a modifier applied to it
+ */
+export function applyMessageModifier(message: MessageItem, modifier: MessageModifier): MessageItem {
+	if(isModifierStatusUpdate(modifier)) {
+		return {
+			...message,
+			status: modifier.status,
+			statusDate: modifier.date
+		};
+	} else if(isModifierSticker(modifier)) {
+		return {
+			...message,
+			stickers: message.stickers.concat(modifier)
+		};
+	} else if(isModifierTapback(modifier)) {
+		//Each member can have one tapback on each part of a message
+		const pendingTapbacks = message.tapbacks.filter((tapback) => tapback.sender !== modifier.sender || tapback.messageIndex !== modifier.messageIndex);
+		if(modifier.isAddition) pendingTapbacks.push(modifier);
+		
+		return {
+			...message,
+			tapbacks: pendingTapbacks
+		};
+	} else {
+		return message;
+	}
+}
+
 export function getMessageFlow(main: MessageItem, above?: ConversationItem, below?: ConversationItem): MessageFlow {
 	//Creating the default message flow object
 	const messageFlow: MessageFlow = {
@@ -1,72 +1,61 @@
-//Creating the constants
-const saltLen = 8; //8 bytes
-const ivLen = 12; //12 bytes (instead of 16 because of GCM)
-const algorithm = "PBKDF2";
-const hash = "SHA-256";
-const cipherTransformation = "AES-GCM";
-const keyIterationCount = 10000;
-const keyLength = 128; //128 bits
+import {decryptPacket, disposePacketKey, encryptPacket} from "../connection/worker/packetWorkerClient";
 
-//Whether a request has been put in to initialize the crypto password, even if undefined
-let cryptoPasswordSet = false;
-let userKey: CryptoKey | undefined;
+//Each account's key, keyed by account ID
+//An account is present once a request has been put in to initialize its crypto password, even if undefined
+const userKeyMap: Map<string, CryptoKey | undefined> = new Map();
 
-export async function setCryptoPassword(password: string | undefined) {
-	cryptoPasswordSet = true;
+export async function setCryptoPassword(password: string | undefined, accountID: string) {
+	const newKey = password == undefined ? undefined : await createCryptoKey(password);
 	
-	if(password == undefined) {
-		userKey = undefined;
-	} else {
-		userKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveKey"]);
-	}
+	//Letting the packet worker discard the keys it derived from the account's previous password
+	const oldKey = userKeyMap.get(accountID);
+	if(oldKey !== undefined) disposePacketKey(oldKey);
+	
+	userKeyMap.set(accountID, newKey);
 }
 
-export function isCryptoPasswordSet() {
-	return cryptoPasswordSet;
+/**
+ * Forgets an account's crypto password, such as when the account is deleted
+ */
+export function clearCryptoPassword(accountID: string) {
+	const key = userKeyMap.get(accountID);
+	if(key !== undefined) disposePacketKey(key);
+	
+	userKeyMap.delete(accountID);
 }
 
-export function isCryptoPasswordAvailable() {
-	return userKey !== undefined;
+/**
+ * Creates a key that can be used to encrypt and decrypt data with the specified password
+ */
+export function createCryptoKey(password: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveKey"]);
 }
 
-export async function encryptData(inData: ArrayBuffer): Promise<ArrayBuffer> {
-	//Generating random data
-	const salt = new Uint8Array(saltLen);
-	crypto.getRandomValues(salt);
-	const iv = new Uint8Array(ivLen);
-	crypto.getRandomValues(iv);
-	
-	//Creating the key
-	const derivedKey = await crypto.subtle.deriveKey({name: algorithm, salt: salt, iterations: keyIterationCount, hash: hash},
-		userKey!,
-		{name: cipherTransformation, length: keyLength},
-		false,
-		["encrypt"]);
-	
-	//Encrypting the data
-	const encrypted = await crypto.subtle.encrypt({name: cipherTransformation, iv: iv}, derivedKey, inData);
-	
-	//Returning the data
-	const returnData = new Uint8Array(saltLen + ivLen + encrypted.byteLength);
-	returnData.set(salt, 0);
-	returnData.set(iv, saltLen);
-	returnData.set(new Uint8Array(encrypted), saltLen + ivLen);
-	return returnData.buffer;
+export function isCryptoPasswordSet(accountID: string) {
+	return userKeyMap.has(accountID);
 }
 
-export async function decryptData(inData: ArrayBuffer): Promise<ArrayBuffer> {
-	//Reading the data
-	const salt = inData.slice(0, saltLen);
-	const iv = inData.slice(saltLen, saltLen + ivLen);
-	const data = inData.slice(saltLen + ivLen);
-	
-	//Creating the key
-	const derivedKey = await crypto.subtle.deriveKey({name: algorithm, salt: salt, iterations: keyIterationCount, hash: hash},
-		userKey!,
-		{name: cipherTransformation, length: keyLength},
-		false,
-		["decrypt"]);
-	
-	//Decrypting the data
-	return await crypto.subtle.decrypt({name: cipherTransformation, iv: iv}, derivedKey, data);
+export function isCryptoPasswordAvailable(accountID: string) {
+	return userKeyMap.get(accountID) !== undefined;
+}
+
+/**
+ * Gets the key to encrypt and decrypt an account's data with, or undefined if the account has no password
+ */
+export function getCryptoKey(accountID: string): CryptoKey | undefined {
+	return userKeyMap.get(accountID);
+}
+
+/**
+ * Encrypts data with a key, off the main thread where possible
+ */
+export function encryptData(inData: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return encryptPacket(inData, key);
+}
+
+/**
+ * Decrypts data with a key, off the main thread where possible
+ */
+export function decryptData(inData: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+	return decryptPacket(inData, key);
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * Opens an IndexedDB database
+ * @param name The name of the database
+ * @param version The schema version of the database
+ * @param onUpgrade A callback invoked when the database needs to be created or migrated from an older version
+ */
+export function openDatabase(name: string, version: number, onUpgrade: (database: IDBDatabase, oldVersion: number) => void): Promise<IDBDatabase> {
+	//Failing immediately if IndexedDB isn't supported
+	if(typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available"));
+	
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(name, version);
+		request.onupgradeneeded = (event) => onUpgrade(request.result, event.oldVersion);
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+		request.onblocked = () => reject(new Error(`Database ${name} is blocked by another connection`));
+	});
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Returns a promise that resolves once an IndexedDB transaction has been committed
+ */
+export function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+	});
+}
+
+/**
+ * Deletes an IndexedDB database, once all open connections to it have been closed
+ */
+export function deleteDatabase(name: string): Promise<void> {
+	//Ignoring if IndexedDB isn't supported, since there can't be any data to delete
+	if(typeof indexedDB === "undefined") return Promise.resolve();
+	
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.deleteDatabase(name);
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(request.error);
+	});
+}
\ No newline at end of file
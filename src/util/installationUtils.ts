@@ -1,20 +1,39 @@
 import {v4 as uuidv4} from "uuid";
+import {getSecureLS, SecureStorageKey, setSecureLS} from "./secureStorageUtils";
+import {defaultAccountID} from "./accountUtils";
 
-const storageKey = "installationID";
+//Where installation IDs were saved before multiple accounts were supported
+const legacyStorageKey = "installationID";
 
-export function getInstallationID(): string {
-	const installationID = localStorage.getItem(storageKey);
+//Installation IDs provided ahead of time, for contexts that can't read secure storage such as the service worker
+const preloadedInstallationIDs: Map<string, string> = new Map();
+
+/**
+ * Provides an account's installation ID, so it can be used without reading secure storage
+ */
+export function preloadInstallationID(accountID: string, installationID: string) {
+	preloadedInstallationIDs.set(accountID, installationID);
+}
+
+/**
+ * Gets the ID that identifies this installation to an account's server, generating one if it doesn't exist yet
+ */
+export async function getInstallationID(accountID: string): Promise<string> {
+	const preloadedInstallationID = preloadedInstallationIDs.get(accountID);
+	if(preloadedInstallationID) return preloadedInstallationID;
+	
 	//Just return the installation ID value if we already have one
-	if(installationID) {
-		return installationID;
-	} else {
-		//Generating a new installation ID
-		const installationID = uuidv4();
-		
-		//Saving the installation ID to local storage
-		localStorage.setItem(storageKey, installationID);
-		
-		//Returning the installation ID
-		return installationID;
-	}
+	const installationID = await getSecureLS(SecureStorageKey.InstallationID, accountID);
+	if(installationID) return installationID;
+	
+	//Reusing the installation ID from before multiple accounts were supported, or generating a new one
+	const legacyInstallationID = accountID === defaultAccountID ? localStorage.getItem(legacyStorageKey) : null;
+	const newInstallationID = legacyInstallationID ?? uuidv4();
+	
+	//Saving the installation ID
+	await setSecureLS(SecureStorageKey.InstallationID, newInstallationID, accountID);
+	if(legacyInstallationID) localStorage.removeItem(legacyStorageKey);
+	
+	//Returning the installation ID
+	return newInstallationID;
 }
\ No newline at end of file
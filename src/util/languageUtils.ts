@@ -101,5 +101,9 @@ export function errorCodeToShortDisplay(error: ConnectionErrorCode, isDirect?: b
 					}
 				}
 			};
+		case ConnectionErrorCode.CertificateMismatch:
+			return {
+				message: "Server certificate changed"
+			};
 	}
 }
\ No newline at end of file
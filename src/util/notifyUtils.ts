@@ -2,9 +2,18 @@ import {Conversation, MessageItem} from "../data/blocks";
 import {getMemberTitle, mimeTypeToPreview} from "./conversationUtils";
 import EventEmitter from "./eventEmitter";
 import {appleSendStyleBubbleInvisibleInk} from "../data/appleConstants";
+import {getAccount, getAccounts} from "./accountUtils";
 
-const notificationBacklog: Map<string, [Notification, number]> = new Map();
-export const notificationClickEmitter: EventEmitter<string> = new EventEmitter();
+/**
+ * Identifies the conversation that a notification was sent for
+ */
+export interface NotificationTarget {
+	accountID: string;
+	chatGUID: string;
+}
+
+const notificationBacklog: Map<string, [Notification, number]> = new Map(); //Keyed by notification tag
+export const notificationClickEmitter: EventEmitter<NotificationTarget> = new EventEmitter();
 
 export function initializeNotifications() {
 	//Requesting permission to send notifications
@@ -13,17 +22,30 @@ export function initializeNotifications() {
 	}
 }
 
-export function sendMessageNotification(conversation: Conversation, message: MessageItem, itemCount: number) {
+//Conversations from different accounts may share a GUID, so notifications are tagged with both
+function getNotificationTag(accountID: string, chatGUID: string): string {
+	return `${accountID}/${chatGUID}`;
+}
+
+/**
+ * Shows a notification for new messages
+ * @param accountID The account that received the messages
+ * @param conversation The conversation that the messages were received in
+ * @param message The latest message
+ * @param itemCount The number of messages received
+ */
+export function sendMessageNotification(accountID: string, conversation: Conversation, message: MessageItem, itemCount: number) {
 	//Ignoring if the app isn't allowed to send notifications
 	if(Notification.permission !== "granted") return;
 	
 	//Getting the conversation title to display in the notification
 	getConversationTitle(conversation).then((title) => {
 		const chatGUID = conversation.guid;
+		const tag = getNotificationTag(accountID, chatGUID);
 		
 		//Getting the count from the backlog
 		let finalItemCount: number;
-		const backlogEntry = notificationBacklog.get(chatGUID);
+		const backlogEntry = notificationBacklog.get(tag);
 		if(backlogEntry) {
 			finalItemCount = backlogEntry[1] + itemCount;
 		} else {
@@ -35,34 +57,39 @@ export function sendMessageNotification(conversation: Conversation, message: Mes
 		if(finalItemCount === 1) displayTitle = title;
 		else displayTitle = `${title} • ${finalItemCount} new`;
 		
+		//Showing which account the messages were received on, if there is more than one
+		const accountName = getAccounts().length > 1 ? getAccount(accountID)?.name : undefined;
+		if(accountName) displayTitle += ` (${accountName})`;
+		
 		//Creating the notification
 		const notification = new Notification(displayTitle, {
 			body: getMessagePreview(message),
-			tag: chatGUID
+			tag: tag
 		});
 		
 		//Notify listeners when the notification is clicked
 		notification.onclick = () => {
 			window.focus(); //Chromium
-			notificationClickEmitter.notify(chatGUID);
+			notificationClickEmitter.notify({accountID: accountID, chatGUID: chatGUID});
 		};
 		
 		//Remove the notification from the backlog when the notification is closed
-		notification.onclose = () => notificationBacklog.delete(chatGUID);
+		notification.onclose = () => notificationBacklog.delete(tag);
 		
 		//Updating the backlog
-		notificationBacklog.set(chatGUID, [notification, finalItemCount]);
+		notificationBacklog.set(tag, [notification, finalItemCount]);
 	});
 }
 
-export function dismissMessageNotifications(chatGUID: string) {
+export function dismissMessageNotifications(accountID: string, chatGUID: string) {
 	//Fetching the entry from the backlog (and ignoring if it doesn't exist)
-	const entry = notificationBacklog.get(chatGUID);
+	const tag = getNotificationTag(accountID, chatGUID);
+	const entry = notificationBacklog.get(tag);
 	if(!entry) return;
 	
 	//Closing the notification and deleting it from the backlog
 	entry[0].close();
-	notificationBacklog.delete(chatGUID);
+	notificationBacklog.delete(tag);
 }
 
 async function getConversationTitle(conversation: Conversation) {
@@ -1,4 +1,6 @@
 import * as secrets from "../secrets";
+import {defaultAccountID} from "./accountUtils";
+import {openDatabase, promisifyRequest, promisifyTransaction} from "./indexedDBUtils";
 
 const keyServerPassword = "serverPassword";
 const ivLen = 12;
@@ -6,9 +8,21 @@ const ivLen = 12;
 export enum SecureStorageKey {
 	ServerPassword = "serverPassword",
 	ServerAddress = "serverAddress",
-	ServerAddressFallback = "serverAddressFallback"
+	ServerAddressFallback = "serverAddressFallback",
+	ServerUseTLS = "serverUseTLS",
+	ServerCertificateFingerprint = "serverCertificateFingerprint", //The fingerprint of the server's pinned TLS certificate
+	ServerCertificateFingerprintPending = "serverCertificateFingerprintPending", //The fingerprint of a certificate that didn't match the pinned one
+	InstallationID = "installationID"
 }
 
+//Values that the service worker needs, which can't read local storage
+//These are also kept in IndexedDB, encrypted the same way as in local storage
+const workerKeys: SecureStorageKey[] = [SecureStorageKey.ServerPassword];
+
+const databaseName = "secureStorage";
+const databaseVersion = 1;
+const storeValues = "values";
+
 const cryptoKey: Promise<CryptoKey> = crypto.subtle.importKey(
 	"jwk",
 	secrets.jwkLocalEncryption,
@@ -26,7 +40,7 @@ function concatBuffers(buffer1: ArrayBuffer, buffer2: ArrayBuffer): ArrayBuffer
 
 async function encrypt(inData: ArrayBuffer, generateIV: boolean): Promise<ArrayBuffer> {
 	if(generateIV) {
-		const iv = window.crypto.getRandomValues(new Uint8Array(ivLen));
+		const iv = crypto.getRandomValues(new Uint8Array(ivLen));
 		const encrypted = await crypto.subtle.encrypt({name: "AES-GCM", iv: iv}, await cryptoKey, inData);
 		return concatBuffers(iv, encrypted);
 	} else {
@@ -55,33 +69,102 @@ function decodeBase64(value: string): ArrayBuffer {
 /**
  * Encrypts a string and returns it in base64 form
  */
-async function encryptString(value: string, generateIV: boolean): Promise<string> {
+export async function encryptString(value: string, generateIV: boolean): Promise<string> {
 	return encodeBase64(await encrypt(new TextEncoder().encode(value), generateIV));
 }
 
 /**
  * Decrypts a string from its base64 form
  */
-async function decryptString(value: string, useIV: boolean): Promise<string> {
+export async function decryptString(value: string, useIV: boolean): Promise<string> {
 	return new TextDecoder().decode(await decrypt(decodeBase64(value), useIV));
 }
 
-export async function setSecureLS(key: SecureStorageKey, value: string | undefined) {
-	const encryptedKey = await encryptString(key, false);
+/**
+ * Gets the name a value is stored under for an account
+ * The default account uses the plain key, so that values saved before multiple accounts were supported can still be read
+ */
+function getAccountKey(key: SecureStorageKey, accountID: string): string {
+	return accountID === defaultAccountID ? key : `${accountID}.${key}`;
+}
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+function getDatabase(): Promise<IDBDatabase> {
+	if(!databasePromise) {
+		databasePromise = openDatabase(databaseName, databaseVersion, (database) => {
+			database.createObjectStore(storeValues);
+		});
+		
+		//Allowing the database to be opened again if it fails
+		databasePromise.catch(() => databasePromise = undefined);
+	}
+	
+	return databasePromise;
+}
+
+async function setWorkerValue(encryptedKey: string, encryptedValue: string | undefined) {
+	//Ignoring if IndexedDB isn't supported, since there is no service worker to read the value
+	if(typeof indexedDB === "undefined") return;
+	
+	const database = await getDatabase();
+	const transaction = database.transaction(storeValues, "readwrite");
+	if(encryptedValue === undefined) transaction.objectStore(storeValues).delete(encryptedKey);
+	else transaction.objectStore(storeValues).put(encryptedValue, encryptedKey);
+	await promisifyTransaction(transaction);
+}
+
+async function getWorkerValue(encryptedKey: string): Promise<string | null> {
+	const database = await getDatabase();
+	const value: string | undefined = await promisifyRequest(database.transaction(storeValues, "readonly").objectStore(storeValues).get(encryptedKey));
+	return value ?? null;
+}
+
+export async function setSecureLS(key: SecureStorageKey, value: string | undefined, accountID: string) {
+	const encryptedKey = await encryptString(getAccountKey(key, accountID), false);
+	const encryptedValue = value !== undefined ? await encryptString(value, true) : undefined;
 	
-	if(value === undefined) {
+	if(encryptedValue === undefined) {
 		localStorage.removeItem(encryptedKey);
 	} else {
-		value = await encryptString(value, true);
-		localStorage.setItem(encryptedKey, value);
+		localStorage.setItem(encryptedKey, encryptedValue);
 	}
+	
+	if(workerKeys.includes(key)) await setWorkerValue(encryptedKey, encryptedValue);
 }
 
-export async function getSecureLS(key: SecureStorageKey): Promise<string | undefined> {
-	const value = localStorage.getItem(await encryptString(key, false));
+/**
+ * Reads a value from secure storage
+ *
+ * In a service worker, which has no local storage, only values the service worker needs can be read
+ */
+export async function getSecureLS(key: SecureStorageKey, accountID: string): Promise<string | undefined> {
+	const encryptedKey = await encryptString(getAccountKey(key, accountID), false);
+	
+	let value: string | null;
+	if(typeof localStorage !== "undefined") value = localStorage.getItem(encryptedKey);
+	else if(workerKeys.includes(key)) value = await getWorkerValue(encryptedKey);
+	else throw new Error(`Secure storage value ${key} isn't available outside the app`);
+	
 	if(value === null) {
 		return undefined;
 	} else {
 		return decryptString(value, true);
 	}
+}
+
+/**
+ * Makes an account's values available to the service worker, for values that were saved before they were kept for it
+ */
+export async function shareSecureLSWithWorker(accountID: string) {
+	await Promise.all(workerKeys.map(async (key) => {
+		const encryptedKey = await encryptString(getAccountKey(key, accountID), false);
+		await setWorkerValue(encryptedKey, localStorage.getItem(encryptedKey) ?? undefined);
+	}));
+}
+
+/**
+ * Removes all values stored for an account
+ */
+export async function clearSecureLS(accountID: string) {
+	await Promise.all(Object.values(SecureStorageKey).map((key) => setSecureLS(key, undefined, accountID)));
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * The details a server sends about itself when a connection is established
+ */
+export interface ServerIdentity {
+	installationID: string; //Identifies the server's installation of AirMessage Server
+	deviceName: string;
+	systemVersion: string;
+	softwareVersion: string;
+	communicationsVersion: string | undefined;
+}
+
+const storageKeyServerIdentity = "serverIdentity";
+
+function getStorageKey(accountID: string): string {
+	return `${storageKeyServerIdentity}.${accountID}`;
+}
+
+/**
+ * Gets the identity of the server an account last connected to
+ */
+export function getSavedServerIdentity(accountID: string): ServerIdentity | undefined {
+	const identityJSON = localStorage.getItem(getStorageKey(accountID));
+	if(!identityJSON) return undefined;
+	
+	try {
+		return JSON.parse(identityJSON) as ServerIdentity;
+	} catch(error) {
+		console.warn("Failed to read saved server identity", error);
+		return undefined;
+	}
+}
+
+export function saveServerIdentity(accountID: string, identity: ServerIdentity) {
+	localStorage.setItem(getStorageKey(accountID), JSON.stringify(identity));
+}
+
+/**
+ * Forgets the server an account last connected to, so that connecting to a different server isn't reported as a swap
+ */
+export function clearSavedServerIdentity(accountID: string) {
+	localStorage.removeItem(getStorageKey(accountID));
+}
\ No newline at end of file
@@ -17,7 +17,11 @@ if(!nativeWindowsAvailable) {
 }
 
 module.exports = (env) => ({
-	entry: "./src/index.tsx",
+	entry: {
+		index: "./src/index.tsx",
+		//Loaded into the service worker to handle push notifications and send messages queued while offline
+		...(env.electron ? {} : {"push-worker": "./browser/private/pushWorker.ts", "sync-worker": "./browser/private/syncWorker.ts"})
+	},
 	target: env.electron ? "electron-renderer" : "web",
 	mode: env.WEBPACK_SERVE ? "development" : "production",
 	devtool: env.WEBPACK_SERVE ? "cheap-source-map" : "source-map",
@@ -31,7 +35,7 @@ module.exports = (env) => ({
 	},
 	output: {
 		path: path.resolve(__dirname, "build"),
-		filename: "index.js",
+		filename: "[name].js",
 		assetModuleFilename: "res/[hash][ext][query]",
 		publicPath: "",
 		clean: true
@@ -128,7 +132,9 @@ module.exports = (env) => ({
 			"WPEnv.PACKAGE_VERSION": JSON.stringify(process.env.npm_package_version),
 			"WPEnv.RELEASE_HASH": "\"undefined\"",
 			"WPEnv.BUILD_DATE": Date.now(),
-			"WPEnv.WINRT": nativeWindowsAvailable
+			"WPEnv.WINRT": nativeWindowsAvailable,
+			"WPEnv.LOOPBACK": !!env.loopback,
+			"WPEnv.PROVISIONAL_PROTOCOLS": !!env.provisional
 		}),
-	].concat(!env.WEBPACK_SERVE && !env.electron ? new WorkboxPlugin.GenerateSW() : [])
+	].concat(!env.WEBPACK_SERVE && !env.electron ? new WorkboxPlugin.GenerateSW({importScripts: ["push-worker.js", "sync-worker.js"]}) : [])
 });
\ No newline at end of file